@@ -0,0 +1,182 @@
+// Keeps the app shell cached so the app opens without a connection, replays
+// check-ins, journal entries and messages queued while offline (see
+// src/lib/offline.ts), shows reminders sent through Web Push, and opens the
+// app when one is clicked.
+
+const SHELL_CACHE = 'mindfulmate-shell-v1';
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+// Public and needed most when things are hard, so kept for offline use too.
+const CRISIS_RESOURCES = '/api/crisis/resources';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_FILES)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, falling back to the cached copy. Every page of the SPA is
+// index.html, so navigations share one cache entry.
+const networkFirst = async (request, cacheKey = request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(cacheKey, { ignoreSearch: cacheKey === '/' });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Built assets have hashed names, so a cached copy is served straight away
+// and refreshed in the background.
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request).then(response => {
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return fresh;
+  fresh.catch(() => {});
+  return cached;
+};
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (event.request.mode === 'navigate') {
+    event.respondWith(networkFirst(event.request, '/'));
+  } else if (url.pathname === CRISIS_RESOURCES) {
+    event.respondWith(networkFirst(event.request));
+  } else if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event.request));
+  }
+});
+
+// --- Offline queue -------------------------------------------------------
+// The database layout must match src/lib/offline.ts.
+
+const openQueue = () =>
+  new Promise((resolve, reject) => {
+    const open = indexedDB.open('mindfulmate-offline', 1);
+    open.onupgradeneeded = () => open.result.createObjectStore('queue', { keyPath: 'key' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+const queueRequest = (db, mode, use) =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction('queue', mode);
+    const request = use(transaction.objectStore('queue'));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+// Sends queued requests oldest first, each with the Idempotency-Key it was
+// queued with, so a request that reached the server before the connection
+// dropped is not saved twice. Only the signed-in student's items are sent.
+// The worker never refreshes the session itself (a refresh token is single
+// use, and the open app may be refreshing at the same moment); with an
+// expired session the queue waits until the app asks again. Items the server
+// refuses as invalid are set aside, not deleted, for the app to show.
+let replaying = null;
+
+const replayQueue = () => {
+  replaying ??= sendQueued().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+};
+
+const sendQueued = async () => {
+  const db = await openQueue();
+  const items = await queueRequest(db, 'readonly', store => store.getAll());
+  if (items.length === 0) return;
+  const me = await fetch('/api/auth/me');
+  if (!me.ok) return;
+  const { id: userId } = await me.json();
+
+  const pending = items
+    .filter(item => item.userId === userId && !item.rejected)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  let sent = 0;
+  let rejected = 0;
+  try {
+    for (const item of pending) {
+      const res = await fetch(item.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': item.key },
+        body: JSON.stringify(item.body),
+      });
+      // Invalid, so a retry won't succeed either: kept, marked, until the
+      // student has seen it.
+      if (res.status === 400 || res.status === 422) {
+        await queueRequest(db, 'readwrite', store => store.put({ ...item, rejected: res.status }));
+        rejected++;
+        continue;
+      }
+      // Still processing, signed out, rate limited or a server problem: keep
+      // this item and the rest for the next try.
+      if (!res.ok) throw new Error(`Replay failed with ${res.status}`);
+      const data = await res.json();
+      await queueRequest(db, 'readwrite', store => store.delete(item.key));
+      sent++;
+
+      // Messages written offline before their conversation existed all go
+      // to the conversation the first one created.
+      if (item.thread && data?.conversationId) {
+        for (const later of pending) {
+          if (later.thread === item.thread && later.body.conversationId == null) {
+            later.body.conversationId = data.conversationId;
+            await queueRequest(db, 'readwrite', store => store.put(later));
+          }
+        }
+      }
+    }
+  } finally {
+    if (sent > 0 || rejected > 0) {
+      const windows = await self.clients.matchAll({ type: 'window' });
+      if (sent > 0) windows.forEach(w => w.postMessage({ type: 'queue-synced', sent }));
+      if (rejected > 0) windows.forEach(w => w.postMessage({ type: 'queue-rejected', rejected }));
+    }
+  }
+};
+
+self.addEventListener('sync', event => {
+  if (event.tag === 'replay-queue') event.waitUntil(replayQueue());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'replay-queue') event.waitUntil(replayQueue());
+});
+
+self.addEventListener('push', event => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'MindfulMate', {
+      body: data.body,
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(w => new URL(w.url).origin === self.location.origin);
+      return open ? open.navigate(url).then(w => w && w.focus()) : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,81 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { createProviderFromEnv } from "../server/services/llm";
+import { DEFAULT_GEMINI_MODEL } from "../server/services/llm/geminiProvider";
+import { createCrisisDetector, loadCrisisConfig } from "../server/services/crisis";
+import { buildReport, classifyExamples, parseDataset } from "../server/services/moodEvaluation";
+import { MOODS } from "../src/types";
+
+// Usage: npm run eval:moods -- [dataset.jsonl] [--provider local|gemini] [--out report.json]
+//
+// Scores the mood labels a provider gives against a hand-labelled dataset
+// (eval/moods.jsonl by default). The provider is chosen like the server's,
+// from LLM_PROVIDER and GEMINI_API_KEY, unless --provider is given. The JSON
+// report has no timestamps, so two runs can be diffed after a prompt or
+// model change.
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  if (i < 0) return undefined;
+  const value = args[i + 1];
+  if (!value || value.startsWith("--")) {
+    console.error(`--${name} needs a value`);
+    process.exit(1);
+  }
+  args.splice(i, 2);
+  return value;
+};
+
+const providerChoice = option("provider");
+const outOption = option("out");
+const datasetPath = args[0] ?? "eval/moods.jsonl";
+
+const env = providerChoice ? { ...process.env, LLM_PROVIDER: providerChoice } : process.env;
+const provider = createProviderFromEnv(env);
+const model = provider.name === "gemini" ? env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL : null;
+const outPath = outOption ?? path.join("eval", "reports", `moods-${provider.name}.json`);
+
+const contents = fs.readFileSync(datasetPath, "utf8");
+const { examples, error } = parseDataset(contents);
+if (error) {
+  console.error(`${datasetPath}: ${error}`);
+  process.exit(1);
+}
+
+console.log(`Classifying ${examples.length} messages with ${model ?? provider.name}...`);
+const predictions = await classifyExamples(provider, createCrisisDetector(loadCrisisConfig()), examples, done => {
+  if (process.stdout.isTTY) process.stdout.write(`\r${done}/${examples.length}`);
+});
+if (process.stdout.isTTY) process.stdout.write("\n");
+
+const report = buildReport(
+  predictions,
+  { provider: provider.name, model },
+  { file: datasetPath, sha256: crypto.createHash("sha256").update(contents).digest("hex"), examples: examples.length }
+);
+fs.mkdirSync(path.dirname(outPath), { recursive: true });
+fs.writeFileSync(outPath, JSON.stringify(report, null, 2) + "\n");
+
+const percent = (value: number | null) => (value === null ? "   -" : `${(value * 100).toFixed(0).padStart(3)}%`);
+const column = (text: string | number) => String(text).padStart(9);
+
+console.log(`\nAccuracy ${percent(report.accuracy)}   macro F1 ${percent(report.macroF1)}\n`);
+console.log(["", "precision", "recall", "f1", "support"].map(column).join(""));
+for (const mood of MOODS) {
+  const { precision, recall, f1, support } = report.perClass[mood];
+  console.log([mood, percent(precision), percent(recall), percent(f1), support].map(column).join(""));
+}
+
+console.log("\nConfusion matrix (rows: labelled, columns: predicted)");
+console.log(["", ...MOODS, "error"].map(column).join(""));
+for (const mood of MOODS) {
+  console.log([mood, ...[...MOODS, "error" as const].map(p => report.confusionMatrix[mood][p])].map(column).join(""));
+}
+
+const { crisis } = report;
+console.log(`\nCrisis recall ${percent(crisis.recall)} (${crisis.truePositives} caught, ${crisis.falseNegatives} missed, ${crisis.falsePositives} false alarms)`);
+for (const { id, text } of crisis.missed) console.log(`  missed ${id}: ${text}`);
+if (report.errors.length) console.log(`\n${report.errors.length} message(s) failed; see the report for details.`);
+console.log(`\nReport written to ${outPath}`);
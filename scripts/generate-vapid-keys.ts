@@ -0,0 +1,8 @@
+import webpush from "web-push";
+
+// Prints a new VAPID key pair for Web Push. Changing keys invalidates every
+// existing browser subscription, so generate them once per deployment.
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,49 @@
+import Database from "better-sqlite3";
+import { MIGRATIONS } from "../server/migrations";
+import { currentVersion, migrate, migrationStatus, rollback } from "../server/migrations/runner";
+
+// Usage:
+//   npm run db:migrate [-- <version>]    apply pending migrations, up to <version> if given
+//   npm run db:rollback [-- <version>]   undo migrations down to <version> (default: undo the latest one)
+//   npm run db:status                    list migrations and whether each is applied
+//
+// Opens the database directly: openDatabase would migrate it first.
+const db = new Database("database.db");
+const [command, arg] = process.argv.slice(2);
+
+const parseVersion = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    console.error(`Not a version number: ${value}`);
+    process.exit(1);
+  }
+  return version;
+};
+
+const label = (migration: { version: number; name: string }) => `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+
+try {
+  if (command === "up") {
+    const applied = migrate(db, MIGRATIONS, parseVersion(arg));
+    applied.forEach(m => console.log(`Applied ${label(m)}`));
+    console.log(applied.length ? `Now at version ${currentVersion(db)}.` : `Already up to date at version ${currentVersion(db)}.`);
+  } else if (command === "down") {
+    const applied = migrationStatus(db, MIGRATIONS).filter(m => m.appliedAt);
+    const target = parseVersion(arg) ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+    const undone = rollback(db, MIGRATIONS, target);
+    undone.forEach(m => console.log(`Rolled back ${label(m)}`));
+    console.log(`Now at version ${currentVersion(db)}.`);
+  } else if (command === "status") {
+    for (const migration of migrationStatus(db, MIGRATIONS)) {
+      const state = migration.missing ? "applied, unknown to this code" : migration.appliedAt ? `applied ${migration.appliedAt}` : "pending";
+      console.log(`${label(migration)}  ${state}`);
+    }
+  } else {
+    console.error("Usage: tsx scripts/migrate.ts <up|down|status> [version]");
+    process.exit(1);
+  }
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+}
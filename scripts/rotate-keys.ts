@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { openDatabase, withDatabase } from "../server/db";
+import { encryptPlaintextRows, rotateKeys } from "../server/services/encryption";
+
+// Re-wraps every user's data key under ENCRYPTION_MASTER_KEY, unwrapping with
+// ENCRYPTION_PREVIOUS_MASTER_KEYS where needed. Pass --data-keys to also issue
+// fresh data keys and re-encrypt all stored fields (stop the server first).
+const rotateDataKeys = process.argv.includes("--data-keys");
+
+const { users, migrated } = withDatabase(openDatabase(), () => ({
+  users: rotateKeys(rotateDataKeys),
+  migrated: encryptPlaintextRows(),
+}));
+
+console.log(`Rotated ${rotateDataKeys ? "master and data keys" : "the master key"} for ${users} user(s).`);
+if (migrated) console.log(`Encrypted ${migrated} plaintext field(s).`);
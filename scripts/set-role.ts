@@ -0,0 +1,17 @@
+import "dotenv/config";
+import { openDatabase, withDatabase } from "../server/db";
+import { setRoleByEmail } from "../server/repositories/users";
+import { ROLES, type Role } from "../src/types";
+
+// Usage: npm run users:role -- <email> <role>
+const [email, role] = process.argv.slice(2);
+if (!email || !ROLES.includes(role as Role)) {
+  console.error(`Usage: npm run users:role -- <email> <${ROLES.join("|")}>`);
+  process.exit(1);
+}
+
+if (!withDatabase(openDatabase(), () => setRoleByEmail(email.trim().toLowerCase(), role as Role))) {
+  console.error(`No user with email ${email}`);
+  process.exit(1);
+}
+console.log(`${email} is now ${role === "admin" ? "an" : "a"} ${role}.`);
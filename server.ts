@@ -1,126 +1,30 @@
+import "dotenv/config";
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import Database from "better-sqlite3";
-import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
-import cookieParser from "cookie-parser";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createApp } from "./server/app";
+import { createProviderFromEnv } from "./server/services/llm";
+import { createMailerFromEnv } from "./server/services/mailer";
+import { createPushSenderFromEnv } from "./server/services/push";
+import { createNotifier } from "./server/services/notifications";
+import { createReminderScheduler } from "./server/services/reminders";
+import { encryptPlaintextRows } from "./server/services/encryption";
+import { openDatabase, withDatabase } from "./server/db";
+import { log } from "./server/services/logger";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const db = new Database("database.db");
-const JWT_SECRET = process.env.JWT_SECRET || "super-secret-key";
+const db = openDatabase();
 
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    email TEXT UNIQUE,
-    password TEXT,
-    name TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS moods (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    mood TEXT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY(user_id) REFERENCES users(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS chats (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER,
-    role TEXT,
-    content TEXT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY(user_id) REFERENCES users(id)
-  );
-`);
+const push = createPushSenderFromEnv();
+const reminderScheduler = createReminderScheduler(createNotifier(push));
 
 async function startServer() {
-  const app = express();
+  const app = createApp({ db, llm: createProviderFromEnv(), mailer: createMailerFromEnv(), push });
   const PORT = 3000;
 
-  app.use(express.json());
-  app.use(cookieParser());
-
-  // Auth Middleware
-  const authenticateToken = (req: any, res: any, next: any) => {
-    const token = req.cookies.token;
-    if (!token) return res.status(401).json({ error: "Unauthorized" });
-
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-      if (err) return res.status(403).json({ error: "Forbidden" });
-      req.user = user;
-      next();
-    });
-  };
-
-  // Auth Routes
-  app.post("/api/auth/signup", async (req, res) => {
-    const { email, password, name } = req.body;
-    const hashedPassword = await bcrypt.hash(password, 10);
-    try {
-      const info = db.prepare("INSERT INTO users (email, password, name) VALUES (?, ?, ?)").run(email, hashedPassword, name);
-      const token = jwt.sign({ id: info.lastInsertRowid, email, name }, JWT_SECRET);
-      res.cookie("token", token, { httpOnly: true, secure: true, sameSite: "none" });
-      res.json({ id: info.lastInsertRowid, email, name });
-    } catch (e) {
-      res.status(400).json({ error: "Email already exists" });
-    }
-  });
-
-  app.post("/api/auth/login", async (req, res) => {
-    const { email, password } = req.body;
-    const user: any = db.prepare("SELECT * FROM users WHERE email = ?").get(email);
-    if (!user || !(await bcrypt.compare(password, user.password))) {
-      return res.status(401).json({ error: "Invalid credentials" });
-    }
-    const token = jwt.sign({ id: user.id, email: user.email, name: user.name }, JWT_SECRET);
-    res.cookie("token", token, { httpOnly: true, secure: true, sameSite: "none" });
-    res.json({ id: user.id, email: user.email, name: user.name });
-  });
-
-  app.post("/api/auth/logout", (req, res) => {
-    res.clearCookie("token");
-    res.json({ message: "Logged out" });
-  });
-
-  app.get("/api/auth/me", authenticateToken, (req: any, res) => {
-    res.json(req.user);
-  });
-
-  // Data Routes
-  app.get("/api/moods", authenticateToken, (req: any, res) => {
-    const moods = db.prepare("SELECT * FROM moods WHERE user_id = ? ORDER BY timestamp ASC").all(req.user.id);
-    res.json(moods);
-  });
-
-  app.post("/api/moods", authenticateToken, (req: any, res) => {
-    const { mood } = req.body;
-    db.prepare("INSERT INTO moods (user_id, mood) VALUES (?, ?)").run(req.user.id, mood);
-    res.json({ success: true });
-  });
-
-  app.get("/api/chats", authenticateToken, (req: any, res) => {
-    const chats = db.prepare("SELECT * FROM chats WHERE user_id = ? ORDER BY timestamp ASC").all(req.user.id);
-    res.json(chats);
-  });
-
-  app.post("/api/chats", authenticateToken, (req: any, res) => {
-    const { role, content } = req.body;
-    db.prepare("INSERT INTO chats (user_id, role, content) VALUES (?, ?, ?)").run(req.user.id, role, content);
-    res.json({ success: true });
-  });
-
-  app.delete("/api/chats", authenticateToken, (req: any, res) => {
-    db.prepare("DELETE FROM chats WHERE user_id = ?").run(req.user.id);
-    res.json({ success: true });
-  });
-
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -136,8 +40,14 @@ async function startServer() {
   }
 
   app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+    log.info("server_started", { url: `http://localhost:${PORT}` });
+    reminderScheduler.start();
   });
 }
 
-startServer();
+// The reminder scheduler, started from here, keeps running against db.
+withDatabase(db, () => {
+  // Messages and notes stored before encryption at rest are encrypted in place.
+  encryptPlaintextRows();
+  startServer();
+});
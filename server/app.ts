@@ -0,0 +1,280 @@
+import express from "express";
+import cookieParser from "cookie-parser";
+import type Database from "better-sqlite3";
+import { analyzeSentimentAndRespond, streamSentimentAndRespond, type LLMProvider, type ModelResponse } from "./services/llm";
+import {
+  createCrisisDetector,
+  loadCrisisConfig,
+  loadCrisisDirectory,
+  resolveCrisisResources,
+  type CrisisDetector,
+  type CrisisDirectory,
+} from "./services/crisis";
+import type { Mailer } from "./services/mailer";
+import { loadMinGroupSize } from "./services/adminStats";
+import type { PushSender } from "./services/push";
+import { autoTitleConversation, createConversation, getConversation, getMessage, toConversation, toMessages, touchConversation } from "./services/conversations";
+import { compactConversation, loadChatContext, suggestFacts } from "./services/memory";
+import { log } from "./services/logger";
+import { crisisDetections } from "./services/metrics";
+import { db, transaction, withDatabase } from "./db";
+import { deleteChats, insertChat, listChats } from "./repositories/chats";
+import { insertInferredMood } from "./repositories/moods";
+import { getPreferences } from "./repositories/users";
+import { asyncHandler } from "./middleware/asyncHandler";
+import { authenticateToken } from "./middleware/auth";
+import { idempotent } from "./middleware/idempotency";
+import { requestLogger } from "./middleware/requestLog";
+import { createAuthRouter } from "./routes/auth";
+import { createConversationsRouter } from "./routes/conversations";
+import { suggestionsRouter } from "./routes/suggestions";
+import { exercisesRouter } from "./routes/exercises";
+import { moodsRouter } from "./routes/moods";
+import { accountRouter } from "./routes/account";
+import { sharingRouter } from "./routes/sharing";
+import { counselorRouter } from "./routes/counselor";
+import { memoryRouter } from "./routes/memory";
+import { remindersRouter } from "./routes/reminders";
+import { journalRouter } from "./routes/journal";
+import { searchRouter } from "./routes/search";
+import { createNotificationsRouter } from "./routes/notifications";
+import { createAdminRouter } from "./routes/admin";
+import { healthRouter } from "./routes/health";
+import { createMetricsRouter } from "./routes/metrics";
+import { matchExercise } from "../src/lib/exercises";
+
+export interface AppDependencies {
+  db: Database.Database;
+  llm: LLMProvider;
+  mailer: Mailer;
+  // Null when Web Push isn't configured.
+  push?: PushSender | null;
+  crisisDetector?: CrisisDetector;
+  crisisDirectory?: CrisisDirectory;
+  // The k-anonymity threshold for the admin console's wellbeing figures.
+  minGroupSize?: number;
+  // Bearer token required to read /metrics; null leaves it open.
+  metricsToken?: string | null;
+}
+
+// The user message, bot reply, its suggestions, the inferred mood and any
+// facts offered for memory are stored together or not at all. Returns the id
+// of the bot reply.
+const saveExchange = transaction(
+  (userId: number, conversationId: number, message: string, result: ModelResponse, isCrisis: boolean) => {
+    const insertSuggestion = db().prepare("INSERT INTO suggestions (user_id, chat_id, text, exercise) VALUES (?, ?, ?, ?)");
+    const userChatId = insertChat(userId, conversationId, "user", message, isCrisis);
+    const botId = insertChat(userId, conversationId, "bot", result.response, isCrisis);
+    for (const text of result.suggestions || []) {
+      insertSuggestion.run(userId, botId, text, matchExercise(text));
+    }
+    insertInferredMood(userId, result.mood, userChatId);
+    suggestFacts(userId, userChatId, result.facts || []);
+    touchConversation(conversationId);
+    return botId;
+  }
+);
+
+// Chat requests continue the given conversation, or start a new one when none is given.
+const resolveConversation = (userId: number, conversationId: unknown) =>
+  conversationId == null ? createConversation(userId) : getConversation(userId, Number(conversationId));
+
+// The API without the front end or a listening socket: server.ts adds those,
+// and tests call it directly. Every request, and the work it leaves running in
+// the background, runs against the given database.
+export const createApp = ({
+  db: database,
+  llm,
+  mailer,
+  push = null,
+  crisisDetector = createCrisisDetector(loadCrisisConfig()),
+  crisisDirectory = loadCrisisDirectory(),
+  minGroupSize = loadMinGroupSize(),
+  metricsToken = process.env.METRICS_TOKEN || null,
+}: AppDependencies) => {
+  const app = express();
+
+  // Summarizing older messages never delays or fails the reply it follows.
+  const compactInBackground = (userId: number, conversationId: number) => {
+    compactConversation(llm, userId, conversationId).catch(error => log.error("memory_summary_failed", { conversationId, error }));
+  };
+
+  // The safety message in the student's language, with helplines for their region.
+  const crisisResponse = (userId: number, endpoint: "respond" | "stream" | "chats") => {
+    crisisDetections.inc({ endpoint });
+    log.warn("crisis_detected", { endpoint });
+    const user = getPreferences(userId);
+    const { response, region, emergency, helplines } = resolveCrisisResources(crisisDirectory, user?.locale, user?.region);
+    return { mood: "Sad" as const, response, suggestions: [], crisis: true, region, emergency, helplines };
+  };
+
+  // Behind a reverse proxy, TRUST_PROXY (number of hops) lets rate limiting see real client IPs.
+  if (process.env.TRUST_PROXY) app.set("trust proxy", Number(process.env.TRUST_PROXY));
+  app.use((req, res, next) => withDatabase(database, next));
+  app.use(requestLogger);
+  app.use(healthRouter);
+  app.use(createMetricsRouter(metricsToken));
+  app.use(express.json());
+  app.use(cookieParser());
+
+  app.use("/api/auth", createAuthRouter(mailer));
+  app.use("/api/account", accountRouter);
+
+  // Data Routes
+  app.use("/api/moods", moodsRouter);
+
+  app.get("/api/chats", authenticateToken, (req: any, res) => {
+    const { conversationId } = req.query;
+    res.json(toMessages(listChats(req.user.id, conversationId ? Number(conversationId) : undefined)));
+  });
+
+  app.post("/api/chats", authenticateToken, idempotent, (req: any, res) => {
+    const { role, content, conversationId } = req.body;
+    if ((role !== "user" && role !== "bot") || typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "A role of user or bot and some content are required" });
+    }
+    const conversation = resolveConversation(req.user.id, conversationId);
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+
+    // Messages written offline arrive here once the device reconnects. They
+    // are screened like live ones: a crisis gets the safety reply saved with
+    // it, and the helplines back in the response.
+    if (role === "user" && crisisDetector.detect(content).isCrisis) {
+      const result = crisisResponse(req.user.id, "chats");
+      const botId = saveExchange(req.user.id, conversation.id, content, result, true);
+      return res.json({ success: true, conversationId: conversation.id, ...result, message: getMessage(botId) });
+    }
+    insertChat(req.user.id, conversation.id, role, content);
+    touchConversation(conversation.id);
+    res.json({ success: true, conversationId: conversation.id });
+  });
+
+  app.use("/api/conversations", createConversationsRouter(llm));
+  app.use("/api/suggestions", suggestionsRouter);
+  app.use("/api/exercises", exercisesRouter);
+  app.use("/api/sharing", sharingRouter);
+  app.use("/api/counselor", counselorRouter);
+  app.use("/api/memory", memoryRouter);
+  app.use("/api/reminders", remindersRouter);
+  app.use("/api/journal", journalRouter);
+  app.use("/api/search", searchRouter);
+  app.use("/api/notifications", createNotificationsRouter(push));
+  app.use("/api/admin", createAdminRouter(minGroupSize));
+
+  app.post("/api/chat/respond", authenticateToken, asyncHandler(async (req: any, res) => {
+    const { message, conversationId } = req.body;
+    if (typeof message !== "string" || !message.trim()) {
+      return res.status(400).json({ error: "Message is required" });
+    }
+    const conversation = resolveConversation(req.user.id, conversationId);
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+
+    // Crisis screening runs before, and independently of, the model.
+    if (crisisDetector.detect(message).isCrisis) {
+      const result = crisisResponse(req.user.id, "respond");
+      let saved;
+      try {
+        saved = getMessage(saveExchange(req.user.id, conversation.id, message, result, true));
+      } catch (error) {
+        // The safety response must reach the user even if persisting it fails.
+        log.error("crisis_exchange_save_failed", { conversationId: conversation.id, error });
+      }
+      return res.json({ ...result, message: saved, conversation: toConversation(conversation) });
+    }
+
+    const result = await analyzeSentimentAndRespond(llm, message, loadChatContext(req.user.id, conversation.id));
+
+    let botId: number;
+    try {
+      botId = saveExchange(req.user.id, conversation.id, message, result, false);
+    } catch (error) {
+      log.error("chat_exchange_save_failed", { conversationId: conversation.id, error });
+      return res.status(500).json({ error: "Could not save conversation" });
+    }
+    const { facts, ...reply } = result;
+    res.json({
+      ...reply,
+      message: getMessage(botId),
+      conversation: toConversation(await autoTitleConversation(llm, req.user.id, conversation.id)),
+    });
+    compactInBackground(req.user.id, conversation.id);
+  }));
+
+  // Server-Sent Events over POST: "token" events carry reply text as it is
+  // generated, "reset" discards it, and "done" carries the full result once saved.
+  app.post("/api/chat/stream", authenticateToken, asyncHandler(async (req: any, res) => {
+    const { message, conversationId } = req.body;
+    if (typeof message !== "string" || !message.trim()) {
+      return res.status(400).json({ error: "Message is required" });
+    }
+    const conversation = resolveConversation(req.user.id, conversationId);
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    if (crisisDetector.detect(message).isCrisis) {
+      const result = crisisResponse(req.user.id, "stream");
+      let saved;
+      try {
+        saved = getMessage(saveExchange(req.user.id, conversation.id, message, result, true));
+      } catch (error) {
+        log.error("crisis_exchange_save_failed", { conversationId: conversation.id, error });
+      }
+      send("done", { ...result, message: saved, conversation: toConversation(conversation) });
+      return res.end();
+    }
+
+    const result = await streamSentimentAndRespond(
+      llm,
+      message,
+      loadChatContext(req.user.id, conversation.id),
+      text => send("token", { text }),
+      () => send("reset", {})
+    );
+
+    try {
+      const botId = saveExchange(req.user.id, conversation.id, message, result, false);
+      const { facts, ...reply } = result;
+      send("done", {
+        ...reply,
+        message: getMessage(botId),
+        conversation: toConversation(await autoTitleConversation(llm, req.user.id, conversation.id)),
+      });
+      compactInBackground(req.user.id, conversation.id);
+    } catch (error) {
+      log.error("chat_exchange_save_failed", { conversationId: conversation.id, error });
+      send("error", { error: "Could not save conversation" });
+    }
+    res.end();
+  }));
+
+  // Public so the "Get help now" page works before logging in.
+  app.get("/api/crisis/resources", (req, res) => {
+    res.json(resolveCrisisResources(crisisDirectory, req.query.locale, req.query.region));
+  });
+
+  app.delete("/api/chats", authenticateToken, (req: any, res) => {
+    const { conversationId } = req.query;
+    deleteChats(req.user.id, conversationId ? Number(conversationId) : undefined);
+    res.json({ success: true });
+  });
+
+  // Whatever a route throws is logged against its request id; the client
+  // gets a generic message. Malformed JSON bodies arrive here as 400s. A
+  // response already under way, such as a reply stream, is ended as it is.
+  app.use((error: any, req: any, res: any, next: any) => {
+    const status = Number.isInteger(error.status) && error.status >= 400 && error.status < 500 ? error.status : 500;
+    if (status === 500) log.error("request_failed", { method: req.method, path: req.path, error });
+    if (res.headersSent) return res.end();
+    res.status(status).json({ error: status === 500 ? "Something went wrong" : "Invalid request" });
+  });
+
+  return app;
+};
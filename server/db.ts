@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import Database from "better-sqlite3";
+import { MIGRATIONS } from "./migrations";
+import { migrate } from "./migrations/runner";
+
+// Opens a database file (or ":memory:") and brings its schema up to date;
+// `npm run db:status` shows where a database stands and `npm run db:rollback`
+// undoes migrations.
+export const openDatabase = (file = "database.db") => {
+  const handle = new Database(file);
+  // SQLite leaves foreign keys unenforced, ON DELETE actions included,
+  // unless each connection asks.
+  handle.pragma("foreign_keys = ON");
+  migrate(handle, MIGRATIONS);
+  return handle;
+};
+
+// The database a call runs against, carried along the call the way the
+// logger carries the request id, so repositories and services don't need it
+// passed down to them. createApp runs each of its requests with its own
+// database; server.ts, scripts and tests wrap their work in withDatabase.
+// Nothing is kept in a module variable, so apps over different databases
+// can run side by side in one process.
+const databaseContext = new AsyncLocalStorage<Database.Database>();
+
+export const withDatabase = <T>(handle: Database.Database, fn: () => T) => databaseContext.run(handle, fn);
+
+// The database every repository and service reads and writes.
+export const db = () => {
+  const handle = databaseContext.getStore();
+  if (!handle) throw new Error("No database in use; run this inside withDatabase");
+  return handle;
+};
+
+// Like db().transaction, but runs against whichever database is in use when
+// called, so modules can define their transactions when they load.
+export const transaction =
+  <Args extends unknown[], Result>(fn: (...args: Args) => Result) =>
+  (...args: Args): Result =>
+    db().transaction(fn)(...args);
@@ -0,0 +1,7 @@
+// Express 4 ignores the promise an async handler returns, so anything thrown
+// after an await would leave the request hanging as an unhandled rejection.
+// Wrapped handlers pass it to the error handler instead.
+export const asyncHandler =
+  (handler: (req: any, res: any, next: any) => Promise<unknown>) => (req: any, res: any, next: any) => {
+    handler(req, res, next).catch(next);
+  };
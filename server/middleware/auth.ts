@@ -0,0 +1,58 @@
+import jwt from "jsonwebtoken";
+import { getRole } from "../repositories/users";
+import { log } from "../services/logger";
+import type { Role } from "../../src/types";
+
+const DEV_JWT_SECRET = "super-secret-key";
+
+const loadJwtSecret = () => {
+  const secret = process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production" && (!secret || secret === DEV_JWT_SECRET || secret.length < 32)) {
+    throw new Error("JWT_SECRET must be set to a random string of at least 32 characters in production");
+  }
+  if (!secret) log.warn("insecure_jwt_secret", { detail: "JWT_SECRET is not set; using an insecure development secret" });
+  return secret || DEV_JWT_SECRET;
+};
+
+export const JWT_SECRET = loadJwtSecret();
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const COOKIE_OPTIONS = { httpOnly: true, secure: true, sameSite: "none" } as const;
+// The refresh token is only ever needed by the auth routes.
+const REFRESH_COOKIE_OPTIONS = { ...COOKIE_OPTIONS, path: "/api/auth" };
+
+export const signAccessToken = (user: { id: number; email: string; name: string }) =>
+  jwt.sign({ id: user.id, email: user.email, name: user.name }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_MS / 1000 });
+
+export const setSessionCookies = (res: any, user: { id: number; email: string; name: string }, refreshToken: string) => {
+  res.cookie("token", signAccessToken(user), { ...COOKIE_OPTIONS, maxAge: ACCESS_TOKEN_TTL_MS });
+  res.cookie("refresh_token", refreshToken, { ...REFRESH_COOKIE_OPTIONS, maxAge: REFRESH_TOKEN_TTL_MS });
+};
+
+export const clearSessionCookies = (res: any) => {
+  res.clearCookie("token", COOKIE_OPTIONS);
+  res.clearCookie("refresh_token", REFRESH_COOKIE_OPTIONS);
+};
+
+// Auth Middleware
+export const authenticateToken = (req: any, res: any, next: any) => {
+  const token = req.cookies.token;
+  if (!token) return res.status(401).json({ error: "Unauthorized" });
+
+  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
+    // Expired access tokens get a 401 so the client knows to refresh.
+    if (err?.name === "TokenExpiredError") return res.status(401).json({ error: "Session expired" });
+    if (err) return res.status(403).json({ error: "Forbidden" });
+    req.user = user;
+    next();
+  });
+};
+
+// Use after authenticateToken. The role is read from the database rather than
+// the token, so a demotion takes effect immediately.
+export const requireRole = (role: Role) => (req: any, res: any, next: any) => {
+  if (getRole(req.user.id) !== role) return res.status(403).json({ error: "Forbidden" });
+  next();
+};
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { db } from "../db";
+import { decryptField, encryptField } from "../services/encryption";
+
+const KEY_FORMAT = /^[A-Za-z0-9_-]{8,100}$/;
+const KEEP_FOR = "-1 day";
+
+// A row of the idempotency_keys table. status and response stay null until
+// the first request has been answered; response is encrypted at rest.
+interface IdempotencyKeyRow {
+  id: number;
+  user_id: number;
+  key: string;
+  request: string;
+  request_hash: string;
+  status: number | null;
+  response: string | null;
+  created_at: string;
+}
+
+// For writes that clients may retry, such as the offline queue replaying
+// after a reconnect. A request carrying an Idempotency-Key header runs once;
+// repeating it with the same key returns the stored response instead of
+// creating another row. Requests without the header are unaffected. Must run
+// after authenticateToken, since keys are scoped to the user.
+export const idempotent = (req: any, res: any, next: any) => {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) return next();
+  if (!KEY_FORMAT.test(key)) {
+    return res.status(400).json({ error: "Idempotency-Key must be 8 to 100 letters, digits, - or _" });
+  }
+
+  const userId = req.user.id;
+  const request = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = crypto.createHash("sha256").update(JSON.stringify(req.body ?? null)).digest("hex");
+  db().prepare("DELETE FROM idempotency_keys WHERE created_at < datetime('now', ?)").run(KEEP_FOR);
+
+  const claimed = db()
+    .prepare("INSERT OR IGNORE INTO idempotency_keys (user_id, key, request, request_hash) VALUES (?, ?, ?, ?)")
+    .run(userId, key, request, requestHash).changes > 0;
+  if (!claimed) {
+    const row = db().prepare("SELECT * FROM idempotency_keys WHERE user_id = ? AND key = ?").get(userId, key) as IdempotencyKeyRow;
+    if (row.request !== request || row.request_hash !== requestHash) {
+      return res.status(422).json({ error: "This Idempotency-Key was already used for a different request" });
+    }
+    if (row.status === null) {
+      return res.status(409).json({ error: "A request with this Idempotency-Key is still being processed" });
+    }
+    res.set("Idempotent-Replayed", "true");
+    return res.status(row.status).json(JSON.parse(decryptField(userId, row.response)!));
+  }
+
+  // Only successful responses are kept; after a failure the key is released
+  // so the same request can be tried again.
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode < 400) {
+      db().prepare("UPDATE idempotency_keys SET status = ?, response = ? WHERE user_id = ? AND key = ?")
+        .run(res.statusCode, encryptField(userId, JSON.stringify(body)), userId, key);
+    }
+    return json(body);
+  };
+  res.on("finish", () => {
+    db().prepare("DELETE FROM idempotency_keys WHERE user_id = ? AND key = ? AND status IS NULL").run(userId, key);
+  });
+  next();
+};
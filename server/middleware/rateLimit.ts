@@ -0,0 +1,30 @@
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+}
+
+// Fixed-window, in-memory limiter keyed by client IP. Counts reset when the
+// server restarts, which is acceptable for slowing down password guessing.
+export const createRateLimiter = ({ windowMs, max, message }: RateLimitOptions) => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: any, res: any, next: any) => {
+    const now = Date.now();
+    if (hits.size > 10_000) {
+      for (const [key, entry] of hits) if (entry.resetAt <= now) hits.delete(key);
+    }
+
+    let entry = hits.get(req.ip);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(req.ip, entry);
+    }
+    entry.count++;
+    if (entry.count > max) {
+      res.set("Retry-After", String(Math.ceil((entry.resetAt - now) / 1000)));
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+};
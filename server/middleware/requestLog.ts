@@ -0,0 +1,45 @@
+import { randomUUID } from "node:crypto";
+import { log, withRequestId } from "../services/logger";
+import { httpRequestDuration, secondsSince } from "../services/metrics";
+
+// A proxy's X-Request-Id is kept when it looks like an id rather than text.
+const REQUEST_ID = /^[A-Za-z0-9._-]{8,100}$/;
+
+// Probes and scrapes arrive every few seconds; they are only logged at debug level.
+const QUIET_PATHS = new Set(["/healthz", "/readyz", "/metrics"]);
+
+// Gives every request an id, returned in X-Request-Id and attached to every
+// log line written while handling it, then logs and times the request once the
+// response is done. Only the method, path, route, status, duration and user
+// id are logged: never the query string, headers or body, which carry
+// messages, search terms and tokens.
+export const requestLogger = (req: any, res: any, next: any) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const start = process.hrtime.bigint();
+  req.id = requestId;
+  res.set("X-Request-Id", requestId);
+
+  res.on("close", () => {
+    const seconds = secondsSince(start);
+    // The matched pattern (/api/conversations/:id), so ids don't each become a series.
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    const status = res.statusCode;
+    httpRequestDuration.observe({ method: req.method, route, status: String(status) }, seconds);
+    const path = req.originalUrl.split("?")[0];
+    const level = status >= 500 ? "error" : QUIET_PATHS.has(path) ? "debug" : "info";
+    withRequestId(requestId, () =>
+      log[level]("request", {
+        method: req.method,
+        path,
+        route,
+        status,
+        durationMs: Math.round(seconds * 1000),
+        userId: req.user?.id ?? null,
+        ...(res.writableFinished ? {} : { aborted: true }),
+      })
+    );
+  });
+
+  withRequestId(requestId, next);
+};
@@ -0,0 +1,244 @@
+import { hasColumn, type Migration } from "./runner";
+
+// Everything up to the migration runner. Databases created before it already
+// have some or all of this, so tables are only created and columns only added
+// where missing. It has no down: dropping its tables would erase every
+// account in an adopted database, not just what this migration created.
+export const initialSchema: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: db => {
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT UNIQUE,
+      password TEXT,
+      name TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS moods (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      mood TEXT,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS conversations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      title TEXT,
+      archived INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS chats (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      role TEXT,
+      content TEXT,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS suggestions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      chat_id INTEGER,
+      text TEXT,
+      exercise TEXT,
+      tried_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id),
+      FOREIGN KEY(chat_id) REFERENCES chats(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS exercise_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      exercise TEXT,
+      duration_seconds INTEGER,
+      completed INTEGER DEFAULT 0,
+      mood_before INTEGER,
+      mood_after INTEGER,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      token_hash TEXT UNIQUE,
+      family TEXT,
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS email_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      purpose TEXT,
+      token_hash TEXT UNIQUE,
+      expires_at DATETIME,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS consent_grants (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      student_id INTEGER,
+      counselor_id INTEGER,
+      include_transcripts INTEGER DEFAULT 0,
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(student_id) REFERENCES users(id),
+      FOREIGN KEY(counselor_id) REFERENCES users(id)
+    );
+
+    -- "summary" rows hold the rolling summary of older messages (one per user);
+    -- "fact" rows are "suggested" until the student chooses to keep them.
+    CREATE TABLE IF NOT EXISTS memories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      kind TEXT,
+      content TEXT,
+      status TEXT DEFAULT 'suggested',
+      chat_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id),
+      FOREIGN KEY(chat_id) REFERENCES chats(id) ON DELETE SET NULL
+    );
+
+    -- Private by default: only entries with share_with_ai = 1 ever reach the model.
+    CREATE TABLE IF NOT EXISTS journal_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      title TEXT,
+      body TEXT,
+      prompt TEXT,
+      mood_id INTEGER,
+      share_with_ai INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id),
+      FOREIGN KEY(mood_id) REFERENCES moods(id) ON DELETE SET NULL
+    );
+
+    -- Times are UTC; time_of_day, window_* and ends_on are in the user's time zone.
+    CREATE TABLE IF NOT EXISTS reminders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      kind TEXT,
+      activity TEXT,
+      time_of_day TEXT,
+      interval_minutes INTEGER,
+      window_start TEXT,
+      window_end TEXT,
+      ends_on TEXT,
+      inactivity_days INTEGER,
+      enabled INTEGER DEFAULT 1,
+      next_run_at DATETIME,
+      last_sent_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      reminder_id INTEGER,
+      title TEXT,
+      body TEXT,
+      url TEXT,
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id),
+      FOREIGN KEY(reminder_id) REFERENCES reminders(id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS push_subscriptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      endpoint TEXT UNIQUE,
+      p256dh TEXT,
+      auth TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    -- Responses to writes sent with an Idempotency-Key, replayed when the same
+    -- key is sent again (see middleware/idempotency). Kept for a day.
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      key TEXT NOT NULL,
+      request TEXT NOT NULL,
+      request_hash TEXT NOT NULL,
+      status INTEGER,
+      response TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, key),
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+
+    -- No foreign keys: the record of who looked at what outlives both accounts.
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actor_id INTEGER,
+      student_id INTEGER,
+      action TEXT,
+      detail TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    `);
+
+    const addColumn = (table: string, column: string, definition: string) => {
+      if (!hasColumn(db, table, column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    };
+
+    addColumn("chats", "is_crisis", "INTEGER DEFAULT 0");
+    addColumn("chats", "conversation_id", "INTEGER REFERENCES conversations(id)");
+    addColumn("moods", "intensity", "INTEGER");
+    addColumn("moods", "tags", "TEXT");
+    addColumn("moods", "note", "TEXT");
+    // "ai" rows are inferred from chat messages, "self" rows are check-ins.
+    addColumn("moods", "source", "TEXT DEFAULT 'ai'");
+    // For "ai" rows, the user message the mood was inferred from.
+    addColumn("moods", "chat_id", "INTEGER REFERENCES chats(id) ON DELETE SET NULL");
+    // Per-user data key, wrapped by the master key (see services/encryption).
+    addColumn("users", "data_key", "TEXT");
+    addColumn("users", "failed_logins", "INTEGER DEFAULT 0");
+    addColumn("users", "locked_until", "DATETIME");
+    addColumn("users", "email_verified", "INTEGER DEFAULT 0");
+    // "student" or "counselor".
+    addColumn("users", "role", "TEXT DEFAULT 'student'");
+    // IANA zone and "HH:MM" quiet hours used to schedule reminders.
+    addColumn("users", "timezone", "TEXT DEFAULT 'UTC'");
+    addColumn("users", "quiet_hours_start", "TEXT");
+    addColumn("users", "quiet_hours_end", "TEXT");
+    // Interface and reply language, and the region whose crisis lines are shown.
+    addColumn("users", "locale", "TEXT");
+    addColumn("users", "region", "TEXT");
+    // Id of the last message folded into the memory summary (see services/memory).
+    addColumn("conversations", "summarized_through", "INTEGER DEFAULT 0");
+
+    // Messages written before conversations existed are gathered into one
+    // thread per user so nothing disappears from the sidebar.
+    const orphans = db
+      .prepare("SELECT user_id, MIN(timestamp) AS first, MAX(timestamp) AS last FROM chats WHERE conversation_id IS NULL GROUP BY user_id")
+      .all() as { user_id: number; first: string; last: string }[];
+    for (const { user_id, first, last } of orphans) {
+      const info = db
+        .prepare("INSERT INTO conversations (user_id, title, created_at, updated_at) VALUES (?, 'Earlier conversation', ?, ?)")
+        .run(user_id, first, last);
+      db.prepare("UPDATE chats SET conversation_id = ? WHERE user_id = ? AND conversation_id IS NULL").run(info.lastInsertRowid, user_id);
+    }
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from "./runner";
+
+// Chat threads and mood history are always read per user (or per
+// conversation) in time order.
+export const historyIndexes: Migration = {
+  version: 2,
+  name: "history_indexes",
+  up: db => {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS chats_by_conversation ON chats (conversation_id, timestamp);
+      CREATE INDEX IF NOT EXISTS chats_by_user ON chats (user_id, timestamp);
+      CREATE INDEX IF NOT EXISTS moods_by_user ON moods (user_id, timestamp);
+    `);
+  },
+  down: db => {
+    db.exec(`
+      DROP INDEX IF EXISTS chats_by_conversation;
+      DROP INDEX IF EXISTS chats_by_user;
+      DROP INDEX IF EXISTS moods_by_user;
+    `);
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "./runner";
+
+// One row per call to the model, for the admin console's error and fallback
+// rates. Deliberately holds no user id or message text.
+export const modelCalls: Migration = {
+  version: 3,
+  name: "model_calls",
+  up: db => {
+    db.exec(`
+      CREATE TABLE model_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        fell_back INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX model_calls_by_time ON model_calls (created_at);
+    `);
+  },
+  down: db => {
+    db.exec("DROP TABLE model_calls");
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from "./runner";
+
+// Failed logins are counted per account and client address, so guessing from
+// one address cannot lock the owner out everywhere else. Replaces the
+// failed_logins and locked_until columns on users, which are no longer read.
+export const loginFailures: Migration = {
+  version: 4,
+  name: "login_failures",
+  up: db => {
+    db.exec(`
+      CREATE TABLE login_failures (
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        ip TEXT NOT NULL,
+        failed_logins INTEGER NOT NULL DEFAULT 0,
+        locked_until DATETIME,
+        PRIMARY KEY (user_id, ip)
+      );
+    `);
+  },
+  down: db => {
+    db.exec("DROP TABLE login_failures");
+  },
+};
@@ -0,0 +1,8 @@
+import { initialSchema } from "./001_initial_schema";
+import { historyIndexes } from "./002_history_indexes";
+import { modelCalls } from "./003_model_calls";
+import { loginFailures } from "./004_login_failures";
+
+// Every schema change, oldest first. To change the schema, add a file with the
+// next number and list it here; never edit a migration that has shipped.
+export const MIGRATIONS = [initialSchema, historyIndexes, modelCalls, loginFailures];
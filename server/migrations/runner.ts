@@ -0,0 +1,114 @@
+import type Database from "better-sqlite3";
+
+// A numbered schema change. down undoes exactly what up did, so a release can
+// be rolled back; each runs in a transaction together with the bookkeeping.
+// A migration without down can't be rolled back.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down?: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  // Applied to this database but unknown to this version of the code.
+  missing?: boolean;
+}
+
+const ensureVersionTable = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const appliedMigrations = (db: Database.Database) => {
+  ensureVersionTable(db);
+  return db.prepare("SELECT version, name, applied_at FROM schema_version ORDER BY version").all() as {
+    version: number;
+    name: string;
+    applied_at: string;
+  }[];
+};
+
+const checkOrder = (migrations: Migration[]) => {
+  migrations.forEach((migration, i) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`Migration "${migration.name}" needs a positive whole version number`);
+    }
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(`Migrations must be listed in increasing version order (see ${migration.version}_${migration.name})`);
+    }
+  });
+};
+
+export const currentVersion = (db: Database.Database) => {
+  const applied = appliedMigrations(db);
+  return applied.length ? applied[applied.length - 1].version : 0;
+};
+
+export const migrationStatus = (db: Database.Database, migrations: Migration[]): MigrationStatus[] => {
+  const applied = new Map(appliedMigrations(db).map(row => [row.version, row]));
+  const known: MigrationStatus[] = migrations.map(({ version, name }) => ({ version, name, appliedAt: applied.get(version)?.applied_at ?? null }));
+  const missing: MigrationStatus[] = [...applied.values()]
+    .filter(row => !migrations.some(m => m.version === row.version))
+    .map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at, missing: true }));
+  return [...known, ...missing].sort((a, b) => a.version - b.version);
+};
+
+// Applies every migration not yet applied, up to and including target.
+// Returns the migrations that ran.
+export const migrate = (db: Database.Database, migrations: Migration[], target = Infinity) => {
+  checkOrder(migrations);
+  const applied = new Set(appliedMigrations(db).map(row => row.version));
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+  const newest = Math.max(0, ...applied);
+  if (newest > latest) {
+    throw new Error(`The database is at schema version ${newest}, newer than this code's latest migration (${latest})`);
+  }
+
+  const pending = migrations.filter(m => !applied.has(m.version) && m.version <= target);
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+    })();
+  }
+  return pending;
+};
+
+// Undoes applied migrations newest first until the database is at target.
+// Returns the migrations that were rolled back. Nothing is undone unless
+// every one of them can be.
+export const rollback = (db: Database.Database, migrations: Migration[], target: number) => {
+  checkOrder(migrations);
+  const applied = appliedMigrations(db)
+    .filter(row => row.version > target)
+    .reverse()
+    .map(row => {
+      const migration = migrations.find(m => m.version === row.version);
+      if (!migration) throw new Error(`Migration ${row.version}_${row.name} is applied but not known to this code, so it cannot be undone`);
+      if (!migration.down) throw new Error(`Migration ${row.version}_${row.name} cannot be undone`);
+      return { ...migration, down: migration.down };
+    });
+  const undone: Migration[] = [];
+  for (const migration of applied) {
+    db.transaction(() => {
+      migration.down(db);
+      db.prepare("DELETE FROM schema_version WHERE version = ?").run(migration.version);
+    })();
+    undone.push(migration);
+  }
+  return undone;
+};
+
+// For migrations that add a column: databases from before the runner existed
+// may already have it.
+export const hasColumn = (db: Database.Database, table: string, column: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(c => c.name === column);
@@ -0,0 +1,39 @@
+import { db, transaction } from "../db";
+import { encryptField } from "../services/encryption";
+
+// A row of the chats table. content is encrypted at rest; toMessage in
+// services/conversations decrypts it.
+export interface ChatRow {
+  id: number;
+  user_id: number;
+  conversation_id: number;
+  role: "user" | "bot";
+  content: string;
+  timestamp: string;
+  is_crisis: number;
+}
+
+// Oldest first, from one conversation or from all of the user's.
+export const listChats = (userId: number, conversationId?: number) =>
+  (conversationId === undefined
+    ? db().prepare("SELECT * FROM chats WHERE user_id = ? ORDER BY timestamp ASC, id ASC").all(userId)
+    : db().prepare("SELECT * FROM chats WHERE user_id = ? AND conversation_id = ? ORDER BY timestamp ASC, id ASC").all(userId, conversationId)) as ChatRow[];
+
+export const getChat = (id: number) => db().prepare("SELECT * FROM chats WHERE id = ?").get(id) as ChatRow | undefined;
+
+// Takes the plain text and stores it encrypted. Returns the new row's id.
+export const insertChat = (userId: number, conversationId: number, role: ChatRow["role"], content: string, isCrisis = false) =>
+  Number(
+    db()
+      .prepare("INSERT INTO chats (user_id, conversation_id, role, content, is_crisis) VALUES (?, ?, ?, ?, ?)")
+      .run(userId, conversationId, role, encryptField(userId, content), isCrisis ? 1 : 0).lastInsertRowid
+  );
+
+// Removes messages, with the suggestions attached to them, from one
+// conversation or from all of the user's.
+export const deleteChats = transaction((userId: number, conversationId?: number) => {
+  const scope = conversationId === undefined ? "user_id = ?" : "user_id = ? AND conversation_id = ?";
+  const params = conversationId === undefined ? [userId] : [userId, conversationId];
+  db().prepare(`DELETE FROM suggestions WHERE chat_id IN (SELECT id FROM chats WHERE ${scope})`).run(...params);
+  db().prepare(`DELETE FROM chats WHERE ${scope}`).run(...params);
+});
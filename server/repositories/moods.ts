@@ -0,0 +1,42 @@
+import { db } from "../db";
+import { encryptField } from "../services/encryption";
+import type { Mood } from "../../src/types";
+
+// A row of the moods table. "ai" rows are inferred from the chat message in
+// chat_id; "self" rows are check-ins. tags is a JSON array and note is
+// encrypted at rest; toMoodEntry in services/moods converts both.
+export interface MoodRow {
+  id: number;
+  user_id: number;
+  mood: Mood;
+  intensity: number | null;
+  tags: string | null;
+  note: string | null;
+  source: "ai" | "self";
+  chat_id: number | null;
+  timestamp: string;
+}
+
+export interface CheckIn {
+  mood: Mood;
+  intensity: number | null;
+  tags: string[];
+  note: string | null;
+}
+
+export const listMoods = (userId: number) =>
+  db().prepare("SELECT * FROM moods WHERE user_id = ? ORDER BY timestamp ASC, id ASC").all(userId) as MoodRow[];
+
+export const getMood = (id: number) => db().prepare("SELECT * FROM moods WHERE id = ?").get(id) as MoodRow | undefined;
+
+// The note is stored encrypted.
+export const insertCheckIn = (userId: number, { mood, intensity, tags, note }: CheckIn) => {
+  const info = db()
+    .prepare("INSERT INTO moods (user_id, mood, intensity, tags, note, source) VALUES (?, ?, ?, ?, ?, 'self')")
+    .run(userId, mood, intensity, JSON.stringify(tags), encryptField(userId, note));
+  return getMood(Number(info.lastInsertRowid))!;
+};
+
+export const insertInferredMood = (userId: number, mood: Mood, chatId: number) => {
+  db().prepare("INSERT INTO moods (user_id, mood, source, chat_id) VALUES (?, ?, 'ai', ?)").run(userId, mood, chatId);
+};
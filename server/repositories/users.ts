@@ -0,0 +1,66 @@
+import { db } from "../db";
+import type { Locale, Role } from "../../src/types";
+
+// A row of the users table. Flags are stored as 0 or 1.
+export interface UserRow {
+  id: number;
+  email: string;
+  // bcrypt hash.
+  password: string;
+  name: string;
+  // Wrapped per-user data key (see services/encryption).
+  data_key: string | null;
+  failed_logins: number;
+  locked_until: string | null;
+  email_verified: number;
+  role: Role;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  locale: Locale | null;
+  region: string | null;
+}
+
+export interface Preferences {
+  locale: Locale | null;
+  region: string | null;
+}
+
+export type Counselor = Pick<UserRow, "id" | "name" | "email">;
+
+export const findUserById = (id: number) => db().prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+
+// Expects an address already lower-cased by normalizeEmail.
+export const findUserByEmail = (email: string) =>
+  db().prepare("SELECT * FROM users WHERE lower(email) = ?").get(email) as UserRow | undefined;
+
+// Throws if the email is already registered.
+export const insertUser = (email: string, passwordHash: string, name: string) => {
+  const info = db().prepare("INSERT INTO users (email, password, name) VALUES (?, ?, ?)").run(email, passwordHash, name);
+  return findUserById(Number(info.lastInsertRowid))!;
+};
+
+export const markEmailVerified = (id: number) => {
+  db().prepare("UPDATE users SET email_verified = 1 WHERE id = ?").run(id);
+};
+
+// Only reachable through an emailed link, which also proves the address.
+export const updatePassword = (id: number, passwordHash: string) => {
+  db().prepare("UPDATE users SET password = ?, email_verified = 1 WHERE id = ?").run(passwordHash, id);
+};
+
+export const getPreferences = (id: number) =>
+  db().prepare("SELECT locale, region FROM users WHERE id = ?").get(id) as Preferences | undefined;
+
+export const updatePreferences = (id: number, { locale, region }: Preferences) => {
+  db().prepare("UPDATE users SET locale = ?, region = ? WHERE id = ?").run(locale, region, id);
+};
+
+export const getRole = (id: number) => (db().prepare("SELECT role FROM users WHERE id = ?").get(id) as { role: Role } | undefined)?.role;
+
+// Returns false when no account has that email.
+export const setRoleByEmail = (email: string, role: Role) =>
+  db().prepare("UPDATE users SET role = ? WHERE lower(email) = ?").run(role, email).changes > 0;
+
+export const listCounselors = (exceptId: number) =>
+  db().prepare("SELECT id, name, email FROM users WHERE role = 'counselor' AND id != ? ORDER BY name").all(exceptId) as Counselor[];
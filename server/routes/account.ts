@@ -0,0 +1,68 @@
+import { Router } from "express";
+import bcrypt from "bcryptjs";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { authenticateToken, clearSessionCookies } from "../middleware/auth";
+import { collectUserData, deleteUserData, toCsv } from "../services/accountData";
+import { findUserById, getPreferences, updatePreferences, type Preferences } from "../repositories/users";
+import { LOCALES } from "../../src/types";
+
+export const accountRouter = Router();
+accountRouter.use(authenticateToken);
+
+const CSV_DATASETS = ["profile", "chats", "moods", "exerciseSessions", "journal"] as const;
+
+// Fields left out of the body keep their current value; null clears one.
+const parsePreferences = (current: Preferences, body: any): { preferences: Preferences } | { error: string } => {
+  const { locale = current.locale, region = current.region } = body;
+  if (locale !== null && !LOCALES.includes(locale)) {
+    return { error: `Locale must be one of: ${LOCALES.join(", ")}` };
+  }
+  if (region !== null && !(typeof region === "string" && /^[A-Za-z]{2,4}$/.test(region))) {
+    return { error: "Region must be a country code such as US" };
+  }
+  return { preferences: { locale, region: region?.toUpperCase() ?? null } };
+};
+
+accountRouter.get("/preferences", (req: any, res) => {
+  res.json(getPreferences(req.user.id));
+});
+
+accountRouter.patch("/preferences", (req: any, res) => {
+  const current = getPreferences(req.user.id);
+  if (!current) return res.status(401).json({ error: "Unauthorized" });
+  const parsed = parsePreferences(current, req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  updatePreferences(req.user.id, parsed.preferences);
+  res.json(parsed.preferences);
+});
+
+accountRouter.get("/export.json", (req: any, res) => {
+  const data = collectUserData(req.user.id);
+  res.attachment("mindfulmate-export.json");
+  res.type("application/json").send(JSON.stringify(data, null, 2));
+});
+
+accountRouter.get("/export/:dataset.csv", (req: any, res) => {
+  const dataset = req.params.dataset;
+  if (!CSV_DATASETS.includes(dataset)) {
+    return res.status(404).json({ error: `Unknown dataset. Available: ${CSV_DATASETS.join(", ")}` });
+  }
+  const data = collectUserData(req.user.id);
+  const rows = dataset === "profile" ? [data.profile] : data[dataset as Exclude<typeof CSV_DATASETS[number], "profile">];
+  res.attachment(`mindfulmate-${dataset}.csv`);
+  res.type("text/csv").send(toCsv(rows as Record<string, unknown>[]));
+});
+
+// Permanently removes the account and everything tied to it. The password is
+// checked again so a stolen session cookie alone cannot erase an account.
+accountRouter.delete("/", asyncHandler(async (req: any, res) => {
+  const { password } = req.body;
+  const user = findUserById(req.user.id);
+  if (!user || typeof password !== "string" || !(await bcrypt.compare(password, user.password))) {
+    return res.status(401).json({ error: "Incorrect password" });
+  }
+
+  deleteUserData(user.id);
+  clearSessionCookies(res);
+  res.json({ success: true });
+}));
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { authenticateToken, requireRole } from "../middleware/auth";
+import { userCounts, weeklyMoodDistribution } from "../services/adminStats";
+import { modelCallStats } from "../services/modelCalls";
+
+const DEFAULT_WEEKS = 12;
+const MAX_WEEKS = 52;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+// Whole numbers from 1 to max, for ?weeks= and ?days=.
+const parseCount = (value: unknown, fallback: number, max: number, name: string): { count: number } | { error: string } => {
+  if (value === undefined) return { count: fallback };
+  if (typeof value !== "string" || !/^\d+$/.test(value) || Number(value) < 1 || Number(value) > max) {
+    return { error: `${name} must be a whole number from 1 to ${max}` };
+  }
+  return { count: Number(value) };
+};
+
+// The wellbeing team's console: aggregates only. Nothing here reads chats,
+// journal entries or notes, or returns anything about one student.
+export const createAdminRouter = (minGroupSize: number) => {
+  const router = Router();
+  router.use(authenticateToken, requireRole("admin"));
+
+  router.get("/users", (req, res) => {
+    res.json(userCounts());
+  });
+
+  router.get("/moods/weekly", (req, res) => {
+    const parsed = parseCount(req.query.weeks, DEFAULT_WEEKS, MAX_WEEKS, "weeks");
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    res.json({ minGroupSize, weeks: weeklyMoodDistribution(parsed.count, minGroupSize) });
+  });
+
+  router.get("/model-calls", (req, res) => {
+    const parsed = parseCount(req.query.days, DEFAULT_DAYS, MAX_DAYS, "days");
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    res.json(modelCallStats(parsed.count));
+  });
+
+  return router;
+};
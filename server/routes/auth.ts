@@ -0,0 +1,223 @@
+import { Router } from "express";
+import bcrypt from "bcryptjs";
+import { db } from "../db";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { authenticateToken, clearSessionCookies, setSessionCookies } from "../middleware/auth";
+import { createRateLimiter } from "../middleware/rateLimit";
+import { log } from "../services/logger";
+import {
+  consumeEmailToken,
+  createEmailToken,
+  createRefreshToken,
+  isLockedOut,
+  normalizeEmail,
+  passwordProblem,
+  peekEmailToken,
+  recordFailedLogin,
+  resetFailedLogins,
+  revokeAllRefreshTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from "../services/auth";
+import { sendAccountExistsEmail, sendPasswordResetEmail, sendVerificationEmail, type Mailer } from "../services/mailer";
+import { findUserByEmail, findUserById, insertUser, markEmailVerified, updatePassword, type UserRow } from "../repositories/users";
+
+const MAX_NAME_LENGTH = 80;
+
+// Compared against when the email is unknown, so both cases take as long.
+const DUMMY_HASH = bcrypt.hashSync("not-a-real-password", 10);
+
+const toUser = (row: UserRow) => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  emailVerified: !!row.email_verified,
+  role: row.role,
+  locale: row.locale,
+  region: row.region,
+});
+
+const startSession = (res: any, row: UserRow) => {
+  const user = toUser(row);
+  setSessionCookies(res, user, createRefreshToken(user.id));
+  res.json(user);
+};
+
+export const createAuthRouter = (mailer: Mailer) => {
+  const router = Router();
+
+  const loginLimiter = createRateLimiter({
+    windowMs: 15 * 60 * 1000,
+    max: 20,
+    message: "Too many login attempts. Please try again later.",
+  });
+  const signupLimiter = createRateLimiter({
+    windowMs: 60 * 60 * 1000,
+    max: 10,
+    message: "Too many sign-ups from this network. Please try again later.",
+  });
+  // Shared by every route that sends an email.
+  const mailLimiter = createRateLimiter({
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    message: "Too many emails requested. Please try again later.",
+  });
+
+  // Sending failures are logged rather than surfaced: the account change has
+  // already happened and the student can ask for another email.
+  const sendVerification = async (user: UserRow) => {
+    try {
+      await sendVerificationEmail(mailer, user.email, user.name, createEmailToken(user.id, "verify"));
+    } catch (error) {
+      log.error("verification_email_failed", { userId: user.id, error });
+    }
+  };
+
+  router.post("/signup", signupLimiter, asyncHandler(async (req, res) => {
+    const email = normalizeEmail(req.body.email);
+    const { password } = req.body;
+    const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!email) {
+      return res.status(400).json({ error: "Please enter a valid email address" });
+    }
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return res.status(400).json({ error: `Name must be between 1 and ${MAX_NAME_LENGTH} characters` });
+    }
+    if (typeof password !== "string") {
+      return res.status(400).json({ error: "Password is required" });
+    }
+    const problem = passwordProblem(password, email);
+    if (problem) return res.status(400).json({ error: problem });
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    let user: UserRow | undefined;
+    try {
+      user = insertUser(email, hashedPassword, name);
+    } catch (e: any) {
+      if (e?.code !== "SQLITE_CONSTRAINT_UNIQUE") throw e;
+    }
+    // A new and an already registered email get the same answer, so signing
+    // up cannot be used to find out who has an account; the owner of an
+    // existing one is told by email instead. Logging in works before the
+    // email is confirmed, so nobody is kept from support while waiting.
+    if (user) {
+      await sendVerification(user);
+    } else {
+      const existing = findUserByEmail(email);
+      if (existing) {
+        await sendAccountExistsEmail(mailer, existing.email, existing.name).catch(error =>
+          log.error("account_exists_email_failed", { userId: existing.id, error })
+        );
+      }
+    }
+    res.json({ message: "Check your email to confirm your address, then log in." });
+  }));
+
+  router.post("/login", loginLimiter, asyncHandler(async (req, res) => {
+    const email = normalizeEmail(req.body.email);
+    const { password } = req.body;
+    if (!email || typeof password !== "string" || !password) {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    // A locked out address gets the same answer as a wrong password, after
+    // the same bcrypt work, so the response never shows an email is registered.
+    const user = findUserByEmail(email);
+    const valid = await bcrypt.compare(password, user?.password || DUMMY_HASH);
+    const locked = !!user && isLockedOut(user.id, req.ip);
+    if (!user || !valid || locked) {
+      if (user && !locked) recordFailedLogin(user.id, req.ip);
+      return res.status(401).json({ error: "Invalid credentials" });
+    }
+
+    resetFailedLogins(user.id);
+    startSession(res, user);
+  }));
+
+  // Swaps the refresh token cookie for a new one and issues a fresh access token.
+  router.post("/refresh", (req, res) => {
+    const token = req.cookies.refresh_token;
+    const session = typeof token === "string" ? rotateRefreshToken(token) : null;
+    if (!session) {
+      clearSessionCookies(res);
+      return res.status(401).json({ error: "Session expired" });
+    }
+    setSessionCookies(res, session.user, session.refreshToken);
+    res.json(toUser(session.user));
+  });
+
+  router.post("/logout", (req, res) => {
+    if (typeof req.cookies.refresh_token === "string") revokeRefreshToken(req.cookies.refresh_token);
+    clearSessionCookies(res);
+    res.json({ message: "Logged out" });
+  });
+
+  router.get("/me", authenticateToken, (req: any, res) => {
+    const user = findUserById(req.user.id);
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    res.json(toUser(user));
+  });
+
+  router.post("/verify-email", (req, res) => {
+    const userId = typeof req.body.token === "string" ? consumeEmailToken(req.body.token, "verify") : null;
+    if (!userId) {
+      return res.status(400).json({ error: "This confirmation link is invalid or has expired" });
+    }
+    markEmailVerified(userId);
+    res.json({ success: true });
+  });
+
+  router.post("/resend-verification", authenticateToken, mailLimiter, asyncHandler(async (req: any, res) => {
+    const user = findUserById(req.user.id);
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (user.email_verified) return res.status(400).json({ error: "Your email is already confirmed" });
+    await sendVerification(user);
+    res.json({ success: true });
+  }));
+
+  // Always answers the same way, and without waiting for delivery, so it
+  // cannot be used to find out which emails are registered.
+  router.post("/forgot-password", mailLimiter, (req, res) => {
+    const email = normalizeEmail(req.body.email);
+    if (!email) {
+      return res.status(400).json({ error: "Please enter a valid email address" });
+    }
+    const user = findUserByEmail(email);
+    if (user) {
+      sendPasswordResetEmail(mailer, user.email, user.name, createEmailToken(user.id, "reset")).catch(error =>
+        log.error("password_reset_email_failed", { userId: user.id, error })
+      );
+    }
+    res.json({ message: "If an account exists for that email, we've sent a link to reset the password." });
+  });
+
+  router.post("/reset-password", asyncHandler(async (req, res) => {
+    const { token, password } = req.body;
+    if (typeof token !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Token and password are required" });
+    }
+    const userId = peekEmailToken(token, "reset");
+    const user = userId ? findUserById(userId) : undefined;
+    if (!user) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+    // Strength is checked before the token is spent, so a weak choice can be retried.
+    const problem = passwordProblem(password, user.email);
+    if (problem) return res.status(400).json({ error: problem });
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    if (!consumeEmailToken(token, "reset")) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+    // Following the emailed link proves the address, and every existing
+    // session is signed out in case the old password was compromised.
+    db().transaction(() => {
+      updatePassword(user.id, hashedPassword);
+      resetFailedLogins(user.id);
+      revokeAllRefreshTokens(user.id);
+    })();
+    res.json({ message: "Your password has been changed. Please log in." });
+  }));
+
+  return router;
+};
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { authenticateToken } from "../middleware/auth";
+import type { LLMProvider } from "../services/llm";
+import {
+  autoTitleConversation,
+  clearConversationTitle,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  toConversation,
+  toMessages,
+  updateConversation,
+} from "../services/conversations";
+import { listChats } from "../repositories/chats";
+
+export const createConversationsRouter = (llm: LLMProvider) => {
+  const router = Router();
+  router.use(authenticateToken);
+
+  // Resolves :id to a conversation owned by the caller, or answers 404.
+  router.param("id", (req: any, res, next, id) => {
+    const conversation = getConversation(req.user.id, Number(id));
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+    req.conversation = conversation;
+    next();
+  });
+
+  router.get("/", (req: any, res) => {
+    res.json(listConversations(req.user.id).map(toConversation));
+  });
+
+  router.post("/", (req: any, res) => {
+    const { title } = req.body;
+    if (title !== undefined && typeof title !== "string") {
+      return res.status(400).json({ error: "Title must be a string" });
+    }
+    res.status(201).json(toConversation(createConversation(req.user.id, title?.trim() || null)));
+  });
+
+  router.patch("/:id", (req: any, res) => {
+    const { title, archived } = req.body;
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      return res.status(400).json({ error: "Title must be a non-empty string" });
+    }
+    if (archived !== undefined && typeof archived !== "boolean") {
+      return res.status(400).json({ error: "Archived must be a boolean" });
+    }
+
+    updateConversation(req.user.id, req.conversation.id, title?.trim() ?? null, archived ?? null);
+    res.json(toConversation(getConversation(req.user.id, req.conversation.id)));
+  });
+
+  router.delete("/:id", (req: any, res) => {
+    deleteConversation(req.user.id, req.conversation.id);
+    res.json({ success: true });
+  });
+
+  router.get("/:id/messages", (req: any, res) => {
+    res.json(toMessages(listChats(req.user.id, req.conversation.id)));
+  });
+
+  router.post("/:id/auto-title", asyncHandler(async (req: any, res) => {
+    if (req.body?.force) {
+      clearConversationTitle(req.conversation.id);
+    }
+    const conversation = await autoTitleConversation(llm, req.user.id, req.conversation.id);
+    res.json(toConversation(conversation));
+  }));
+
+  return router;
+};
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { authenticateToken, requireRole } from "../middleware/auth";
+import { getActiveGrant, listSharingStudents, logAccess, studentFlags } from "../services/consent";
+import { computeMoodAnalytics, parseAnalyticsQuery } from "../services/moodAnalytics";
+import { listConversations, toConversation, toMessages } from "../services/conversations";
+import { listChats } from "../repositories/chats";
+
+// The counselor dashboard. Every route that returns student data writes an
+// audit_log entry, which the student can read back through /api/sharing/access-log.
+export const counselorRouter = Router();
+counselorRouter.use(authenticateToken, requireRole("counselor"));
+
+// Resolves :studentId to a student with an active grant for the caller, or answers 404.
+counselorRouter.param("studentId", (req: any, res, next, studentId) => {
+  const grant = getActiveGrant(req.user.id, Number(studentId));
+  if (!grant) return res.status(404).json({ error: "No active consent from this student" });
+  req.grant = grant;
+  next();
+});
+
+const requireTranscripts = (req: any, res: any, next: any) => {
+  if (!req.grant.include_transcripts) {
+    return res.status(403).json({ error: "This student has not shared chat transcripts" });
+  }
+  next();
+};
+
+counselorRouter.get("/students", (req: any, res) => {
+  const students = listSharingStudents(req.user.id).map(row => {
+    logAccess(req.user.id, row.id, "view_summary");
+    return { ...row, include_transcripts: !!row.include_transcripts, flags: studentFlags(row.id) };
+  });
+  // Students needing attention first.
+  students.sort((a, b) => b.flags.crisisEvents - a.flags.crisisEvents || Number(b.flags.sustainedLowMood) - Number(a.flags.sustainedLowMood));
+  res.json(students);
+});
+
+counselorRouter.get("/students/:studentId/moods/analytics", (req: any, res) => {
+  const { options, error } = parseAnalyticsQuery(req.query);
+  if (error) return res.status(400).json({ error });
+  logAccess(req.user.id, req.grant.student_id, "view_moods", `${options.from ?? "start"} to ${options.to ?? "today"}`);
+  // Topics picked out of chats would tell a counselor what the student talked about.
+  res.json(computeMoodAnalytics(req.grant.student_id, options, { chatTopics: !!req.grant.include_transcripts }));
+});
+
+counselorRouter.get("/students/:studentId/conversations", requireTranscripts, (req: any, res) => {
+  logAccess(req.user.id, req.grant.student_id, "view_conversations");
+  res.json(listConversations(req.grant.student_id).map(toConversation));
+});
+
+counselorRouter.get("/students/:studentId/conversations/:conversationId/messages", requireTranscripts, (req: any, res) => {
+  const conversationId = Number(req.params.conversationId);
+  const chats = listChats(req.grant.student_id, conversationId);
+  logAccess(req.user.id, req.grant.student_id, "view_transcript", `conversation ${conversationId}`);
+  res.json(toMessages(chats));
+});
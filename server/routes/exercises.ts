@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { db } from "../db";
+import { authenticateToken } from "../middleware/auth";
+import { isExerciseId } from "../../src/lib/exercises";
+
+export const exercisesRouter = Router();
+exercisesRouter.use(authenticateToken);
+
+const isRating = (value: unknown) => value == null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 10);
+
+const toSession = ({ completed, user_id, ...row }: any) => ({ ...row, completed: !!completed });
+
+exercisesRouter.get("/sessions", (req: any, res) => {
+  const sessions = db()
+    .prepare("SELECT * FROM exercise_sessions WHERE user_id = ? ORDER BY timestamp DESC, id DESC")
+    .all(req.user.id);
+  res.json(sessions.map(toSession));
+});
+
+exercisesRouter.post("/sessions", (req: any, res) => {
+  const { exercise, durationSeconds, completed, moodBefore, moodAfter } = req.body;
+  if (!isExerciseId(exercise)) {
+    return res.status(400).json({ error: "Unknown exercise" });
+  }
+  if (!Number.isInteger(durationSeconds) || durationSeconds < 0) {
+    return res.status(400).json({ error: "Duration must be a non-negative number of seconds" });
+  }
+  if (!isRating(moodBefore) || !isRating(moodAfter)) {
+    return res.status(400).json({ error: "Mood ratings must be whole numbers from 1 to 10" });
+  }
+
+  const info = db()
+    .prepare(
+      "INSERT INTO exercise_sessions (user_id, exercise, duration_seconds, completed, mood_before, mood_after) VALUES (?, ?, ?, ?, ?, ?)"
+    )
+    .run(req.user.id, exercise, durationSeconds, completed ? 1 : 0, moodBefore ?? null, moodAfter ?? null);
+  res.status(201).json(toSession(db().prepare("SELECT * FROM exercise_sessions WHERE id = ?").get(info.lastInsertRowid)));
+});
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { db } from "../db";
+import { MIGRATIONS } from "../migrations";
+import { log } from "../services/logger";
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Probes for a load balancer or orchestrator. Neither needs a session.
+export const healthRouter = Router();
+
+// Liveness: the process is up and answering.
+healthRouter.get("/healthz", (req, res) => {
+  res.json({ status: "ok" });
+});
+
+// Readiness: the database answers a query and has every migration this
+// version of the code expects.
+healthRouter.get("/readyz", (req, res) => {
+  try {
+    const { version } = db().prepare("SELECT MAX(version) AS version FROM schema_version").get() as { version: number | null };
+    if ((version ?? 0) < LATEST_VERSION) {
+      return res.status(503).json({ status: "unavailable", error: `Database schema is at version ${version ?? 0}, expected ${LATEST_VERSION}` });
+    }
+    res.json({ status: "ready", schemaVersion: version });
+  } catch (error) {
+    log.error("readiness_check_failed", { error });
+    res.status(503).json({ status: "unavailable", error: "Database unavailable" });
+  }
+});
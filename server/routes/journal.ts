@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  getJournalEntry,
+  isOwnCheckIn,
+  listJournalEntries,
+  suggestJournalPrompts,
+  updateJournalEntry,
+  type JournalFields,
+} from "../services/journal";
+
+export const journalRouter = Router();
+journalRouter.use(authenticateToken);
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_BODY_LENGTH = 20000;
+const MAX_PROMPT_LENGTH = 500;
+
+const parseEntry = (userId: number, body: any): { fields: JournalFields } | { error: string } => {
+  const { title = null, text, prompt = null, moodId = null, shareWithAi = false } = body;
+  if (typeof text !== "string" || !text.trim() || text.length > MAX_BODY_LENGTH) {
+    return { error: `Entry must be between 1 and ${MAX_BODY_LENGTH} characters` };
+  }
+  if (title !== null && (typeof title !== "string" || title.length > MAX_TITLE_LENGTH)) {
+    return { error: `Title must be text of at most ${MAX_TITLE_LENGTH} characters` };
+  }
+  if (prompt !== null && (typeof prompt !== "string" || prompt.length > MAX_PROMPT_LENGTH)) {
+    return { error: `Prompt must be text of at most ${MAX_PROMPT_LENGTH} characters` };
+  }
+  if (moodId !== null && !(Number.isInteger(moodId) && isOwnCheckIn(userId, moodId))) {
+    return { error: "Entries can only be linked to one of your check-ins" };
+  }
+  if (typeof shareWithAi !== "boolean") {
+    return { error: "shareWithAi must be a boolean" };
+  }
+  return { fields: { title: title?.trim() || null, body: text, prompt, moodId, shareWithAi } };
+};
+
+journalRouter.get("/", (req: any, res) => {
+  res.json(listJournalEntries(req.user.id));
+});
+
+// Guided prompts chosen from the caller's moods over the last week.
+journalRouter.get("/prompts", (req: any, res) => {
+  res.json(suggestJournalPrompts(req.user.id));
+});
+
+journalRouter.get("/:id", (req: any, res) => {
+  const entry = getJournalEntry(req.user.id, Number(req.params.id));
+  if (!entry) return res.status(404).json({ error: "Entry not found" });
+  res.json(entry);
+});
+
+journalRouter.post("/", idempotent, (req: any, res) => {
+  const parsed = parseEntry(req.user.id, req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  res.status(201).json(createJournalEntry(req.user.id, parsed.fields));
+});
+
+journalRouter.put("/:id", (req: any, res) => {
+  const parsed = parseEntry(req.user.id, req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const entry = updateJournalEntry(req.user.id, Number(req.params.id), parsed.fields);
+  if (!entry) return res.status(404).json({ error: "Entry not found" });
+  res.json(entry);
+});
+
+journalRouter.delete("/:id", (req: any, res) => {
+  if (!deleteJournalEntry(req.user.id, Number(req.params.id))) {
+    return res.status(404).json({ error: "Entry not found" });
+  }
+  res.json({ success: true });
+});
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { clearMemories, deleteMemory, keepFact, listMemories } from "../services/memory";
+
+// What MindfulMate remembers between conversations, for the student to review.
+export const memoryRouter = Router();
+memoryRouter.use(authenticateToken);
+
+memoryRouter.get("/", (req: any, res) => {
+  res.json(listMemories(req.user.id));
+});
+
+memoryRouter.post("/:id/keep", (req: any, res) => {
+  if (!keepFact(req.user.id, Number(req.params.id))) {
+    return res.status(404).json({ error: "Memory not found" });
+  }
+  res.json(listMemories(req.user.id).facts.find(f => f.id === Number(req.params.id)));
+});
+
+memoryRouter.delete("/:id", (req: any, res) => {
+  if (!deleteMemory(req.user.id, Number(req.params.id))) {
+    return res.status(404).json({ error: "Memory not found" });
+  }
+  res.json({ success: true });
+});
+
+memoryRouter.delete("/", (req: any, res) => {
+  clearMemories(req.user.id);
+  res.json({ success: true });
+});
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { renderMetrics } from "../services/metrics";
+
+const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+
+// Prometheus scrapes GET /metrics. With a token configured, the scraper must
+// send it as a bearer token; without one the endpoint is open, for setups
+// where only the internal network can reach it.
+export const createMetricsRouter = (token: string | null) => {
+  const router = Router();
+
+  router.get("/metrics", (req, res) => {
+    if (token) {
+      const given = (req.get("Authorization") || "").replace(/^Bearer /, "");
+      if (!crypto.timingSafeEqual(digest(given), digest(token))) return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  return router;
+};
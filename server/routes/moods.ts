@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { idempotent } from "../middleware/idempotency";
+import { MOODS } from "../../src/types";
+import { computeMoodAnalytics, parseAnalyticsQuery } from "../services/moodAnalytics";
+import { toMoodEntry } from "../services/moods";
+import { insertCheckIn, listMoods } from "../repositories/moods";
+
+export const moodsRouter = Router();
+moodsRouter.use(authenticateToken);
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const MAX_NOTE_LENGTH = 1000;
+
+// Tags are free-form but normalised so "Exams" and " exams" count as one.
+const normalizeTags = (tags: unknown): string[] | null => {
+  if (tags === undefined) return [];
+  if (!Array.isArray(tags) || tags.some(t => typeof t !== "string")) return null;
+  const cleaned = [...new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+  if (cleaned.length > MAX_TAGS || cleaned.some(t => t.length > MAX_TAG_LENGTH)) return null;
+  return cleaned;
+};
+
+moodsRouter.get("/", (req: any, res) => {
+  res.json(listMoods(req.user.id).map(toMoodEntry));
+});
+
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, local dates) and ?tzOffset=<minutes>.
+moodsRouter.get("/analytics", (req: any, res) => {
+  const { options, error } = parseAnalyticsQuery(req.query);
+  if (error) return res.status(400).json({ error });
+  res.json(computeMoodAnalytics(req.user.id, options));
+});
+
+// Self-reported check-in. AI-inferred moods are written by the chat routes.
+moodsRouter.post("/", idempotent, (req: any, res) => {
+  const { mood, intensity, note } = req.body;
+  if (!MOODS.includes(mood)) {
+    return res.status(400).json({ error: `Mood must be one of ${MOODS.join(", ")}` });
+  }
+  if (intensity != null && (!Number.isInteger(intensity) || intensity < 1 || intensity > 10)) {
+    return res.status(400).json({ error: "Intensity must be a whole number from 1 to 10" });
+  }
+  const tags = normalizeTags(req.body.tags);
+  if (!tags) {
+    return res.status(400).json({ error: `Tags must be a list of at most ${MAX_TAGS} words of up to ${MAX_TAG_LENGTH} characters` });
+  }
+  if (note != null && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    return res.status(400).json({ error: `Note must be text of at most ${MAX_NOTE_LENGTH} characters` });
+  }
+
+  const entry = insertCheckIn(req.user.id, { mood, intensity: intensity ?? null, tags, note: note?.trim() || null });
+  res.status(201).json(toMoodEntry(entry));
+});
@@ -0,0 +1,63 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import type { PushSender } from "../services/push";
+import {
+  deleteSubscription,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  saveSubscription,
+} from "../services/notifications";
+
+const MAX_ENDPOINT_LENGTH = 2048;
+
+// In-app notifications, and the Web Push subscriptions of the caller's browsers.
+export const createNotificationsRouter = (push: PushSender | null) => {
+  const router = Router();
+  router.use(authenticateToken);
+
+  router.get("/", (req: any, res) => {
+    res.json(listNotifications(req.user.id));
+  });
+
+  router.post("/read", (req: any, res) => {
+    markAllNotificationsRead(req.user.id);
+    res.json({ success: true });
+  });
+
+  router.post("/:id/read", (req: any, res) => {
+    if (!markNotificationRead(req.user.id, Number(req.params.id))) {
+      return res.status(404).json({ error: "Unread notification not found" });
+    }
+    res.json({ success: true });
+  });
+
+  // publicKey is null when push is not configured on this server.
+  router.get("/push-key", (req, res) => {
+    res.json({ publicKey: push?.publicKey ?? null });
+  });
+
+  // Takes the browser's PushSubscription as serialized by toJSON().
+  router.post("/subscriptions", (req: any, res) => {
+    if (!push) return res.status(400).json({ error: "Push notifications are not enabled on this server" });
+    const { endpoint, keys } = req.body;
+    if (typeof endpoint !== "string" || !/^https:\/\//.test(endpoint) || endpoint.length > MAX_ENDPOINT_LENGTH) {
+      return res.status(400).json({ error: "Invalid push endpoint" });
+    }
+    if (typeof keys?.p256dh !== "string" || typeof keys?.auth !== "string") {
+      return res.status(400).json({ error: "Push subscription keys are required" });
+    }
+    saveSubscription(req.user.id, { endpoint, p256dh: keys.p256dh, auth: keys.auth });
+    res.status(201).json({ success: true });
+  });
+
+  router.delete("/subscriptions", (req: any, res) => {
+    if (typeof req.body.endpoint !== "string") {
+      return res.status(400).json({ error: "endpoint is required" });
+    }
+    deleteSubscription(req.user.id, req.body.endpoint);
+    res.json({ success: true });
+  });
+
+  return router;
+};
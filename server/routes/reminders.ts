@@ -0,0 +1,58 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  countReminders,
+  createReminder,
+  deleteReminder,
+  getReminderSettings,
+  listReminders,
+  MAX_REMINDERS,
+  parseReminder,
+  parseReminderSettings,
+  saveReminderSettings,
+  setReminderEnabled,
+} from "../services/reminders";
+
+export const remindersRouter = Router();
+remindersRouter.use(authenticateToken);
+
+remindersRouter.get("/", (req: any, res) => {
+  res.json(listReminders(req.user.id));
+});
+
+remindersRouter.post("/", (req: any, res) => {
+  const parsed = parseReminder(req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  if (countReminders(req.user.id) >= MAX_REMINDERS) {
+    return res.status(400).json({ error: `You can have at most ${MAX_REMINDERS} reminders` });
+  }
+  res.status(201).json(createReminder(req.user.id, parsed.reminder));
+});
+
+// Time zone and quiet hours apply to all of the caller's reminders.
+remindersRouter.get("/settings", (req: any, res) => {
+  res.json(getReminderSettings(req.user.id));
+});
+
+remindersRouter.put("/settings", (req: any, res) => {
+  const parsed = parseReminderSettings(req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  saveReminderSettings(req.user.id, parsed.settings);
+  res.json(getReminderSettings(req.user.id));
+});
+
+remindersRouter.patch("/:id", (req: any, res) => {
+  if (typeof req.body.enabled !== "boolean") {
+    return res.status(400).json({ error: "enabled must be a boolean" });
+  }
+  const reminder = setReminderEnabled(req.user.id, Number(req.params.id), req.body.enabled);
+  if (!reminder) return res.status(404).json({ error: "Reminder not found" });
+  res.json(reminder);
+});
+
+remindersRouter.delete("/:id", (req: any, res) => {
+  if (!deleteReminder(req.user.id, Number(req.params.id))) {
+    return res.status(404).json({ error: "Reminder not found" });
+  }
+  res.json({ success: true });
+});
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { parseAnalyticsQuery } from "../services/moodAnalytics";
+import { MIN_TERM_LENGTH, parseSearchTerms, searchMessages, type SearchOptions } from "../services/search";
+import { MOODS } from "../../src/types";
+
+export const searchRouter = Router();
+searchRouter.use(authenticateToken);
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_TERMS = 10;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const parseSearchQuery = (query: any): { terms: string[]; options: SearchOptions } | { error: string } => {
+  const { q, role, mood, conversationId, limit = String(DEFAULT_LIMIT) } = query;
+  if (typeof q !== "string" || !q.trim() || q.length > MAX_QUERY_LENGTH) {
+    return { error: `Search text must be between 1 and ${MAX_QUERY_LENGTH} characters` };
+  }
+  const terms = parseSearchTerms(q);
+  if (terms.length > MAX_TERMS) return { error: `Search for at most ${MAX_TERMS} words` };
+  if (!terms.some(t => [...t].length >= MIN_TERM_LENGTH)) {
+    return { error: `Include at least one word of ${MIN_TERM_LENGTH} or more characters` };
+  }
+  if (role !== undefined && role !== "user" && role !== "bot") return { error: "Role must be user or bot" };
+  if (mood !== undefined && !MOODS.includes(mood)) return { error: `Mood must be one of: ${MOODS.join(", ")}` };
+  if (conversationId !== undefined && !/^\d+$/.test(conversationId)) return { error: "conversationId must be a conversation id" };
+  if (!/^\d+$/.test(limit) || Number(limit) < 1 || Number(limit) > MAX_LIMIT) {
+    return { error: `Limit must be between 1 and ${MAX_LIMIT}` };
+  }
+  const dates = parseAnalyticsQuery(query);
+  if (dates.error !== undefined) return { error: dates.error };
+  return {
+    terms,
+    options: {
+      ...dates.options,
+      role,
+      mood,
+      conversationId: conversationId === undefined ? undefined : Number(conversationId),
+      limit: Number(limit),
+    },
+  };
+};
+
+// ?q= plus optional role, mood, conversationId, limit and the from/to/tzOffset
+// date range used by mood analytics.
+searchRouter.get("/", (req: any, res) => {
+  const parsed = parseSearchQuery(req.query);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  res.json(searchMessages(req.user.id, parsed.terms, parsed.options));
+});
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { getRole, listCounselors } from "../repositories/users";
+import { createGrant, listAccessLog, listGrants, MAX_GRANT_DAYS, revokeGrant } from "../services/consent";
+
+// The student side of counselor sharing: who can see what, and for how long.
+export const sharingRouter = Router();
+sharingRouter.use(authenticateToken);
+
+sharingRouter.get("/counselors", (req: any, res) => {
+  res.json(listCounselors(req.user.id));
+});
+
+sharingRouter.get("/grants", (req: any, res) => {
+  res.json(listGrants(req.user.id));
+});
+
+sharingRouter.post("/grants", (req: any, res) => {
+  const { counselorId, includeTranscripts = false, days } = req.body;
+  if (getRole(Number(counselorId)) !== "counselor" || Number(counselorId) === req.user.id) {
+    return res.status(400).json({ error: "Please choose a counselor" });
+  }
+  if (typeof includeTranscripts !== "boolean") {
+    return res.status(400).json({ error: "includeTranscripts must be a boolean" });
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_GRANT_DAYS) {
+    return res.status(400).json({ error: `Access must last between 1 and ${MAX_GRANT_DAYS} days` });
+  }
+
+  const id = createGrant(req.user.id, Number(counselorId), includeTranscripts, days);
+  res.status(201).json(listGrants(req.user.id).find(g => g.id === id));
+});
+
+sharingRouter.delete("/grants/:id", (req: any, res) => {
+  if (!revokeGrant(req.user.id, Number(req.params.id))) {
+    return res.status(404).json({ error: "Active grant not found" });
+  }
+  res.json({ success: true });
+});
+
+// Every counselor access to the caller's data, and their own grant changes.
+sharingRouter.get("/access-log", (req: any, res) => {
+  res.json(listAccessLog(req.user.id));
+});
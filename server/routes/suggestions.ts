@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { db } from "../db";
+import { authenticateToken } from "../middleware/auth";
+
+export const suggestionsRouter = Router();
+suggestionsRouter.use(authenticateToken);
+
+// Records that the student tried a suggestion (or launched its exercise).
+suggestionsRouter.post("/:id/tried", (req: any, res) => {
+  const info = db()
+    .prepare("UPDATE suggestions SET tried_at = COALESCE(tried_at, CURRENT_TIMESTAMP) WHERE id = ? AND user_id = ?")
+    .run(Number(req.params.id), req.user.id);
+  if (info.changes === 0) return res.status(404).json({ error: "Suggestion not found" });
+  res.json(db().prepare("SELECT id, text, exercise, tried_at FROM suggestions WHERE id = ?").get(Number(req.params.id)));
+});
+
+// Which suggested techniques get tried, so the team can see what actually helps.
+suggestionsRouter.get("/stats", (req: any, res) => {
+  const stats = db()
+    .prepare(
+      `SELECT COALESCE(exercise, text) AS technique, COUNT(*) AS suggested, COUNT(tried_at) AS tried
+       FROM suggestions WHERE user_id = ? GROUP BY technique ORDER BY tried DESC, suggested DESC`
+    )
+    .all(req.user.id);
+  res.json(stats);
+});
@@ -0,0 +1,64 @@
+import { db, transaction } from "../db";
+import { forgetDataKey } from "./encryption";
+import { toConversation, toMessages } from "./conversations";
+import { toMoodEntry } from "./moods";
+import { listAccessLog, listGrants } from "./consent";
+import { listMemories } from "./memory";
+import { listJournalEntries } from "./journal";
+import { getReminderSettings, listReminders } from "./reminders";
+import { listNotifications } from "./notifications";
+import { listChats } from "../repositories/chats";
+import { listMoods } from "../repositories/moods";
+
+// Every table holding a user's data, children before parents so deletes
+// satisfy the foreign keys. New user-owned tables must be added here.
+const USER_TABLES = [
+  "refresh_tokens", "email_tokens", "suggestions", "memories", "journal_entries", "moods", "chats", "conversations", "exercise_sessions",
+  "notifications", "reminders", "push_subscriptions", "idempotency_keys",
+];
+
+export const collectUserData = (userId: number) => {
+  const profile = db().prepare("SELECT id, email, name, locale, region, timezone FROM users WHERE id = ?").get(userId);
+  const conversations = db().prepare("SELECT * FROM conversations WHERE user_id = ? ORDER BY id").all(userId);
+  const exerciseSessions = db().prepare("SELECT * FROM exercise_sessions WHERE user_id = ? ORDER BY timestamp ASC, id ASC").all(userId);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    conversations: conversations.map(toConversation),
+    chats: toMessages(listChats(userId)),
+    moods: listMoods(userId).map(toMoodEntry),
+    exerciseSessions,
+    journal: listJournalEntries(userId),
+    memory: listMemories(userId),
+    reminders: listReminders(userId),
+    reminderSettings: getReminderSettings(userId),
+    notifications: listNotifications(userId),
+    consentGrants: listGrants(userId),
+    accessLog: listAccessLog(userId),
+  };
+};
+
+// Audit log entries are kept: they only hold ids, and record who accessed what.
+export const deleteUserData = transaction((userId: number) => {
+  db().prepare("DELETE FROM consent_grants WHERE student_id = ? OR counselor_id = ?").run(userId, userId);
+  for (const table of USER_TABLES) {
+    db().prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+  }
+  db().prepare("DELETE FROM users WHERE id = ?").run(userId);
+  forgetDataKey(userId);
+});
+
+const csvCell = (value: unknown) => {
+  if (value == null) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating user-written text as a formula.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Record<string, unknown>[]) => {
+  if (rows.length === 0) return "";
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return [columns.join(","), ...rows.map(row => columns.map(c => csvCell(row[c])).join(","))].join("\r\n") + "\r\n";
+};
@@ -0,0 +1,91 @@
+import { db } from "../db";
+import { MOODS, ROLES, type AdminUserCounts, type Mood, type Role, type WeeklyMoods } from "../../src/types";
+
+const DEFAULT_MIN_GROUP_SIZE = 5;
+
+// ADMIN_MIN_GROUP_SIZE is the k in k-anonymity: wellbeing figures drawn from
+// fewer students than this are withheld from the admin console.
+export const loadMinGroupSize = (env = process.env) => {
+  if (env.ADMIN_MIN_GROUP_SIZE === undefined) return DEFAULT_MIN_GROUP_SIZE;
+  const size = Number(env.ADMIN_MIN_GROUP_SIZE);
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error("ADMIN_MIN_GROUP_SIZE must be a whole number of at least 2");
+  }
+  return size;
+};
+
+// Anything a student does counts as activity, including signing in or
+// refreshing their session.
+const ACTIVITY = `
+  SELECT user_id, timestamp AS at FROM chats WHERE role = 'user'
+  UNION ALL SELECT user_id, timestamp FROM moods
+  UNION ALL SELECT user_id, created_at FROM journal_entries
+  UNION ALL SELECT user_id, timestamp FROM exercise_sessions
+  UNION ALL SELECT user_id, created_at FROM refresh_tokens
+`;
+
+const ACTIVE_WINDOWS = { day: "-1 day", week: "-7 days", month: "-30 days" } as const;
+
+// Account totals only: how many people, not who they are or how they feel.
+export const userCounts = (): AdminUserCounts => {
+  const byRole = Object.fromEntries(ROLES.map(role => [role, 0])) as Record<Role, number>;
+  const rows = db().prepare("SELECT COALESCE(role, 'student') AS role, COUNT(*) AS count FROM users GROUP BY 1").all() as { role: Role; count: number }[];
+  for (const row of rows) byRole[row.role] = row.count;
+  const { total, verified } = db().prepare("SELECT COUNT(*) AS total, COALESCE(SUM(email_verified = 1), 0) AS verified FROM users").get() as {
+    total: number;
+    verified: number;
+  };
+  const active = Object.fromEntries(
+    Object.entries(ACTIVE_WINDOWS).map(([name, window]) => [
+      name,
+      (db().prepare(`SELECT COUNT(DISTINCT user_id) AS count FROM (${ACTIVITY}) WHERE at >= datetime('now', ?)`).get(window) as { count: number }).count,
+    ])
+  ) as AdminUserCounts["active"];
+  return { total, verified, byRole, active };
+};
+
+// The SQLite expression for the Monday starting a timestamp's week.
+const WEEK = "date(timestamp, 'weekday 0', '-6 days')";
+
+// Mood entries per week across all students, check-ins and chat moods alike.
+// A week with fewer than minGroupSize students is withheld, and so is any
+// mood in a week that fewer than minGroupSize students recorded. When that
+// withholds a single mood, the next smallest is withheld too, so the hidden
+// count can't be worked out from the week's total.
+export const weeklyMoodDistribution = (weeks: number, minGroupSize: number): WeeklyMoods[] => {
+  const first = (db().prepare("SELECT date('now', 'weekday 0', '-6 days', ?) AS week").get(`-${(weeks - 1) * 7} days`) as { week: string }).week;
+  const totals = db()
+    .prepare(`SELECT ${WEEK} AS week, COUNT(DISTINCT user_id) AS students, COUNT(*) AS entries FROM moods WHERE ${WEEK} >= ? GROUP BY week`)
+    .all(first) as { week: string; students: number; entries: number }[];
+  const cells = db()
+    .prepare(`SELECT ${WEEK} AS week, mood, COUNT(DISTINCT user_id) AS students, COUNT(*) AS entries FROM moods WHERE ${WEEK} >= ? GROUP BY week, mood`)
+    .all(first) as { week: string; mood: Mood; students: number; entries: number }[];
+
+  const tooFew = (students: number) => students > 0 && students < minGroupSize;
+  const result: WeeklyMoods[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const monday = new Date(`${first}T00:00:00Z`);
+    monday.setUTCDate(monday.getUTCDate() + i * 7);
+    const week = monday.toISOString().slice(0, 10);
+    const total = totals.find(t => t.week === week) ?? { students: 0, entries: 0 };
+    if (tooFew(total.students)) {
+      result.push({ week, students: null, entries: null, moods: Object.fromEntries(MOODS.map(m => [m, null])) as WeeklyMoods["moods"], suppressed: true });
+      continue;
+    }
+
+    const own = MOODS.map(mood => cells.find(c => c.week === week && c.mood === mood) ?? { mood, students: 0, entries: 0 });
+    const hidden = new Set(own.filter(c => tooFew(c.students)).map(c => c.mood));
+    if (hidden.size === 1) {
+      const next = own.filter(c => c.entries > 0 && !hidden.has(c.mood)).sort((a, b) => a.entries - b.entries)[0];
+      if (next) hidden.add(next.mood);
+    }
+    result.push({
+      week,
+      students: total.students,
+      entries: total.entries,
+      moods: Object.fromEntries(own.map(c => [c.mood, hidden.has(c.mood) ? null : c.entries])) as WeeklyMoods["moods"],
+      suppressed: false,
+    });
+  }
+  return result;
+};
@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import { db, transaction } from "../db";
+import { REFRESH_TOKEN_TTL_MS } from "../middleware/auth";
+import { findUserById } from "../repositories/users";
+
+const MIN_PASSWORD_LENGTH = 10;
+// bcrypt ignores everything past 72 bytes.
+const MAX_PASSWORD_BYTES = 72;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const COMMON_PASSWORDS = new Set([
+  "password12", "password123", "password1!", "1234567890", "0123456789", "qwertyuiop", "qwerty1234",
+  "iloveyou12", "letmein123", "welcome123", "abc1234567", "1q2w3e4r5t", "changeme123", "mindfulmate1",
+]);
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: unknown) =>
+  typeof email === "string" && email.trim().length <= 254 && EMAIL.test(email.trim()) ? email.trim().toLowerCase() : null;
+
+// Returns why a password is too weak, or null when it is acceptable.
+export const passwordProblem = (password: string, email: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (Buffer.byteLength(password) > MAX_PASSWORD_BYTES) return `Password must be at most ${MAX_PASSWORD_BYTES} bytes`;
+  if (!/[a-z]/i.test(password) || !/[^a-z]/i.test(password)) {
+    return "Password must contain letters and at least one number or symbol";
+  }
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lower)) return "This password is too common";
+  const name = email.split("@")[0];
+  if (name.length >= 3 && lower.includes(name)) return "Password must not contain your email address";
+  return null;
+};
+
+export const isLockedOut = (userId: number, ip: string) =>
+  !!(
+    db().prepare("SELECT locked_until > datetime('now') AS locked FROM login_failures WHERE user_id = ? AND ip = ?").get(userId, ip) as
+      | { locked: number | null }
+      | undefined
+  )?.locked;
+
+// After MAX_FAILED_LOGINS wrong passwords in a row from one address, logins
+// to the account from that address are refused for LOCKOUT_MINUTES and the
+// counter starts over.
+export const recordFailedLogin = (userId: number, ip: string) => {
+  db().prepare(
+    `INSERT INTO login_failures (user_id, ip, failed_logins) VALUES (?, ?, 1)
+     ON CONFLICT (user_id, ip) DO UPDATE SET
+       locked_until = CASE WHEN failed_logins + 1 >= ? THEN datetime('now', ?) ELSE locked_until END,
+       failed_logins = CASE WHEN failed_logins + 1 >= ? THEN 0 ELSE failed_logins + 1 END`
+  ).run(userId, ip, MAX_FAILED_LOGINS, `+${LOCKOUT_MINUTES} minutes`, MAX_FAILED_LOGINS);
+};
+
+export const resetFailedLogins = (userId: number) => {
+  db().prepare("DELETE FROM login_failures WHERE user_id = ?").run(userId);
+};
+
+// Only a hash is stored, so a leaked database cannot be used to resume sessions.
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Every login starts a token family; each refresh replaces the token with a
+// new one in the same family.
+export const createRefreshToken = (userId: number, family: string = crypto.randomUUID()) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  db().prepare("INSERT INTO refresh_tokens (user_id, token_hash, family, expires_at) VALUES (?, ?, ?, datetime('now', ?))").run(
+    userId,
+    hashToken(token),
+    family,
+    `+${REFRESH_TOKEN_TTL_MS / 1000} seconds`
+  );
+  return token;
+};
+
+const revokeFamily = (family: string) => {
+  db().prepare("UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family = ? AND revoked_at IS NULL").run(family);
+};
+
+// Exchanges a refresh token for a new one. A token that was already used
+// means it has been copied, so the whole family is revoked.
+export const rotateRefreshToken = transaction((token: string) => {
+  const row = db()
+    .prepare("SELECT id, user_id, family, revoked_at, expires_at <= datetime('now') AS expired FROM refresh_tokens WHERE token_hash = ?")
+    .get(hashToken(token)) as { id: number; user_id: number; family: string; revoked_at: string | null; expired: number } | undefined;
+  if (!row) return null;
+  if (row.revoked_at) {
+    revokeFamily(row.family);
+    return null;
+  }
+  if (row.expired) return null;
+
+  db().prepare("UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?").run(row.id);
+  const user = findUserById(row.user_id);
+  if (!user) return null;
+  return { user, refreshToken: createRefreshToken(row.user_id, row.family) };
+});
+
+export const revokeRefreshToken = (token: string) => {
+  const row = db().prepare("SELECT family FROM refresh_tokens WHERE token_hash = ?").get(hashToken(token)) as { family: string } | undefined;
+  if (row) revokeFamily(row.family);
+};
+
+export const revokeAllRefreshTokens = (userId: number) => {
+  db().prepare("UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL").run(userId);
+};
+
+export type EmailTokenPurpose = "verify" | "reset";
+
+const EMAIL_TOKEN_TTL: Record<EmailTokenPurpose, string> = { verify: "+24 hours", reset: "+1 hours" };
+
+// Issuing a token cancels any earlier unused one for the same purpose, so
+// only the most recent email link works.
+export const createEmailToken = (userId: number, purpose: EmailTokenPurpose) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  db().prepare("UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND purpose = ? AND used_at IS NULL").run(userId, purpose);
+  db().prepare("INSERT INTO email_tokens (user_id, purpose, token_hash, expires_at) VALUES (?, ?, ?, datetime('now', ?))").run(
+    userId,
+    purpose,
+    hashToken(token),
+    EMAIL_TOKEN_TTL[purpose]
+  );
+  return token;
+};
+
+const findEmailToken = (token: string, purpose: EmailTokenPurpose) =>
+  db()
+    .prepare("SELECT id, user_id FROM email_tokens WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > datetime('now')")
+    .get(hashToken(token), purpose) as { id: number; user_id: number } | undefined;
+
+// Returns the token's user id without using it up, or null if it is unknown,
+// expired, already used or meant for something else.
+export const peekEmailToken = (token: string, purpose: EmailTokenPurpose) => findEmailToken(token, purpose)?.user_id ?? null;
+
+// Like peekEmailToken, but marks the token used.
+export const consumeEmailToken = (token: string, purpose: EmailTokenPurpose) => {
+  const row = findEmailToken(token, purpose);
+  if (!row) return null;
+  db().prepare("UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ?").run(row.id);
+  return row.user_id;
+};
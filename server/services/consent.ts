@@ -0,0 +1,108 @@
+import { db, transaction } from "../db";
+import { MOOD_VALUES } from "../../src/lib/moods";
+import type { StudentFlags } from "../../src/types";
+
+export const MAX_GRANT_DAYS = 180;
+
+// A week averaging Stressed or lower, across at least this many entries, is flagged.
+const LOW_MOOD_THRESHOLD = 2;
+const LOW_MOOD_MIN_ENTRIES = 3;
+const CRISIS_WINDOW_DAYS = 30;
+
+const ACTIVE = "revoked_at IS NULL AND expires_at > datetime('now')";
+
+const toGrant = (row: any) => ({
+  id: row.id,
+  counselor: { id: row.counselor_id, name: row.counselor_name, email: row.counselor_email },
+  include_transcripts: !!row.include_transcripts,
+  expires_at: row.expires_at,
+  revoked_at: row.revoked_at,
+  created_at: row.created_at,
+  active: !!row.active,
+});
+
+export const listGrants = (studentId: number) =>
+  db()
+    .prepare(
+      `SELECT consent_grants.*, users.name AS counselor_name, users.email AS counselor_email,
+         (consent_grants.revoked_at IS NULL AND consent_grants.expires_at > datetime('now')) AS active
+       FROM consent_grants JOIN users ON users.id = consent_grants.counselor_id
+       WHERE student_id = ? ORDER BY consent_grants.created_at DESC, consent_grants.id DESC`
+    )
+    .all(studentId)
+    .map(toGrant);
+
+// Students currently sharing with the counselor, by name.
+export const listSharingStudents = (counselorId: number): any[] =>
+  db()
+    .prepare(
+      `SELECT users.id, users.name, users.email, consent_grants.id AS grant_id, include_transcripts, expires_at
+       FROM consent_grants JOIN users ON users.id = consent_grants.student_id
+       WHERE counselor_id = ? AND ${ACTIVE}
+       ORDER BY users.name`
+    )
+    .all(counselorId);
+
+export const getActiveGrant = (counselorId: number, studentId: number): any =>
+  db().prepare(`SELECT * FROM consent_grants WHERE counselor_id = ? AND student_id = ? AND ${ACTIVE}`).get(counselorId, studentId);
+
+// A student has at most one live grant per counselor; granting again replaces it.
+export const createGrant = transaction(
+  (studentId: number, counselorId: number, includeTranscripts: boolean, days: number) => {
+    db().prepare(`UPDATE consent_grants SET revoked_at = CURRENT_TIMESTAMP WHERE student_id = ? AND counselor_id = ? AND ${ACTIVE}`).run(
+      studentId,
+      counselorId
+    );
+    const info = db()
+      .prepare("INSERT INTO consent_grants (student_id, counselor_id, include_transcripts, expires_at) VALUES (?, ?, ?, datetime('now', ?))")
+      .run(studentId, counselorId, includeTranscripts ? 1 : 0, `+${days} days`);
+    logAccess(studentId, studentId, "grant_created", `counselor ${counselorId}${includeTranscripts ? ", with transcripts" : ""}, ${days} days`);
+    return Number(info.lastInsertRowid);
+  }
+);
+
+export const revokeGrant = (studentId: number, grantId: number) => {
+  const info = db()
+    .prepare("UPDATE consent_grants SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND student_id = ? AND revoked_at IS NULL")
+    .run(grantId, studentId);
+  if (info.changes) logAccess(studentId, studentId, "grant_revoked", `grant ${grantId}`);
+  return info.changes > 0;
+};
+
+export const logAccess = (actorId: number, studentId: number, action: string, detail: string | null = null) => {
+  db().prepare("INSERT INTO audit_log (actor_id, student_id, action, detail) VALUES (?, ?, ?, ?)").run(actorId, studentId, action, detail);
+};
+
+// Everything recorded about access to a student's data, newest first.
+export const listAccessLog = (studentId: number) =>
+  db()
+    .prepare(
+      `SELECT audit_log.id, users.name AS actor_name, action, detail, audit_log.created_at
+       FROM audit_log LEFT JOIN users ON users.id = audit_log.actor_id
+       WHERE student_id = ? ORDER BY audit_log.created_at DESC, audit_log.id DESC`
+    )
+    .all(studentId);
+
+// Signals a counselor should look at first. Crisis events are counted even
+// without transcript access, but their content is never included.
+export const studentFlags = (studentId: number): StudentFlags => {
+  const moods = db()
+    .prepare("SELECT mood FROM moods WHERE user_id = ? AND timestamp > datetime('now', '-7 days')")
+    .all(studentId) as { mood: string }[];
+  const values = moods.map(m => MOOD_VALUES[m.mood] ?? 3);
+  const recentAverage = values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : null;
+
+  const crisis = db()
+    .prepare(
+      `SELECT COUNT(*) AS count, MAX(timestamp) AS last FROM chats
+       WHERE user_id = ? AND role = 'user' AND is_crisis = 1 AND timestamp > datetime('now', ?)`
+    )
+    .get(studentId, `-${CRISIS_WINDOW_DAYS} days`) as { count: number; last: string | null };
+
+  return {
+    recentAverage,
+    sustainedLowMood: recentAverage !== null && values.length >= LOW_MOOD_MIN_ENTRIES && recentAverage <= LOW_MOOD_THRESHOLD,
+    crisisEvents: crisis.count,
+    lastCrisisAt: crisis.last,
+  };
+};
@@ -0,0 +1,89 @@
+import { db, transaction } from "../db";
+import { decryptField, encryptField } from "./encryption";
+import { generateTitle, type LLMProvider } from "./llm";
+import { deleteChats, getChat, type ChatRow } from "../repositories/chats";
+
+// A row of the conversations table. title is encrypted at rest.
+export interface ConversationRow {
+  id: number;
+  user_id: number;
+  title: string | null;
+  archived: number;
+  created_at: string;
+  updated_at: string;
+  // Id of the last message folded into the memory summary (see services/memory).
+  summarized_through: number;
+}
+
+// Most recently active first.
+export const listConversations = (userId: number) =>
+  db().prepare("SELECT * FROM conversations WHERE user_id = ? ORDER BY updated_at DESC, id DESC").all(userId) as ConversationRow[];
+
+export const getConversation = (userId: number, id: number) =>
+  db().prepare("SELECT * FROM conversations WHERE id = ? AND user_id = ?").get(id, userId) as ConversationRow | undefined;
+
+// Titles are encrypted like messages: an automatic one repeats the start of
+// the first message.
+export const createConversation = (userId: number, title: string | null = null) => {
+  const info = db().prepare("INSERT INTO conversations (user_id, title) VALUES (?, ?)").run(userId, encryptField(userId, title));
+  return getConversation(userId, Number(info.lastInsertRowid))!;
+};
+
+export const touchConversation = (id: number) => {
+  db().prepare("UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(id);
+};
+
+// A null title or archived flag leaves that field unchanged.
+export const updateConversation = (userId: number, id: number, title: string | null, archived: boolean | null) => {
+  db().prepare("UPDATE conversations SET title = COALESCE(?, title), archived = COALESCE(?, archived) WHERE id = ?").run(
+    encryptField(userId, title),
+    archived === null ? null : Number(archived),
+    id
+  );
+};
+
+export const clearConversationTitle = (id: number) => {
+  db().prepare("UPDATE conversations SET title = NULL WHERE id = ?").run(id);
+};
+
+export const deleteConversation = transaction((userId: number, id: number) => {
+  deleteChats(userId, id);
+  db().prepare("DELETE FROM conversations WHERE id = ?").run(id);
+});
+
+export const toConversation = ({ archived, ...row }: ConversationRow) => ({ ...row, title: decryptField(row.user_id, row.title), archived: !!archived });
+
+export const toMessage = ({ is_crisis, ...row }: ChatRow) => ({ ...row, content: decryptField(row.user_id, row.content), crisis: !!is_crisis });
+
+// Converts chat rows to messages, attaching each bot reply's suggestions.
+export const toMessages = (rows: ChatRow[]) => {
+  if (rows.length === 0) return [];
+  const ids = rows.map(r => r.id);
+  const suggestions = db()
+    .prepare(`SELECT id, chat_id, text, exercise, tried_at FROM suggestions WHERE chat_id IN (${ids.map(() => "?").join(",")}) ORDER BY id`)
+    .all(...ids) as { id: number; chat_id: number; text: string; exercise: string | null; tried_at: string | null }[];
+  return rows.map(row => {
+    const own = suggestions.filter(s => s.chat_id === row.id).map(({ chat_id, ...s }) => s);
+    return own.length ? { ...toMessage(row), suggestions: own } : toMessage(row);
+  });
+};
+
+export const getMessage = (id: number) => {
+  const row = getChat(id);
+  return row && toMessages([row])[0];
+};
+
+// Untitled conversations are named after their first user message and reply.
+export const autoTitleConversation = async (llm: LLMProvider, userId: number, id: number) => {
+  const conversation = getConversation(userId, id);
+  if (!conversation || conversation.title) return conversation;
+
+  const [first, reply] = db()
+    .prepare("SELECT role, content FROM chats WHERE conversation_id = ? ORDER BY timestamp ASC, id ASC LIMIT 2")
+    .all(id) as { role: string; content: string }[];
+  if (!first) return conversation;
+
+  const title = await generateTitle(llm, decryptField(userId, first.content)!, decryptField(userId, reply?.content) || "");
+  db().prepare("UPDATE conversations SET title = ? WHERE id = ?").run(encryptField(userId, title), id);
+  return { ...conversation, title };
+};
@@ -0,0 +1,51 @@
+import fs from "fs";
+import { LOCALES, type CrisisResources, type Helpline } from "../../src/types";
+import { DEFAULT_CRISIS_CONFIG, type CrisisConfig } from "../../src/lib/crisis";
+
+// The detector is shared with the app, which screens messages written offline.
+export { createCrisisDetector, DEFAULT_CRISIS_CONFIG } from "../../src/lib/crisis";
+export type { CrisisConfig, CrisisDetector, CrisisResult } from "../../src/lib/crisis";
+
+export interface CrisisRegion {
+  name: string;
+  emergency: string;
+  helplines: Helpline[];
+}
+
+// Helplines by region (ISO 3166 code, plus a catch-all) and the safety
+// message by locale.
+export interface CrisisDirectory {
+  defaultRegion: string;
+  responses: Record<string, string>;
+  regions: Record<string, CrisisRegion>;
+}
+
+// CRISIS_CONFIG_PATH points at a JSON file whose keys replace the defaults,
+// so campuses can add local phrases. Helplines live in the crisis directory.
+export const loadCrisisConfig = (configPath = process.env.CRISIS_CONFIG_PATH): CrisisConfig => {
+  if (!configPath) return DEFAULT_CRISIS_CONFIG;
+  const overrides = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  return { ...DEFAULT_CRISIS_CONFIG, ...overrides };
+};
+
+const DEFAULT_DIRECTORY_PATH = new URL("../data/crisis-resources.json", import.meta.url);
+
+// CRISIS_RESOURCES_PATH replaces the bundled directory, for campuses that list
+// their own counseling lines.
+export const loadCrisisDirectory = (directoryPath = process.env.CRISIS_RESOURCES_PATH): CrisisDirectory =>
+  JSON.parse(fs.readFileSync(directoryPath || DEFAULT_DIRECTORY_PATH, "utf8"));
+
+// Unknown regions fall back to the directory default and unknown locales to
+// English, so a crisis reply always has something to show.
+export const resolveCrisisResources = (directory: CrisisDirectory, locale: unknown, region: unknown): CrisisResources => {
+  const code = typeof region === "string" && directory.regions[region.toUpperCase()] ? region.toUpperCase() : directory.defaultRegion;
+  const language = LOCALES.find(l => l === locale && directory.responses[l]) ?? "en";
+  const { emergency, helplines } = directory.regions[code];
+  return {
+    region: code,
+    regions: Object.entries(directory.regions).map(([code, { name }]) => ({ code, name })),
+    response: directory.responses[language],
+    emergency,
+    helplines,
+  };
+};
@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { db, transaction } from "../db";
+import { log } from "./logger";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Marks encrypted values, so rows written before encryption can be told apart.
+const PREFIX = "enc:v1:";
+
+// Free-text columns holding what students disclose. Any new ones belong here
+// so they are covered by the startup migration and key rotation.
+const ENCRYPTED_FIELDS = [
+  ["chats", "content"],
+  ["conversations", "title"],
+  ["moods", "note"],
+  ["memories", "content"],
+  ["journal_entries", "title"],
+  ["journal_entries", "body"],
+  ["idempotency_keys", "response"],
+] as const;
+
+export const parseMasterKey = (encoded: string) => {
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error("Master keys must be 32 random bytes, base64-encoded (openssl rand -base64 32)");
+  }
+  return key;
+};
+
+const loadMasterKey = () => {
+  if (process.env.ENCRYPTION_MASTER_KEY) return parseMasterKey(process.env.ENCRYPTION_MASTER_KEY);
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ENCRYPTION_MASTER_KEY must be set in production");
+  }
+  log.warn("insecure_master_key", { detail: "ENCRYPTION_MASTER_KEY is not set; using an insecure development key" });
+  return crypto.createHash("sha256").update("mindfulmate-development-key").digest();
+};
+
+const masterKey = loadMasterKey();
+// Keys being rotated out, still accepted for unwrapping until keys:rotate has run.
+const previousMasterKeys = (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || "")
+  .split(",")
+  .map(k => k.trim())
+  .filter(Boolean)
+  .map(parseMasterKey);
+
+const keyId = (key: Buffer) => crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+
+const seal = (key: Buffer, data: Buffer) => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+};
+
+const open = (key: Buffer, sealed: string) => {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+// Wrapped data keys are stored as "<master key id>:<sealed key>" so the right
+// master key can be picked while a rotation is under way.
+const wrapKey = (dataKey: Buffer) => `${keyId(masterKey)}:${seal(masterKey, dataKey)}`;
+
+const unwrapKey = (wrapped: string) => {
+  const [id, sealed] = wrapped.split(":");
+  const key = [masterKey, ...previousMasterKeys].find(k => keyId(k) === id);
+  if (!key) {
+    throw new Error("A data key was wrapped with an unknown master key; add it to ENCRYPTION_PREVIOUS_MASTER_KEYS");
+  }
+  return open(key, sealed);
+};
+
+// Unwrapped data keys by database and user, so a key is unwrapped once per
+// process instead of on every field. Each entry remembers the wrapped value it
+// came from and is only used while the user's row still holds that value.
+const dataKeys = new WeakMap<Database.Database, Map<number, { wrapped: string; key: Buffer }>>();
+
+const cachedDataKeys = () => {
+  let keys = dataKeys.get(db());
+  if (!keys) {
+    keys = new Map();
+    dataKeys.set(db(), keys);
+  }
+  return keys;
+};
+
+// Each user's data key is created on first use and never leaves the server unwrapped.
+const getDataKey = (userId: number) => {
+  const user = db().prepare("SELECT data_key FROM users WHERE id = ?").get(userId) as { data_key: string | null } | undefined;
+  if (!user) throw new Error(`No user with id ${userId}`);
+  const keys = cachedDataKeys();
+  if (user.data_key) {
+    const cached = keys.get(userId);
+    if (cached?.wrapped === user.data_key) return cached.key;
+    const key = unwrapKey(user.data_key);
+    keys.set(userId, { wrapped: user.data_key, key });
+    return key;
+  }
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  db().prepare("UPDATE users SET data_key = ? WHERE id = ?").run(wrapKey(dataKey), userId);
+  return dataKey;
+};
+
+// Drops a deleted user's key from memory.
+export const forgetDataKey = (userId: number) => {
+  dataKeys.get(db())?.delete(userId);
+};
+
+const encryptWith = (key: Buffer, value: string) => PREFIX + seal(key, Buffer.from(value, "utf8"));
+
+const decryptWith = (key: Buffer, value: string) => open(key, value.slice(PREFIX.length)).toString("utf8");
+
+export const isEncrypted = (value: unknown) => typeof value === "string" && value.startsWith(PREFIX);
+
+export const encryptField = (userId: number, value: string | null | undefined) =>
+  value == null ? null : encryptWith(getDataKey(userId), value);
+
+// Plaintext passes through unchanged, so rows not yet migrated stay readable.
+export const decryptField = (userId: number, value: string | null | undefined) =>
+  isEncrypted(value) ? decryptWith(getDataKey(userId), value!) : value ?? null;
+
+// Encrypts rows stored before encryption at rest existed. Returns how many were updated.
+export const encryptPlaintextRows = transaction(() => {
+  let count = 0;
+  for (const [table, column] of ENCRYPTED_FIELDS) {
+    const rows = db()
+      .prepare(`SELECT id, user_id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL AND ${column} NOT LIKE '${PREFIX}%'`)
+      .all() as { id: number; user_id: number; value: string }[];
+    const update = db().prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`);
+    for (const row of rows) {
+      update.run(encryptField(row.user_id, row.value), row.id);
+      count++;
+    }
+  }
+  return count;
+});
+
+// Re-wraps every data key under the current master key. With rotateDataKeys
+// each user also gets a fresh data key and their fields are re-encrypted.
+export const rotateKeys = transaction((rotateDataKeys: boolean) => {
+  const users = db().prepare("SELECT id, data_key FROM users WHERE data_key IS NOT NULL").all() as { id: number; data_key: string }[];
+  dataKeys.delete(db());
+  for (const user of users) {
+    const oldKey = unwrapKey(user.data_key);
+    const newKey = rotateDataKeys ? crypto.randomBytes(KEY_LENGTH) : oldKey;
+    if (rotateDataKeys) {
+      for (const [table, column] of ENCRYPTED_FIELDS) {
+        const rows = db()
+          .prepare(`SELECT id, ${column} AS value FROM ${table} WHERE user_id = ? AND ${column} LIKE '${PREFIX}%'`)
+          .all(user.id) as { id: number; value: string }[];
+        const update = db().prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`);
+        for (const row of rows) {
+          update.run(encryptWith(newKey, decryptWith(oldKey, row.value)), row.id);
+        }
+      }
+    }
+    db().prepare("UPDATE users SET data_key = ? WHERE id = ?").run(wrapKey(newKey), user.id);
+  }
+  return users.length;
+});
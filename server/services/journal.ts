@@ -0,0 +1,122 @@
+import { db } from "../db";
+import { decryptField, encryptField } from "./encryption";
+import { pickJournalPrompts } from "../../src/lib/journalPrompts";
+import type { Mood } from "../../src/types";
+
+// Shared entries sent with each chat message, newest first, and how much of
+// each one.
+const MAX_CONTEXT_ENTRIES = 3;
+const MAX_CONTEXT_LENGTH = 600;
+const PROMPT_MOOD_DAYS = 7;
+const PROMPT_MOOD_COUNT = 5;
+
+const SELECT_ENTRY = `SELECT journal_entries.*, moods.mood FROM journal_entries
+  LEFT JOIN moods ON moods.id = journal_entries.mood_id`;
+
+// A row of the journal_entries table with the mood of its linked check-in.
+// title and body are encrypted at rest.
+export interface JournalEntryRow {
+  id: number;
+  user_id: number;
+  title: string | null;
+  body: string;
+  prompt: string | null;
+  mood_id: number | null;
+  share_with_ai: number;
+  created_at: string;
+  updated_at: string;
+  mood: Mood | null;
+}
+
+export const toJournalEntry = ({ user_id, share_with_ai, ...row }: JournalEntryRow) => ({
+  ...row,
+  title: decryptField(user_id, row.title),
+  body: decryptField(user_id, row.body),
+  mood: row.mood ?? null,
+  share_with_ai: !!share_with_ai,
+});
+
+export const listJournalEntries = (userId: number) =>
+  (
+    db()
+      .prepare(`${SELECT_ENTRY} WHERE journal_entries.user_id = ? ORDER BY journal_entries.created_at DESC, journal_entries.id DESC`)
+      .all(userId) as JournalEntryRow[]
+  ).map(toJournalEntry);
+
+export const getJournalEntry = (userId: number, id: number) => {
+  const row = db().prepare(`${SELECT_ENTRY} WHERE journal_entries.id = ? AND journal_entries.user_id = ?`).get(id, userId) as
+    | JournalEntryRow
+    | undefined;
+  return row ? toJournalEntry(row) : null;
+};
+
+export interface JournalFields {
+  title: string | null;
+  body: string;
+  prompt: string | null;
+  moodId: number | null;
+  shareWithAi: boolean;
+}
+
+export const createJournalEntry = (userId: number, fields: JournalFields) => {
+  const info = db()
+    .prepare("INSERT INTO journal_entries (user_id, title, body, prompt, mood_id, share_with_ai) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(
+      userId,
+      encryptField(userId, fields.title),
+      encryptField(userId, fields.body),
+      fields.prompt,
+      fields.moodId,
+      fields.shareWithAi ? 1 : 0
+    );
+  return getJournalEntry(userId, Number(info.lastInsertRowid))!;
+};
+
+export const updateJournalEntry = (userId: number, id: number, fields: JournalFields) => {
+  const info = db()
+    .prepare(
+      `UPDATE journal_entries SET title = ?, body = ?, prompt = ?, mood_id = ?, share_with_ai = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ?`
+    )
+    .run(
+      encryptField(userId, fields.title),
+      encryptField(userId, fields.body),
+      fields.prompt,
+      fields.moodId,
+      fields.shareWithAi ? 1 : 0,
+      id,
+      userId
+    );
+  return info.changes ? getJournalEntry(userId, id) : null;
+};
+
+export const deleteJournalEntry = (userId: number, id: number) =>
+  db().prepare("DELETE FROM journal_entries WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+
+// Whether a mood row is one of the student's own check-ins, the only kind an
+// entry can be linked to.
+export const isOwnCheckIn = (userId: number, moodId: number) =>
+  !!db().prepare("SELECT 1 FROM moods WHERE id = ? AND user_id = ? AND source = 'self'").get(moodId, userId);
+
+export const suggestJournalPrompts = (userId: number) => {
+  const moods = db()
+    .prepare("SELECT mood FROM moods WHERE user_id = ? AND timestamp > datetime('now', ?) ORDER BY timestamp DESC, id DESC LIMIT ?")
+    .all(userId, `-${PROMPT_MOOD_DAYS} days`, PROMPT_MOOD_COUNT) as { mood: Mood }[];
+  return pickJournalPrompts(moods.map(m => m.mood));
+};
+
+// The only path by which journal text reaches the model: entries the student
+// marked to share, shortened to keep the prompt bounded.
+export const sharedJournalExcerpts = (userId: number) =>
+  (
+    db()
+      .prepare(
+        "SELECT title, body, created_at FROM journal_entries WHERE user_id = ? AND share_with_ai = 1 ORDER BY created_at DESC, id DESC LIMIT ?"
+      )
+      .all(userId, MAX_CONTEXT_ENTRIES) as Pick<JournalEntryRow, "title" | "body" | "created_at">[]
+  ).map(row => {
+    const title = decryptField(userId, row.title);
+    const body = decryptField(userId, row.body)!;
+    const text = body.length > MAX_CONTEXT_LENGTH ? `${body.slice(0, MAX_CONTEXT_LENGTH - 1)}…` : body;
+    return `${row.created_at.slice(0, 10)}${title ? ` "${title}"` : ""}: ${text}`;
+  });
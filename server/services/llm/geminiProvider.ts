@@ -0,0 +1,87 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { MOODS } from "../../../src/types";
+import { languageInstruction, memoryInstruction, SUMMARY_INSTRUCTION, SYSTEM_INSTRUCTION } from "./prompt";
+import { createJsonStringFieldReader } from "./jsonStream";
+import type { ChatContext, LLMProvider, ModelResponse } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+const parseResponse = (text: string | undefined): ModelResponse => {
+  const parsed = JSON.parse(text || "{}");
+  if (!MOODS.includes(parsed.mood) || typeof parsed.response !== "string") {
+    throw new Error("Gemini returned a malformed response");
+  }
+  return parsed;
+};
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const request = (message: string, { history, memory, locale }: ChatContext) => ({
+    model,
+    contents: [
+      ...history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.content }] })),
+      { role: 'user', parts: [{ text: message }] }
+    ],
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION + languageInstruction(locale) + memoryInstruction(memory),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          mood: { type: Type.STRING, enum: [...MOODS] },
+          response: { type: Type.STRING },
+          suggestions: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          facts: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          }
+        },
+        required: ["mood", "response"]
+      }
+    }
+  });
+
+  return {
+    name: "gemini",
+    async respond(message, context) {
+      const result = await ai.models.generateContent(request(message, context));
+      return parseResponse(result.text);
+    },
+    async respondStream(message, context, onToken) {
+      const reader = createJsonStringFieldReader("response");
+      const stream = await ai.models.generateContentStream(request(message, context));
+      for await (const chunk of stream) {
+        const delta = reader.push(chunk.text || "");
+        if (delta) onToken(delta);
+      }
+      return parseResponse(reader.text());
+    },
+    async title(message, reply) {
+      const result = await ai.models.generateContent({
+        model,
+        contents: `Student: ${message}\nMindfulMate: ${reply}`,
+        config: {
+          systemInstruction: "Write a short, neutral title (at most 6 words) for this conversation, in the language it is written in. Reply with the title only, without quotes.",
+        },
+      });
+      const title = (result.text || "").trim().replace(/^["']|["']$/g, "");
+      if (!title) throw new Error("Gemini returned an empty title");
+      return title;
+    },
+    async summarize(summary, turns) {
+      const excerpt = turns.map(t => `${t.role === "user" ? "Student" : "MindfulMate"}: ${t.content}`).join("\n");
+      const result = await ai.models.generateContent({
+        model,
+        contents: `Existing notes:\n${summary || "(none)"}\n\nNew conversation:\n${excerpt}`,
+        config: { systemInstruction: SUMMARY_INSTRUCTION },
+      });
+      const updated = (result.text || "").trim();
+      if (!updated) throw new Error("Gemini returned an empty summary");
+      return updated;
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createLocalProvider, respondLocally, summarizeLocally, titleFromMessage } from "./localProvider";
+import type { ChatContext, ChatTurn, LLMProvider, ModelResponse } from "./types";
+import { recordModelCall, type ModelOperation } from "../modelCalls";
+import { log } from "../logger";
+import { modelCallDuration, modelFallbacks, secondsSince } from "../metrics";
+
+export type { ChatContext, ChatTurn, LLMProvider, MemoryContext, ModelResponse } from "./types";
+export { classifyMood } from "./localProvider";
+
+// LLM_PROVIDER picks the backend explicitly; otherwise Gemini is used when a
+// key is configured and the offline provider when it isn't.
+export const createProviderFromEnv = (env = process.env): LLMProvider => {
+  const choice = env.LLM_PROVIDER || (env.GEMINI_API_KEY ? "gemini" : "local");
+  switch (choice) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) throw new Error("LLM_PROVIDER=gemini requires GEMINI_API_KEY");
+      return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    case "local":
+      return createLocalProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${choice}"`);
+  }
+};
+
+// Every model call is timed and recorded for the admin console; a failure is
+// also logged and counted, since the offline responder hides it from the student.
+const finished = (provider: LLMProvider, operation: ModelOperation, start: bigint, error?: unknown) => {
+  const failed = error !== undefined;
+  modelCallDuration.observe({ provider: provider.name, operation, outcome: failed ? "fallback" : "ok" }, secondsSince(start));
+  recordModelCall(provider.name, operation, error);
+  if (failed) {
+    modelFallbacks.inc({ provider: provider.name, operation });
+    log.error("model_call_failed", { provider: provider.name, operation, error });
+  }
+};
+
+export const analyzeSentimentAndRespond = async (
+  provider: LLMProvider,
+  message: string,
+  context: ChatContext
+): Promise<ModelResponse> => {
+  const start = process.hrtime.bigint();
+  try {
+    const result = await provider.respond(message, context);
+    finished(provider, "respond", start);
+    return result;
+  } catch (error) {
+    finished(provider, "respond", start, error);
+    return respondLocally(message);
+  }
+};
+
+// On failure the offline reply is streamed instead; onReset tells the caller
+// to discard any partial text the failed provider already emitted.
+export const streamSentimentAndRespond = async (
+  provider: LLMProvider,
+  message: string,
+  context: ChatContext,
+  onToken: (text: string) => void,
+  onReset: () => void
+): Promise<ModelResponse> => {
+  let emitted = false;
+  const start = process.hrtime.bigint();
+  try {
+    const result = await provider.respondStream(message, context, text => {
+      emitted = true;
+      onToken(text);
+    });
+    finished(provider, "stream", start);
+    return result;
+  } catch (error) {
+    finished(provider, "stream", start, error);
+    if (emitted) onReset();
+    return createLocalProvider().respondStream(message, context, onToken);
+  }
+};
+
+export const generateTitle = async (provider: LLMProvider, message: string, reply: string): Promise<string> => {
+  const start = process.hrtime.bigint();
+  try {
+    const title = await provider.title(message, reply);
+    finished(provider, "title", start);
+    return title;
+  } catch (error) {
+    finished(provider, "title", start, error);
+    return titleFromMessage(message);
+  }
+};
+
+export const summarizeTurns = async (provider: LLMProvider, summary: string | null, turns: ChatTurn[]): Promise<string> => {
+  const start = process.hrtime.bigint();
+  try {
+    const result = await provider.summarize(summary, turns);
+    finished(provider, "summarize", start);
+    return result;
+  } catch (error) {
+    finished(provider, "summarize", start, error);
+    return summarizeLocally(summary, turns);
+  }
+};
@@ -0,0 +1,49 @@
+const ESCAPES: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+
+// Incrementally decodes one string field out of a JSON document that arrives
+// in chunks, so a structured model reply can still be shown token by token.
+export const createJsonStringFieldReader = (field: string) => {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = "";
+  let cursor = -1;
+  let done = false;
+
+  // Returns the newly decoded part of the field value.
+  const push = (chunk: string): string => {
+    buffer += chunk;
+    if (done) return "";
+    if (cursor < 0) {
+      const match = opener.exec(buffer);
+      if (!match) return "";
+      cursor = match.index + match[0].length;
+    }
+
+    let out = "";
+    while (cursor < buffer.length) {
+      const ch = buffer[cursor];
+      if (ch === '"') {
+        done = true;
+        break;
+      }
+      if (ch !== "\\") {
+        out += ch;
+        cursor++;
+        continue;
+      }
+      const next = buffer[cursor + 1];
+      if (next === undefined) break;
+      if (next === "u") {
+        const hex = buffer.slice(cursor + 2, cursor + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        cursor += 6;
+      } else {
+        out += ESCAPES[next] ?? next;
+        cursor += 2;
+      }
+    }
+    return out;
+  };
+
+  return { push, text: () => buffer };
+};
@@ -0,0 +1,44 @@
+import type { Locale, Mood } from "../../../src/types";
+
+export interface ChatTurn {
+  role: string;
+  content: string;
+}
+
+// Long-term memory sent alongside the recent turns: a rolling summary of
+// older messages, the facts the student chose to keep and journal entries
+// they chose to share.
+export interface MemoryContext {
+  summary: string | null;
+  facts: string[];
+  journal: string[];
+}
+
+export interface ChatContext {
+  history: ChatTurn[];
+  memory: MemoryContext;
+  // The student's interface language, used when their message doesn't make
+  // the reply language clear.
+  locale: Locale;
+}
+
+export interface ModelResponse {
+  mood: Mood;
+  response: string;
+  suggestions?: string[];
+  // Lasting things the student said about themselves, offered for memory.
+  facts?: string[];
+}
+
+// Every backend (hosted model or offline) answers with the same contract so
+// routes never need to know which one produced the reply.
+export interface LLMProvider {
+  name: string;
+  respond(message: string, context: ChatContext): Promise<ModelResponse>;
+  // Same contract as respond, but emits the reply text as it is generated.
+  respondStream(message: string, context: ChatContext, onToken: (text: string) => void): Promise<ModelResponse>;
+  // A few words naming a conversation, based on its opening exchange.
+  title(message: string, reply: string): Promise<string>;
+  // Folds older turns into the running summary and returns the new summary.
+  summarize(summary: string | null, turns: ChatTurn[]): Promise<string>;
+}
@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+// Fields that can hold what a student wrote or who they are. Their values
+// are never written to the log, at any depth.
+const REDACTED_FIELDS = new Set([
+  "message",
+  "content",
+  "text",
+  "note",
+  "response",
+  "reply",
+  "title",
+  "summary",
+  "facts",
+  "suggestions",
+  "email",
+  "name",
+  "password",
+  "token",
+  "body",
+  "query",
+]);
+
+const MAX_ERROR_LENGTH = 500;
+
+// The request a log line belongs to, set by the request logger so services
+// deep in a call don't need the request passed down to them.
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export const withRequestId = <T>(requestId: string, fn: () => T) => requestContext.run({ requestId }, fn);
+
+export const loadLogLevel = (env = process.env): LogLevel | "silent" => {
+  const level = (env.LOG_LEVEL || "info").toLowerCase();
+  if (!(level in LEVELS)) throw new Error(`LOG_LEVEL must be one of ${Object.keys(LEVELS).join(", ")}`);
+  return level as LogLevel | "silent";
+};
+
+// Errors keep their name, code and message but not their stack or any
+// properties a library attached, which can include the failed request.
+// Quoted text and email addresses are blanked too: a JSON.parse error quotes
+// the model output it choked on, which can repeat what the student wrote, and
+// an SMTP error can name the recipient.
+export const describeError = (error: Error) => ({
+  name: error.name,
+  ...("code" in error && typeof error.code === "string" ? { code: error.code } : {}),
+  message: error.message
+    .replace(/"[^"]*"/g, '"[redacted]"')
+    .replace(/[^\s@<>"']+@[^\s@<>"']+/g, "[email]")
+    .slice(0, MAX_ERROR_LENGTH),
+});
+
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (value instanceof Error) return describeError(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth > 4) return "[truncated]";
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, REDACTED_FIELDS.has(key) ? "[redacted]" : redact(field, depth + 1)])
+  );
+};
+
+let minimum = LEVELS[loadLogLevel()];
+let output = (line: string, level: LogLevel) => {
+  (level === "error" || level === "warn" ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+// Sends log lines somewhere else, for tests.
+export const useLogOutput = (write: (line: string, level: LogLevel) => void, level: LogLevel | "silent" = "debug") => {
+  output = write;
+  minimum = LEVELS[level];
+};
+
+// One JSON object per line: time, level, an event name in snake_case, the
+// current request id and the given fields, redacted.
+const write = (level: LogLevel, event: string, fields: Record<string, unknown> = {}) => {
+  if (LEVELS[level] < minimum) return;
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...(requestContext.getStore() ?? {}),
+    ...(redact(fields) as Record<string, unknown>),
+  };
+  output(JSON.stringify(line), level);
+};
+
+export const log = {
+  debug: (event: string, fields?: Record<string, unknown>) => write("debug", event, fields),
+  info: (event: string, fields?: Record<string, unknown>) => write("info", event, fields),
+  warn: (event: string, fields?: Record<string, unknown>) => write("warn", event, fields),
+  error: (event: string, fields?: Record<string, unknown>) => write("error", event, fields),
+};
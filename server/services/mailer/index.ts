@@ -0,0 +1,58 @@
+import { createSmtpMailer } from "./smtpMailer";
+import { createConsoleMailer, createFileMailer } from "./sinkMailers";
+import type { Mailer } from "./types";
+
+export type { Mailer, MailMessage } from "./types";
+
+const DEFAULT_FROM = "MindfulMate <no-reply@mindfulmate.local>";
+
+// MAILER picks the backend explicitly; otherwise SMTP is used when SMTP_URL
+// is configured and the console sink when it isn't.
+export const createMailerFromEnv = (env = process.env): Mailer => {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  const choice = env.MAILER || (env.SMTP_URL ? "smtp" : "console");
+  switch (choice) {
+    case "smtp":
+      if (!env.SMTP_URL) throw new Error("MAILER=smtp requires SMTP_URL");
+      return createSmtpMailer(env.SMTP_URL, from);
+    case "file":
+      return createFileMailer(env.MAIL_DIR || "mail", from);
+    case "console":
+      return createConsoleMailer(from);
+    default:
+      throw new Error(`Unknown MAILER "${choice}"`);
+  }
+};
+
+const appUrl = (env = process.env) => (env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+
+export const sendVerificationEmail = (mailer: Mailer, to: string, name: string, token: string) =>
+  mailer.send({
+    to,
+    subject: "Confirm your MindfulMate email",
+    text:
+      `Hi ${name},\n\nPlease confirm this is your email address by opening the link below:\n\n` +
+      `${appUrl()}/?verify=${token}\n\nThe link expires in 24 hours. If you didn't sign up, you can ignore this email.`,
+  });
+
+export const sendPasswordResetEmail = (mailer: Mailer, to: string, name: string, token: string) =>
+  mailer.send({
+    to,
+    subject: "Reset your MindfulMate password",
+    text:
+      `Hi ${name},\n\nSomeone asked to reset the password for your MindfulMate account. To choose a new one, open:\n\n` +
+      `${appUrl()}/?reset=${token}\n\nThe link expires in 1 hour and can only be used once. ` +
+      `If you didn't ask for this, you can ignore this email; your password won't change.`,
+  });
+
+// Sent instead of a confirmation when someone signs up with an address that
+// already has an account.
+export const sendAccountExistsEmail = (mailer: Mailer, to: string, name: string) =>
+  mailer.send({
+    to,
+    subject: "You already have a MindfulMate account",
+    text:
+      `Hi ${name},\n\nSomeone just tried to sign up for MindfulMate with this email address, which already has an account. ` +
+      `If it was you, log in at ${appUrl()}/ or choose "Forgot password?" there to set a new one.\n\n` +
+      `If it wasn't you, you can ignore this email; nothing about your account has changed.`,
+  });
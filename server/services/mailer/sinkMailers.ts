@@ -0,0 +1,21 @@
+import fs from "fs";
+import path from "path";
+import type { Mailer } from "./types";
+
+// Prints each message instead of sending it, so links can be followed in development.
+export const createConsoleMailer = (from: string): Mailer => ({
+  name: "console",
+  async send({ to, subject, text }) {
+    console.log(`--- mail from ${from} to ${to}: ${subject}\n${text}\n---`);
+  },
+});
+
+// Writes each message as a JSON file, one per send, for tests and manual inspection.
+export const createFileMailer = (dir: string, from: string): Mailer => ({
+  name: "file",
+  async send(message) {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+    await fs.promises.writeFile(file, JSON.stringify({ from, ...message, sentAt: new Date().toISOString() }, null, 2));
+  },
+});
@@ -0,0 +1,12 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivery backends share this contract, so routes never know whether mail
+// goes out over SMTP or into a local sink.
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,163 @@
+import { db, transaction } from "../db";
+import { decryptField, encryptField } from "./encryption";
+import { summarizeTurns, type ChatContext, type LLMProvider } from "./llm";
+import { sharedJournalExcerpts } from "./journal";
+import { getPreferences } from "../repositories/users";
+import type { ChatRow } from "../repositories/chats";
+
+// Messages sent to the model word for word; anything older reaches it only
+// through the summary.
+const RECENT_TURNS = 12;
+// Older messages are summarized in batches of at least this many, so the
+// model is not asked for a new summary after every exchange.
+const SUMMARY_BATCH = 6;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_FACT_LENGTH = 120;
+// Kept facts sent with each message, newest first.
+const MAX_PROMPT_FACTS = 20;
+
+// A row of the memories table: one summary per student, plus facts.
+// content is encrypted at rest.
+interface MemoryRow {
+  id: number;
+  user_id: number;
+  kind: "summary" | "fact";
+  content: string;
+  // "suggested" until the student keeps a fact.
+  status: "suggested" | "kept";
+  chat_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toMemory = (row: MemoryRow) => ({
+  id: row.id,
+  content: decryptField(row.user_id, row.content)!,
+  status: row.status,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const findSummary = (userId: number) =>
+  db().prepare("SELECT * FROM memories WHERE user_id = ? AND kind = 'summary'").get(userId) as MemoryRow | undefined;
+
+const listFacts = (userId: number) =>
+  (db().prepare("SELECT * FROM memories WHERE user_id = ? AND kind = 'fact' ORDER BY created_at DESC, id DESC").all(userId) as MemoryRow[]).map(toMemory);
+
+export const listMemories = (userId: number) => {
+  const summary = findSummary(userId);
+  return { summary: summary ? toMemory(summary) : null, facts: listFacts(userId) };
+};
+
+// The bounded context for a reply: the unsummarized tail of the conversation
+// plus the summary and kept facts, which outlive cleared conversations, and
+// any journal entries shared with MindfulMate.
+export const loadChatContext = (userId: number, conversationId: number): ChatContext => {
+  const rows = db()
+    .prepare(
+      `SELECT user_id, role, content FROM (
+         SELECT chats.* FROM chats JOIN conversations ON conversations.id = chats.conversation_id
+         WHERE chats.conversation_id = ? AND chats.id > conversations.summarized_through
+         ORDER BY chats.timestamp DESC, chats.id DESC LIMIT ?
+       ) ORDER BY timestamp ASC, id ASC`
+    )
+    .all(conversationId, RECENT_TURNS) as Pick<ChatRow, "user_id" | "role" | "content">[];
+  const summary = findSummary(userId);
+  const user = getPreferences(userId);
+  const facts = db()
+    .prepare("SELECT user_id, content FROM memories WHERE user_id = ? AND kind = 'fact' AND status = 'kept' ORDER BY created_at DESC, id DESC LIMIT ?")
+    .all(userId, MAX_PROMPT_FACTS) as Pick<MemoryRow, "user_id" | "content">[];
+  return {
+    history: rows.map(row => ({ role: row.role, content: decryptField(row.user_id, row.content)! })),
+    memory: {
+      summary: summary ? decryptField(userId, summary.content)! : null,
+      facts: facts.map(row => decryptField(userId, row.content)!),
+      journal: sharedJournalExcerpts(userId),
+    },
+    locale: user?.locale ?? "en",
+  };
+};
+
+const normalizeFact = (fact: string) => fact.toLowerCase().replace(/[^\p{L}\p{N} ]/gu, "").replace(/\s+/g, " ").trim();
+
+// Stores facts the model picked out as suggestions for the student to keep
+// or delete, skipping any already listed. Returns how many were added.
+export const suggestFacts = (userId: number, chatId: number, facts: unknown[]) => {
+  const known = new Set(listFacts(userId).map(f => normalizeFact(f.content)));
+  const insert = db().prepare("INSERT INTO memories (user_id, kind, content, chat_id) VALUES (?, 'fact', ?, ?)");
+  let added = 0;
+  for (const fact of facts) {
+    if (typeof fact !== "string") continue;
+    const text = fact.trim().slice(0, MAX_FACT_LENGTH);
+    const key = normalizeFact(text);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    insert.run(userId, encryptField(userId, text), chatId);
+    added++;
+  }
+  return added;
+};
+
+export const keepFact = (userId: number, id: number) =>
+  db()
+    .prepare("UPDATE memories SET status = 'kept', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND kind = 'fact'")
+    .run(id, userId).changes > 0;
+
+export const deleteMemory = (userId: number, id: number) =>
+  db().prepare("DELETE FROM memories WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+
+export const clearMemories = (userId: number) => {
+  db().prepare("DELETE FROM memories WHERE user_id = ?").run(userId);
+};
+
+// basedOnId is the summary the new one was written from. If the student
+// deleted it in the meantime, the new summary is dropped rather than
+// bringing back what they asked to forget.
+const saveSummary = transaction(
+  (userId: number, conversationId: number, summary: string, through: number, basedOnId: number | null) => {
+    const content = encryptField(userId, summary.slice(0, MAX_SUMMARY_LENGTH));
+    const existing = findSummary(userId);
+    if (existing && existing.id === basedOnId) {
+      db().prepare("UPDATE memories SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(content, existing.id);
+    } else if (!existing && basedOnId === null) {
+      db().prepare("INSERT INTO memories (user_id, kind, content, status) VALUES (?, 'summary', ?, 'kept')").run(userId, content);
+    }
+    db().prepare("UPDATE conversations SET summarized_through = ? WHERE id = ?").run(through, conversationId);
+  }
+);
+
+// Stands in for crisis messages, whose details must never be kept in the
+// summary that goes into every later prompt.
+const CRISIS_TURN = "A difficult moment, when crisis support was offered.";
+
+const compacting = new Set<number>();
+
+// Once enough messages have scrolled out of the recent window, folds them
+// into the student's summary. Runs after the reply has been sent.
+export const compactConversation = async (llm: LLMProvider, userId: number, conversationId: number) => {
+  if (compacting.has(conversationId)) return;
+  const rows = db()
+    .prepare(
+      `SELECT chats.id, chats.role, chats.content, chats.is_crisis FROM chats JOIN conversations ON conversations.id = chats.conversation_id
+       WHERE chats.conversation_id = ? AND chats.user_id = ? AND chats.id > conversations.summarized_through
+       ORDER BY chats.timestamp ASC, chats.id ASC`
+    )
+    .all(conversationId, userId) as { id: number; role: string; content: string; is_crisis: number }[];
+  if (rows.length < RECENT_TURNS + SUMMARY_BATCH) return;
+
+  const older = rows.slice(0, rows.length - RECENT_TURNS);
+  compacting.add(conversationId);
+  try {
+    const current = findSummary(userId);
+    const summary = await summarizeTurns(
+      llm,
+      current ? decryptField(userId, current.content)! : null,
+      older
+        .filter(row => !(row.is_crisis && row.role === "bot"))
+        .map(row => ({ role: row.role, content: row.is_crisis ? CRISIS_TURN : decryptField(userId, row.content)! }))
+    );
+    saveSummary(userId, conversationId, summary, older[older.length - 1].id, current?.id ?? null);
+  } finally {
+    compacting.delete(conversationId);
+  }
+};
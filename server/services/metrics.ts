@@ -0,0 +1,95 @@
+// A minimal Prometheus registry: counters and histograms kept in memory and
+// rendered in the text exposition format for GET /metrics. Values reset when
+// the server restarts, which Prometheus expects.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length ? `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(",")}}` : "";
+};
+
+export const createCounter = (name: string, help: string) => {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+  return {
+    inc: (labels: Labels = {}, by = 1) => {
+      const key = labelKey(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      values.set(key, entry);
+    },
+  };
+};
+
+// Buckets are upper bounds in seconds.
+export const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  });
+  return {
+    observe: (labels: Labels, seconds: number) => {
+      const key = labelKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bound, i) => {
+        if (seconds <= bound) entry.counts[i]++;
+      });
+      entry.sum += seconds;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+};
+
+export const renderMetrics = () => `${registry.flatMap(metric => metric.render()).join("\n")}\n`;
+
+// Seconds since a process.hrtime.bigint() reading.
+export const secondsSince = (start: bigint) => Number(process.hrtime.bigint() - start) / 1e9;
+
+export const httpRequestDuration = createHistogram(
+  "http_request_duration_seconds",
+  "Time to answer an HTTP request, by method, route and status.",
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+export const modelCallDuration = createHistogram(
+  "model_call_duration_seconds",
+  "Time the model took per call, by provider, operation and whether it failed over to the offline responder.",
+  [0.1, 0.25, 0.5, 1, 2, 4, 8, 15, 30, 60]
+);
+
+export const modelFallbacks = createCounter(
+  "model_fallbacks_total",
+  "Model calls answered by the offline responder because the provider failed, by provider and operation."
+);
+
+export const crisisDetections = createCounter(
+  "crisis_detections_total",
+  "Chat messages that the crisis screen answered with the safety response, by endpoint."
+);
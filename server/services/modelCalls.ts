@@ -0,0 +1,51 @@
+import { db } from "../db";
+import { describeError, log } from "./logger";
+import type { ModelCallStats } from "../../src/types";
+
+export type ModelOperation = "respond" | "stream" | "title" | "summarize";
+
+const KEEP_FOR = "-90 days";
+const MAX_ERROR_LENGTH = 200;
+
+// Records one call to the model and whether its offline fallback had to
+// answer instead. The error message is kept redacted the way the logger
+// redacts it, since a provider can quote the request or the output it choked
+// on. Bookkeeping never fails the reply it describes.
+export const recordModelCall = (provider: string, operation: ModelOperation, error?: unknown) => {
+  try {
+    const message =
+      error === undefined ? null : describeError(error instanceof Error ? error : new Error(String(error))).message.slice(0, MAX_ERROR_LENGTH);
+    db().prepare("DELETE FROM model_calls WHERE created_at < datetime('now', ?)").run(KEEP_FOR);
+    db().prepare("INSERT INTO model_calls (provider, operation, fell_back, error) VALUES (?, ?, ?, ?)").run(
+      provider,
+      operation,
+      error === undefined ? 0 : 1,
+      message
+    );
+  } catch (error) {
+    log.error("model_call_record_failed", { error });
+  }
+};
+
+// Per provider and operation over the last `days` days, with the most
+// common errors behind the fallbacks.
+export const modelCallStats = (days: number): ModelCallStats => {
+  const since = `-${days} days`;
+  const operations = (
+    db()
+      .prepare(
+        `SELECT provider, operation, COUNT(*) AS calls, SUM(fell_back) AS fallbacks
+         FROM model_calls WHERE created_at >= datetime('now', ?)
+         GROUP BY provider, operation ORDER BY provider, operation`
+      )
+      .all(since) as { provider: string; operation: ModelOperation; calls: number; fallbacks: number }[]
+  ).map(row => ({ ...row, fallbackRate: Math.round((row.fallbacks / row.calls) * 1000) / 1000 }));
+  const errors = db()
+    .prepare(
+      `SELECT provider, error, COUNT(*) AS count, MAX(created_at) AS last_seen
+       FROM model_calls WHERE fell_back = 1 AND created_at >= datetime('now', ?)
+       GROUP BY provider, error ORDER BY count DESC LIMIT 10`
+    )
+    .all(since) as ModelCallStats["errors"];
+  return { days, operations, errors };
+};
@@ -0,0 +1,194 @@
+import { db } from "../db";
+import { decryptField } from "./encryption";
+import { MOOD_VALUES } from "../../src/lib/moods";
+import { MOODS, type Mood, type MoodAnalytics } from "../../src/types";
+
+const NEGATIVE_MOODS = ["Stressed", "Sad", "Anxious", "Angry"];
+
+// Topics looked for in chat messages, so AI-inferred moods (which carry no
+// tags) can still be tied to what the student was talking about.
+const TOPICS: Record<string, RegExp> = {
+  exams: /\b(exams?|finals|midterms?|tests?|quiz|grades?|study|studying)\b/i,
+  sleep: /\b(sleep|slept|insomnia|tired|exhausted|awake)\b/i,
+  family: /\b(family|mom|mum|dad|parents?|brother|sister|home)\b/i,
+  friends: /\b(friends?|roommates?|lonely|alone)\b/i,
+  relationships: /\b(boyfriend|girlfriend|partner|relationship|breakup|broke up|crush|dating)\b/i,
+  money: /\b(money|rent|loans?|debt|bills?|tuition|broke)\b/i,
+  health: /\b(sick|ill|health|pain|doctor|anxiety|panic)\b/i,
+  work: /\b(job|work|shift|boss|internship)\b/i,
+};
+
+const TIME_OF_DAY: { label: string; from: number; to: number }[] = [
+  { label: "Morning", from: 5, to: 12 },
+  { label: "Afternoon", from: 12, to: 17 },
+  { label: "Evening", from: 17, to: 22 },
+  { label: "Night", from: 22, to: 29 },
+];
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface AnalyticsOptions {
+  from?: string;
+  to?: string;
+  // Minutes to subtract from UTC to get local time, as returned by Date#getTimezoneOffset.
+  tzOffset: number;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validates the from/to/tzOffset query parameters shared by the analytics endpoints.
+export const parseAnalyticsQuery = (query: any): { options: AnalyticsOptions; error?: undefined } | { options?: undefined; error: string } => {
+  const { from, to } = query;
+  const tzOffset = query.tzOffset === undefined ? 0 : Number(query.tzOffset);
+  if ((from !== undefined && !DATE.test(from)) || (to !== undefined && !DATE.test(to))) {
+    return { error: "Dates must use the YYYY-MM-DD format" };
+  }
+  if (from && to && from > to) {
+    return { error: "The start date must not be after the end date" };
+  }
+  if (!Number.isInteger(tzOffset) || Math.abs(tzOffset) > 14 * 60) {
+    return { error: "tzOffset must be a whole number of minutes" };
+  }
+  return { options: { from, to, tzOffset } };
+};
+
+interface Entry {
+  mood: string;
+  value: number;
+  source: string;
+  tags: string[];
+  local: Date;
+  day: string;
+}
+
+const average = (values: number[]) =>
+  values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : null;
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (day: string, n: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + n);
+  return dayKey(date);
+};
+
+const groupAverage = <K extends string>(entries: Entry[], key: (e: Entry) => K) => {
+  const groups = new Map<K, number[]>();
+  for (const entry of entries) {
+    const k = key(entry);
+    groups.set(k, [...(groups.get(k) || []), entry.value]);
+  }
+  return groups;
+};
+
+const loadEntries = (userId: number, tzOffset: number, chatTopics: boolean): Entry[] => {
+  const rows = db()
+    .prepare(
+      `SELECT moods.mood, moods.source, moods.tags, moods.timestamp, chats.content
+       FROM moods LEFT JOIN chats ON chats.id = moods.chat_id
+       WHERE moods.user_id = ? ORDER BY moods.timestamp ASC, moods.id ASC`
+    )
+    .all(userId) as { mood: string; source: string; tags: string | null; timestamp: string; content: string | null }[];
+
+  // Dates are shifted into the student's local time and then read with the
+  // UTC getters, so "day" and "hour" mean what the student saw on the clock.
+  return rows
+    .map(row => {
+      const local = new Date(new Date(`${row.timestamp.replace(" ", "T")}Z`).getTime() - tzOffset * 60_000);
+      const tags: string[] = row.tags ? JSON.parse(row.tags) : [];
+      const content = chatTopics ? decryptField(userId, row.content) : null;
+      if (content) {
+        for (const [topic, pattern] of Object.entries(TOPICS)) {
+          if (pattern.test(content)) tags.push(topic);
+        }
+      }
+      return { mood: row.mood, value: MOOD_VALUES[row.mood] ?? 3, source: row.source, tags, local, day: dayKey(local) };
+    });
+};
+
+const computeStreaks = (days: string[], today: string) => {
+  const unique = [...new Set(days)].sort();
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < unique.length; i++) {
+    run = i > 0 && addDays(unique[i - 1], 1) === unique[i] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The current streak survives until the end of today even without a check-in yet.
+  let current = 0;
+  const set = new Set(unique);
+  let cursor = set.has(today) ? today : addDays(today, -1);
+  while (set.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+};
+
+// Without chatTopics, triggers come from check-in tags only, for viewers who
+// may see the student's moods but not what they said in chat.
+export const computeMoodAnalytics = (userId: number, { from, to, tzOffset }: AnalyticsOptions, { chatTopics = true } = {}): MoodAnalytics => {
+  const all = loadEntries(userId, tzOffset, chatTopics);
+  const entries = all.filter(e => (!from || e.day >= from) && (!to || e.day <= to));
+  const today = dayKey(new Date(Date.now() - tzOffset * 60_000));
+
+  const daily = [...groupAverage(entries, e => e.day)].map(([date, values]) => ({
+    date,
+    average: average(values),
+    count: values.length,
+  }));
+
+  // Weeks start on Monday.
+  const weekly = [...groupAverage(entries, e => addDays(e.day, -((e.local.getUTCDay() + 6) % 7)))].map(
+    ([weekStart, values]) => ({ weekStart, average: average(values), count: values.length })
+  );
+
+  const distribution = Object.fromEntries(MOODS.map(m => [m, entries.filter(e => e.mood === m).length])) as Record<Mood, number>;
+
+  const byHour = groupAverage(entries, e => {
+    const hour = e.local.getUTCHours();
+    return TIME_OF_DAY.find(b => (hour >= b.from && hour < b.to) || (hour + 24 >= b.from && hour + 24 < b.to))!.label;
+  });
+  const timeOfDay = TIME_OF_DAY.map(({ label }) => ({
+    label,
+    average: average(byHour.get(label) || []),
+    count: byHour.get(label)?.length || 0,
+  }));
+
+  const byWeekday = groupAverage(entries, e => DAYS[e.local.getUTCDay()]);
+  const dayOfWeek = DAYS.map(label => ({
+    label,
+    average: average(byWeekday.get(label) || []),
+    count: byWeekday.get(label)?.length || 0,
+  }));
+
+  const tagCounts = new Map<string, { total: number; negative: number }>();
+  for (const entry of entries) {
+    for (const tag of new Set(entry.tags)) {
+      const counts = tagCounts.get(tag) || { total: 0, negative: 0 };
+      counts.total++;
+      if (NEGATIVE_MOODS.includes(entry.mood)) counts.negative++;
+      tagCounts.set(tag, counts);
+    }
+  }
+  const triggers = [...tagCounts]
+    .filter(([, c]) => c.negative > 0)
+    .map(([tag, c]) => ({ tag, ...c, negativeRate: Math.round((c.negative / c.total) * 100) / 100 }))
+    .sort((a, b) => b.negative - a.negative || b.negativeRate - a.negativeRate)
+    .slice(0, 10);
+
+  return {
+    range: { from: from ?? entries[0]?.day ?? null, to: to ?? today },
+    total: entries.length,
+    average: average(entries.map(e => e.value)),
+    daily,
+    weekly,
+    distribution,
+    // Streaks span all check-ins, not just the selected range.
+    streaks: computeStreaks(all.filter(e => e.source === "self").map(e => e.day), today),
+    timeOfDay,
+    dayOfWeek,
+    triggers,
+  };
+};
@@ -0,0 +1,177 @@
+import { LOCALES, MOODS, type Locale, type Mood } from "../../src/types";
+import type { ChatContext, LLMProvider } from "./llm";
+import type { CrisisDetector } from "./crisis";
+
+// One line of an evaluation dataset: a student message and the mood a person
+// labelled it with. crisis marks messages the safety screen must catch.
+export interface LabelledMessage {
+  id: string;
+  text: string;
+  mood: Mood;
+  crisis: boolean;
+  locale: Locale;
+}
+
+export interface Prediction {
+  id: string;
+  text: string;
+  expected: Mood;
+  // Null when the classifier failed on this message.
+  predicted: Mood | null;
+  crisisExpected: boolean;
+  crisisDetected: boolean;
+  error?: string;
+}
+
+export interface ClassMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  support: number;
+}
+
+export interface EvaluationReport {
+  classifier: { provider: string; model: string | null };
+  dataset: { file: string; sha256: string; examples: number };
+  accuracy: number | null;
+  macroF1: number | null;
+  perClass: Record<Mood, ClassMetrics>;
+  // Rows are the labelled mood, columns the predicted one; "error" counts
+  // messages the classifier failed on.
+  confusionMatrix: Record<Mood, Record<Mood | "error", number>>;
+  crisis: {
+    recall: number | null;
+    precision: number | null;
+    truePositives: number;
+    falseNegatives: number;
+    falsePositives: number;
+    missed: { id: string; text: string }[];
+    falseAlarms: { id: string; text: string }[];
+  };
+  errors: { id: string; error: string }[];
+  misclassified: { id: string; text: string; expected: Mood; predicted: Mood }[];
+}
+
+// Parses a JSONL dataset: one {"text", "mood", "crisis"?, "locale"?, "id"?}
+// object per line. Blank lines are skipped; ids default to the line number.
+export const parseDataset = (jsonl: string): { examples: LabelledMessage[]; error?: undefined } | { examples?: undefined; error: string } => {
+  const examples: LabelledMessage[] = [];
+  const ids = new Set<string>();
+  const lines = jsonl.split(/\r?\n/);
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    const where = `Line ${index + 1}`;
+    let row: any;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      return { error: `${where} is not valid JSON` };
+    }
+    if (typeof row?.text !== "string" || !row.text.trim()) return { error: `${where} needs some text` };
+    if (!MOODS.includes(row.mood)) return { error: `${where}: mood must be one of ${MOODS.join(", ")}` };
+    if (row.crisis !== undefined && typeof row.crisis !== "boolean") return { error: `${where}: crisis must be true or false` };
+    if (row.locale !== undefined && !LOCALES.includes(row.locale)) return { error: `${where}: locale must be one of ${LOCALES.join(", ")}` };
+    const id = row.id === undefined ? String(index + 1) : String(row.id);
+    if (ids.has(id)) return { error: `${where} repeats the id ${id}` };
+    ids.add(id);
+    examples.push({ id, text: row.text, mood: row.mood, crisis: row.crisis ?? false, locale: row.locale ?? "en" });
+  }
+  if (!examples.length) return { error: "The dataset has no examples" };
+  return { examples };
+};
+
+const emptyContext = (locale: Locale): ChatContext => ({ history: [], memory: { summary: null, facts: [], journal: [] }, locale });
+
+// Runs each message through the same path as a new chat: the crisis screen
+// first, whose hits are recorded as Sad without asking the model, then the
+// provider on its own, with no history or memory. Provider failures are kept
+// as errors rather than replaced by the offline fallback the app would use.
+export const classifyExamples = async (
+  provider: LLMProvider,
+  detector: CrisisDetector,
+  examples: LabelledMessage[],
+  onProgress: (done: number) => void = () => {}
+): Promise<Prediction[]> => {
+  const predictions: Prediction[] = [];
+  for (const example of examples) {
+    const crisisDetected = detector.detect(example.text).isCrisis;
+    const prediction: Prediction = {
+      id: example.id,
+      text: example.text,
+      expected: example.mood,
+      predicted: null,
+      crisisExpected: example.crisis,
+      crisisDetected,
+    };
+    if (crisisDetected) {
+      prediction.predicted = "Sad";
+    } else {
+      try {
+        prediction.predicted = (await provider.respond(example.text, emptyContext(example.locale))).mood;
+      } catch (e) {
+        prediction.error = e instanceof Error ? e.message : String(e);
+      }
+    }
+    predictions.push(prediction);
+    onProgress(predictions.length);
+  }
+  return predictions;
+};
+
+// Four decimal places keep reports stable enough to diff.
+const ratio = (part: number, whole: number) => (whole ? Math.round((part / whole) * 10000) / 10000 : null);
+
+const f1 = (precision: number | null, recall: number | null) =>
+  precision === null || recall === null ? null : precision + recall ? Math.round(((2 * precision * recall) / (precision + recall)) * 10000) / 10000 : 0;
+
+export const buildReport = (
+  predictions: Prediction[],
+  classifier: EvaluationReport["classifier"],
+  dataset: EvaluationReport["dataset"]
+): EvaluationReport => {
+  const confusionMatrix = Object.fromEntries(
+    MOODS.map(actual => [actual, Object.fromEntries([...MOODS, "error"].map(predicted => [predicted, 0]))])
+  ) as EvaluationReport["confusionMatrix"];
+  for (const p of predictions) confusionMatrix[p.expected][p.predicted ?? "error"]++;
+
+  const perClass = Object.fromEntries(
+    MOODS.map(mood => {
+      const truePositives = confusionMatrix[mood][mood];
+      const support = predictions.filter(p => p.expected === mood).length;
+      const predicted = predictions.filter(p => p.predicted === mood).length;
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      return [mood, { precision, recall, f1: f1(precision, recall), support }];
+    })
+  ) as Record<Mood, ClassMetrics>;
+
+  // Averaged over the moods the dataset has examples of.
+  const scored = MOODS.map(mood => perClass[mood]).filter(m => m.support > 0 && m.f1 !== null);
+  const macroF1 = scored.length ? Math.round((scored.reduce((sum, m) => sum + m.f1!, 0) / scored.length) * 10000) / 10000 : null;
+
+  const crisisHits = predictions.filter(p => p.crisisExpected && p.crisisDetected).length;
+  const missed = predictions.filter(p => p.crisisExpected && !p.crisisDetected);
+  const falseAlarms = predictions.filter(p => !p.crisisExpected && p.crisisDetected);
+
+  return {
+    classifier,
+    dataset,
+    accuracy: ratio(predictions.filter(p => p.predicted === p.expected).length, predictions.length),
+    macroF1,
+    perClass,
+    confusionMatrix,
+    crisis: {
+      recall: ratio(crisisHits, crisisHits + missed.length),
+      precision: ratio(crisisHits, crisisHits + falseAlarms.length),
+      truePositives: crisisHits,
+      falseNegatives: missed.length,
+      falsePositives: falseAlarms.length,
+      missed: missed.map(({ id, text }) => ({ id, text })),
+      falseAlarms: falseAlarms.map(({ id, text }) => ({ id, text })),
+    },
+    errors: predictions.filter(p => p.error).map(p => ({ id: p.id, error: p.error! })),
+    misclassified: predictions
+      .filter(p => p.predicted && p.predicted !== p.expected)
+      .map(p => ({ id: p.id, text: p.text, expected: p.expected, predicted: p.predicted! })),
+  };
+};
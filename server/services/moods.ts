@@ -0,0 +1,8 @@
+import { decryptField } from "./encryption";
+import type { MoodRow } from "../repositories/moods";
+
+export const toMoodEntry = ({ tags, user_id, ...row }: MoodRow) => ({
+  ...row,
+  note: decryptField(user_id, row.note),
+  tags: tags ? JSON.parse(tags) : [],
+});
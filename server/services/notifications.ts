@@ -0,0 +1,61 @@
+import { db } from "../db";
+import type { PushMessage, PushSender, PushSubscriptionKeys } from "./push";
+import { log } from "./logger";
+
+const LIST_LIMIT = 50;
+
+export type Notify = (userId: number, message: PushMessage, reminderId?: number) => Promise<void>;
+
+const toNotification = ({ user_id, reminder_id, ...row }: any) => row;
+
+export const listNotifications = (userId: number) =>
+  db()
+    .prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?")
+    .all(userId, LIST_LIMIT)
+    .map(toNotification);
+
+export const markNotificationRead = (userId: number, id: number) =>
+  db().prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND read_at IS NULL").run(id, userId).changes > 0;
+
+export const markAllNotificationsRead = (userId: number) => {
+  db().prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL").run(userId);
+};
+
+// A browser re-subscribing with the same endpoint replaces its old keys, even
+// if another account used that browser before.
+export const saveSubscription = (userId: number, { endpoint, p256dh, auth }: PushSubscriptionKeys) => {
+  db().prepare(
+    `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth) VALUES (?, ?, ?, ?)
+     ON CONFLICT(endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth`
+  ).run(userId, endpoint, p256dh, auth);
+};
+
+export const deleteSubscription = (userId: number, endpoint: string) => {
+  db().prepare("DELETE FROM push_subscriptions WHERE user_id = ? AND endpoint = ?").run(userId, endpoint);
+};
+
+// Every notification is kept in-app; with push configured it also goes to
+// each browser the student subscribed. A failed push never loses the in-app copy.
+export const createNotifier = (push: PushSender | null): Notify => async (userId, message, reminderId) => {
+  db().prepare("INSERT INTO notifications (user_id, reminder_id, title, body, url) VALUES (?, ?, ?, ?, ?)").run(
+    userId,
+    reminderId ?? null,
+    message.title,
+    message.body,
+    message.url
+  );
+  if (!push) return;
+
+  const subscriptions = db().prepare("SELECT * FROM push_subscriptions WHERE user_id = ?").all(userId) as (PushSubscriptionKeys & { id: number })[];
+  await Promise.all(
+    subscriptions.map(async subscription => {
+      try {
+        if (!(await push.send(subscription, message))) {
+          db().prepare("DELETE FROM push_subscriptions WHERE id = ?").run(subscription.id);
+        }
+      } catch (error) {
+        log.error("push_send_failed", { subscriptionId: subscription.id, error });
+      }
+    })
+  );
+};
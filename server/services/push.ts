@@ -0,0 +1,41 @@
+import webpush from "web-push";
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface PushSender {
+  publicKey: string;
+  // Resolves false when the browser has dropped the subscription for good,
+  // so the caller can forget it.
+  send(subscription: PushSubscriptionKeys, message: PushMessage): Promise<boolean>;
+}
+
+// Web Push needs a VAPID key pair (`npm run push:keys`). Without one, reminders
+// are delivered as in-app notifications only.
+export const createPushSenderFromEnv = (env = process.env): PushSender | null => {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+  const subject = env.VAPID_SUBJECT || "mailto:support@mindfulmate.local";
+  webpush.setVapidDetails(subject, env.VAPID_PUBLIC_KEY, env.VAPID_PRIVATE_KEY);
+
+  return {
+    publicKey: env.VAPID_PUBLIC_KEY,
+    async send({ endpoint, p256dh, auth }, message) {
+      try {
+        await webpush.sendNotification({ endpoint, keys: { p256dh, auth } }, JSON.stringify(message), { TTL: 60 * 60 });
+        return true;
+      } catch (error: any) {
+        if (error?.statusCode === 404 || error?.statusCode === 410) return false;
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,319 @@
+import { db, transaction } from "../db";
+import { REMINDER_ACTIVITIES, REMINDER_KINDS, type ReminderActivity, type ReminderKind, type ReminderSettings } from "../../src/types";
+import type { PushMessage } from "./push";
+import type { Notify } from "./notifications";
+import { log } from "./logger";
+import type { UserRow } from "../repositories/users";
+import { addDays, isLocalDate, isTimeOfDay, isTimeZone, localParts, minutesOfDay, zonedTime } from "./timezone";
+
+export const MAX_REMINDERS = 20;
+const MIN_INTERVAL_MINUTES = 15;
+const MAX_INTERVAL_MINUTES = 24 * 60;
+const MAX_INACTIVITY_DAYS = 30;
+// Inactivity reminders look at the student's last check-in this often.
+const INACTIVITY_CHECK_MS = 60 * 60 * 1000;
+const TICK_MS = 60 * 1000;
+
+const MESSAGES: Record<ReminderActivity, PushMessage> = {
+  "check-in": {
+    title: "Time for a check-in",
+    body: "How are you feeling right now? A quick check-in only takes a moment.",
+    url: "/?open=check-in",
+  },
+  breathing: {
+    title: "Breathing break",
+    body: "Step away for a minute of slow, steady breathing.",
+    url: "/?exercise=box-breathing",
+  },
+  chat: {
+    title: "MindfulMate is here",
+    body: "Want to talk about how things are going?",
+    url: "/",
+  },
+};
+
+const inactivityMessage = (days: number): PushMessage => ({
+  title: "Checking in on you",
+  body: `It's been ${days} days since your last check-in. How are you doing?`,
+  url: "/?open=check-in",
+});
+
+// Stored in the same "YYYY-MM-DD HH:MM:SS" UTC form as CURRENT_TIMESTAMP, so
+// the two compare correctly in SQL.
+const toSqlTime = (instant: number) => new Date(instant).toISOString().replace("T", " ").slice(0, 19);
+const fromSqlTime = (value: string) => Date.parse(`${value.replace(" ", "T")}Z`);
+
+// A row of the reminders table. Which of the kind-specific columns are set
+// depends on kind; times of day and ends_on are in the student's time zone.
+export interface ReminderRow {
+  id: number;
+  user_id: number;
+  kind: ReminderKind;
+  activity: ReminderActivity;
+  time_of_day: string | null;
+  interval_minutes: number | null;
+  window_start: string | null;
+  window_end: string | null;
+  ends_on: string | null;
+  inactivity_days: number | null;
+  enabled: number;
+  next_run_at: string | null;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+const toReminder = ({ user_id, enabled, ...row }: ReminderRow) => ({ ...row, enabled: !!enabled });
+
+export const getReminderSettings = (userId: number): ReminderSettings => {
+  const row = db().prepare("SELECT timezone, quiet_hours_start, quiet_hours_end FROM users WHERE id = ?").get(userId) as
+    | Pick<UserRow, "timezone" | "quiet_hours_start" | "quiet_hours_end">
+    | undefined;
+  return {
+    timezone: row?.timezone || "UTC",
+    quietHoursStart: row?.quiet_hours_start ?? null,
+    quietHoursEnd: row?.quiet_hours_end ?? null,
+  };
+};
+
+export const parseReminderSettings = (body: any): { settings: ReminderSettings } | { error: string } => {
+  const { timezone, quietHoursStart = null, quietHoursEnd = null } = body;
+  if (!isTimeZone(timezone)) return { error: "Unknown time zone" };
+  if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+    return { error: "Quiet hours need both a start and an end" };
+  }
+  if (quietHoursStart !== null && (!isTimeOfDay(quietHoursStart) || !isTimeOfDay(quietHoursEnd) || quietHoursStart === quietHoursEnd)) {
+    return { error: "Quiet hours must be two different times in HH:MM format" };
+  }
+  return { settings: { timezone, quietHoursStart, quietHoursEnd } };
+};
+
+// Validates a reminder from a request body and returns its column values.
+export const parseReminder = (body: any): { reminder: Record<string, unknown> } | { error: string } => {
+  const { kind, activity = "check-in" } = body;
+  if (!REMINDER_KINDS.includes(kind)) {
+    return { error: `Kind must be one of ${REMINDER_KINDS.join(", ")}` };
+  }
+  if (!REMINDER_ACTIVITIES.includes(activity)) {
+    return { error: `Activity must be one of ${REMINDER_ACTIVITIES.join(", ")}` };
+  }
+  const reminder: Record<string, unknown> = {
+    kind,
+    activity,
+    time_of_day: null,
+    interval_minutes: null,
+    window_start: null,
+    window_end: null,
+    ends_on: null,
+    inactivity_days: null,
+  };
+
+  if (kind === "daily") {
+    if (!isTimeOfDay(body.timeOfDay)) return { error: "Time must be in HH:MM format" };
+    reminder.time_of_day = body.timeOfDay;
+  } else if (kind === "interval") {
+    const { intervalMinutes, windowStart = null, windowEnd = null, endsOn = null } = body;
+    if (!Number.isInteger(intervalMinutes) || intervalMinutes < MIN_INTERVAL_MINUTES || intervalMinutes > MAX_INTERVAL_MINUTES) {
+      return { error: `Interval must be between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES} minutes` };
+    }
+    if ((windowStart === null) !== (windowEnd === null)) {
+      return { error: "Active hours need both a start and an end" };
+    }
+    if (windowStart !== null && (!isTimeOfDay(windowStart) || !isTimeOfDay(windowEnd) || windowStart === windowEnd)) {
+      return { error: "Active hours must be two different times in HH:MM format" };
+    }
+    if (endsOn !== null && !isLocalDate(endsOn)) return { error: "End date must be in YYYY-MM-DD format" };
+    Object.assign(reminder, { interval_minutes: intervalMinutes, window_start: windowStart, window_end: windowEnd, ends_on: endsOn });
+  } else {
+    const { inactivityDays } = body;
+    if (!Number.isInteger(inactivityDays) || inactivityDays < 1 || inactivityDays > MAX_INACTIVITY_DAYS) {
+      return { error: `Days must be between 1 and ${MAX_INACTIVITY_DAYS}` };
+    }
+    // Nudges are always about checking in.
+    Object.assign(reminder, { activity: "check-in", inactivity_days: inactivityDays });
+  }
+  return { reminder };
+};
+
+// Whether a time of day (in minutes) falls in [start, end), a range that may
+// wrap past midnight.
+const inRange = (minutes: number, start: string, end: string) => {
+  const from = minutesOfDay(start);
+  const to = minutesOfDay(end);
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+};
+
+// The next time the clock shows `time` at or after the instant.
+const nextLocalTime = (instant: number, time: string, timeZone: string) => {
+  const { date } = localParts(instant, timeZone);
+  const today = zonedTime(date, minutesOfDay(time), timeZone);
+  return today >= instant ? today : zonedTime(addDays(date, 1), minutesOfDay(time), timeZone);
+};
+
+const quietUntil = (instant: number, settings: ReminderSettings) => {
+  const { quietHoursStart, quietHoursEnd, timezone } = settings;
+  if (!quietHoursStart || !quietHoursEnd) return null;
+  return inRange(localParts(instant, timezone).minutes, quietHoursStart, quietHoursEnd)
+    ? nextLocalTime(instant, quietHoursEnd, timezone)
+    : null;
+};
+
+// When the reminder should next fire after the given instant, moved out of
+// quiet hours and into its active hours, or null once it has ended.
+export const nextRunAt = (
+  reminder: Pick<ReminderRow, "kind" | "time_of_day" | "interval_minutes" | "window_start" | "window_end" | "ends_on">,
+  settings: ReminderSettings,
+  after: number
+): number | null => {
+  const { timezone } = settings;
+  let next =
+    reminder.kind === "daily" ? nextLocalTime(after + 1000, reminder.time_of_day!, timezone)
+    : reminder.kind === "interval" ? after + reminder.interval_minutes! * 60_000
+    : after + INACTIVITY_CHECK_MS;
+
+  // Moving out of quiet hours can land outside the active hours and vice
+  // versa, so adjust until neither applies; a few rounds always settle it.
+  for (let round = 0; round < 4; round++) {
+    let moved = quietUntil(next, settings);
+    if (moved === null && reminder.window_start && !inRange(localParts(next, timezone).minutes, reminder.window_start, reminder.window_end)) {
+      moved = nextLocalTime(next, reminder.window_start, timezone);
+    }
+    if (moved === null) break;
+    next = moved;
+  }
+
+  if (reminder.ends_on && localParts(next, timezone).date > reminder.ends_on) return null;
+  return next;
+};
+
+const schedule = (reminder: ReminderRow, settings: ReminderSettings, after: number) => {
+  const next = nextRunAt(reminder, settings, after);
+  db().prepare("UPDATE reminders SET next_run_at = ?, enabled = ? WHERE id = ?").run(
+    next === null ? null : toSqlTime(next),
+    next === null ? 0 : reminder.enabled,
+    reminder.id
+  );
+};
+
+export const getReminder = (userId: number, id: number) =>
+  db().prepare("SELECT * FROM reminders WHERE id = ? AND user_id = ?").get(id, userId) as ReminderRow | undefined;
+
+export const listReminders = (userId: number) =>
+  (db().prepare("SELECT * FROM reminders WHERE user_id = ? ORDER BY created_at, id").all(userId) as ReminderRow[]).map(toReminder);
+
+export const countReminders = (userId: number) =>
+  (db().prepare("SELECT COUNT(*) AS count FROM reminders WHERE user_id = ?").get(userId) as { count: number }).count;
+
+export const createReminder = (userId: number, fields: Record<string, unknown>) => {
+  const columns = Object.keys(fields);
+  const info = db()
+    .prepare(`INSERT INTO reminders (user_id, ${columns.join(", ")}) VALUES (?, ${columns.map(() => "?").join(", ")})`)
+    .run(userId, ...Object.values(fields));
+  const reminder = getReminder(userId, Number(info.lastInsertRowid))!;
+  schedule(reminder, getReminderSettings(userId), Date.now());
+  return toReminder(getReminder(userId, reminder.id)!);
+};
+
+export const setReminderEnabled = (userId: number, id: number, enabled: boolean) => {
+  const reminder = getReminder(userId, id);
+  if (!reminder) return null;
+  if (enabled) {
+    schedule({ ...reminder, enabled: 1 }, getReminderSettings(userId), Date.now());
+  } else {
+    db().prepare("UPDATE reminders SET enabled = 0, next_run_at = NULL WHERE id = ?").run(id);
+  }
+  return toReminder(getReminder(userId, id)!);
+};
+
+export const deleteReminder = (userId: number, id: number) =>
+  db().prepare("DELETE FROM reminders WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+
+// Changing the time zone or quiet hours reschedules every active reminder.
+export const saveReminderSettings = transaction((userId: number, settings: ReminderSettings) => {
+  db().prepare("UPDATE users SET timezone = ?, quiet_hours_start = ?, quiet_hours_end = ? WHERE id = ?").run(
+    settings.timezone,
+    settings.quietHoursStart,
+    settings.quietHoursEnd,
+    userId
+  );
+  const now = Date.now();
+  for (const reminder of db().prepare("SELECT * FROM reminders WHERE user_id = ? AND enabled = 1").all(userId) as ReminderRow[]) {
+    schedule(reminder, settings, now);
+  }
+});
+
+// An inactivity reminder fires once the student has gone its number of days
+// without a check-in, counting from their last check-in, the last nudge or
+// when the reminder was set up, whichever is latest.
+const isInactive = (reminder: ReminderRow, now: number) => {
+  const { last } = db().prepare("SELECT MAX(timestamp) AS last FROM moods WHERE user_id = ? AND source = 'self'").get(reminder.user_id) as {
+    last: string | null;
+  };
+  const since = Math.max(...[last, reminder.last_sent_at, reminder.created_at].filter(Boolean).map(fromSqlTime));
+  return now - since >= reminder.inactivity_days! * 86_400_000;
+};
+
+export const runDueReminders = async (notify: Notify, now = Date.now()) => {
+  const due = db()
+    .prepare(
+      `SELECT reminders.*, users.timezone, users.quiet_hours_start, users.quiet_hours_end
+       FROM reminders JOIN users ON users.id = reminders.user_id
+       WHERE reminders.enabled = 1 AND reminders.next_run_at <= ?`
+    )
+    .all(toSqlTime(now)) as (ReminderRow & Pick<UserRow, "timezone" | "quiet_hours_start" | "quiet_hours_end">)[];
+
+  for (const reminder of due) {
+    const settings: ReminderSettings = {
+      timezone: reminder.timezone || "UTC",
+      quietHoursStart: reminder.quiet_hours_start,
+      quietHoursEnd: reminder.quiet_hours_end,
+    };
+    // Quiet hours may have been set after this run was scheduled.
+    const quietEnd = quietUntil(now, settings);
+    if (quietEnd !== null) {
+      db().prepare("UPDATE reminders SET next_run_at = ? WHERE id = ?").run(toSqlTime(quietEnd), reminder.id);
+      continue;
+    }
+
+    const send = reminder.kind !== "inactivity" || isInactive(reminder, now);
+    if (send) {
+      const message = reminder.kind === "inactivity" ? inactivityMessage(reminder.inactivity_days!) : MESSAGES[reminder.activity];
+      db().prepare("UPDATE reminders SET last_sent_at = ? WHERE id = ?").run(toSqlTime(now), reminder.id);
+      try {
+        await notify(reminder.user_id, message, reminder.id);
+      } catch (error) {
+        log.error("reminder_delivery_failed", { reminderId: reminder.id, error });
+      }
+    }
+    schedule(reminder, settings, now);
+  }
+};
+
+// Checks for due reminders once a minute. Ticks never overlap, so a slow push
+// service cannot cause a reminder to be sent twice.
+export const createReminderScheduler = (notify: Notify, intervalMs = TICK_MS) => {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueReminders(notify);
+    } catch (error) {
+      log.error("reminder_scheduler_failed", { error });
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    start() {
+      if (!timer) timer = setInterval(tick, intervalMs);
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    tick,
+  };
+};
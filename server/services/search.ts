@@ -0,0 +1,140 @@
+import type Database from "better-sqlite3";
+import { db } from "../db";
+import { decryptField } from "./encryption";
+import type { AnalyticsOptions } from "./moodAnalytics";
+import type { ChatRow } from "../repositories/chats";
+import type { Mood, SnippetPart } from "../../src/types";
+
+// Message content is encrypted at rest, so the full-text index can't be kept
+// in the database file. It lives in an attached in-memory database instead,
+// filled with the student's decrypted messages for each search and emptied
+// again as soon as the query has run, so no decrypted text is left behind.
+// The trigram tokenizer matches inside words and works for languages written
+// without spaces. It is attached to each database on its first search.
+const attached = new WeakSet<Database.Database>();
+
+const attachIndex = () => {
+  const database = db();
+  if (attached.has(database)) return;
+  database.exec(`
+    ATTACH DATABASE ':memory:' AS search;
+    CREATE VIRTUAL TABLE search.chat_index USING fts5(content, user_id UNINDEXED, tokenize = 'trigram remove_diacritics 1');
+  `);
+  attached.add(database);
+};
+
+// Shorter terms can't use the trigram index and are matched with LIKE.
+export const MIN_TERM_LENGTH = 3;
+const SNIPPET_TOKENS = 48;
+const HIT_START = "\u0002";
+const HIT_END = "\u0003";
+
+const fillIndex = (userId: number) => {
+  attachIndex();
+  const rows = db().prepare("SELECT id, content FROM chats WHERE user_id = ? ORDER BY id").all(userId) as Pick<ChatRow, "id" | "content">[];
+  db().transaction(() => {
+    const insert = db().prepare("INSERT INTO search.chat_index (rowid, content, user_id) VALUES (?, ?, ?)");
+    for (const row of rows) insert.run(row.id, decryptField(userId, row.content) ?? "", userId);
+  })();
+};
+
+const emptyIndex = (userId: number) => {
+  db().prepare("DELETE FROM search.chat_index WHERE user_id = ?").run(userId);
+};
+
+// Words, or "quoted phrases", from a search box.
+export const parseSearchTerms = (query: string) =>
+  [...query.matchAll(/"([^"]+)"|(\S+)/g)].map(m => (m[1] ?? m[2]).trim()).filter(Boolean);
+
+export interface SearchOptions extends AnalyticsOptions {
+  role?: "user" | "bot";
+  mood?: Mood;
+  conversationId?: number;
+  limit: number;
+}
+
+const toSnippet = (snippet: string): SnippetPart[] =>
+  snippet
+    .split(HIT_START)
+    .flatMap((chunk, i) => {
+      if (i === 0) return [{ text: chunk, hit: false }];
+      const [hit, rest] = chunk.split(HIT_END);
+      return [{ text: hit, hit: true }, { text: rest ?? "", hit: false }];
+    })
+    .filter(part => part.text);
+
+// A matching message as the query returns it. conversation_title is still
+// encrypted and snippet still carries the hit markers.
+interface SearchRow extends Pick<ChatRow, "id" | "conversation_id" | "role" | "timestamp"> {
+  conversation_title: string | null;
+  mood: Mood | null;
+  snippet: string;
+  rank: number;
+}
+
+// A bot reply carries the mood inferred from the message it answered.
+const MOOD_OF_MESSAGE = `(
+  SELECT moods.mood FROM moods WHERE moods.source = 'ai' AND moods.chat_id = CASE chats.role
+    WHEN 'user' THEN chats.id
+    ELSE (SELECT max(asked.id) FROM chats AS asked WHERE asked.conversation_id = chats.conversation_id AND asked.role = 'user' AND asked.id < chats.id)
+  END
+)`;
+
+const queryIndex = (userId: number, terms: string[], options: SearchOptions) => {
+  const indexable = terms.filter(t => [...t].length >= MIN_TERM_LENGTH);
+  const short = terms.filter(t => [...t].length < MIN_TERM_LENGTH);
+  const conditions = ["chat_index MATCH ?", ...short.map(() => "chat_index.content LIKE ? ESCAPE '\\'")];
+  const params: unknown[] = [
+    userId,
+    indexable.map(t => `"${t.replace(/"/g, '""')}"`).join(" "),
+    ...short.map(t => `%${t.replace(/[\\%_]/g, c => `\\${c}`)}%`),
+  ];
+  if (options.role) {
+    conditions.push("chats.role = ?");
+    params.push(options.role);
+  }
+  if (options.conversationId !== undefined) {
+    conditions.push("chats.conversation_id = ?");
+    params.push(options.conversationId);
+  }
+  // Dates are the student's local dates, as for mood analytics.
+  const localDate = "date(chats.timestamp, ? || ' minutes')";
+  if (options.from) {
+    conditions.push(`${localDate} >= ?`);
+    params.push(-options.tzOffset, options.from);
+  }
+  if (options.to) {
+    conditions.push(`${localDate} <= ?`);
+    params.push(-options.tzOffset, options.to);
+  }
+
+  const rows = db()
+    .prepare(
+      `SELECT * FROM (
+         SELECT chats.id, chats.conversation_id, conversations.title AS conversation_title, chats.role, chats.timestamp,
+           ${MOOD_OF_MESSAGE} AS mood,
+           snippet(chat_index, 0, char(2), char(3), '…', ${SNIPPET_TOKENS}) AS snippet,
+           chat_index.rank
+         FROM search.chat_index
+         JOIN main.chats ON chats.id = chat_index.rowid AND chats.user_id = ?
+         JOIN conversations ON conversations.id = chats.conversation_id
+         WHERE ${conditions.join(" AND ")}
+       )
+       ${options.mood ? "WHERE mood = ?" : ""}
+       ORDER BY rank, id DESC LIMIT ?`
+    )
+    .all(...params, ...(options.mood ? [options.mood] : []), options.limit) as SearchRow[];
+
+  return rows.map(({ rank, snippet, ...row }) => ({ ...row, conversation_title: decryptField(userId, row.conversation_title), snippet: toSnippet(snippet) }));
+};
+
+// Best matches first. Every term must appear; the caller ensures at least one
+// is long enough for the index.
+export const searchMessages = (userId: number, terms: string[], options: SearchOptions) => {
+  fillIndex(userId);
+  try {
+    return queryIndex(userId, terms, options);
+  } finally {
+    emptyIndex(userId);
+  }
+};
@@ -0,0 +1,65 @@
+// Small wall-clock helpers on top of Intl, so reminders can be scheduled in
+// each student's own time zone.
+
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isTimeOfDay = (value: unknown): value is string => typeof value === "string" && TIME.test(value);
+
+export const isLocalDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const minutesOfDay = (time: string) => {
+  const [, hours, minutes] = time.match(TIME)!;
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The date and time an instant shows on a clock in the given zone.
+export const localParts = (instant: number, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(p => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+const offsetAt = (instant: number, timeZone: string) => {
+  const { date, minutes } = localParts(instant, timeZone);
+  const wall = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000;
+  return wall - Math.floor(instant / 60_000) * 60_000;
+};
+
+// The instant a local date and time (minutes after midnight) happens in the
+// zone. Times skipped by a daylight saving change resolve to just after it.
+export const zonedTime = (date: string, minutes: number, timeZone: string) => {
+  const wall = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000;
+  const first = wall - offsetAt(wall, timeZone);
+  return Math.max(first, wall - offsetAt(first, timeZone));
+};
+
+export const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
@@ -13,60 +13,109 @@ import {
   Wind, 
   Coffee, 
   Sparkles,
-  AlertCircle
+  AlertCircle,
+  PanelLeft,
+  Square,
+  SmilePlus,
+  Shield,
+  UserCheck,
+  ClipboardList,
+  Brain,
+  AlarmClock,
+  BookOpen,
+  LifeBuoy,
+  Search,
+  BarChart3
 } from 'lucide-react';
-import { 
-  LineChart, 
-  Line, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  ResponsiveContainer,
-  AreaChart,
-  Area
-} from 'recharts';
 import Markdown from 'react-markdown';
 import { format } from 'date-fns';
-import { analyzeSentimentAndRespond } from './services/geminiService';
 import { cn } from './lib/utils';
-import { User, Message, MoodEntry } from './types';
-
-const MOOD_EMOJIS: Record<string, string> = {
-  Happy: '😊',
-  Neutral: '😐',
-  Stressed: '😟',
-  Sad: '😢',
-  Anxious: '😰',
-  Angry: '😠',
+import { readEventStream } from './lib/sse';
+import { apiFetch } from './lib/api';
+import { countQueued, countRejected, discardRejected, isOffline, onQueueChange, postOrQueue, queueRequest, requestReplay, setQueueOwner } from './lib/offline';
+import { User, Message, MoodEntry, CrisisResources, Conversation, Suggestion, ExerciseId, ExerciseSession, MemoryOverview, Locale, Mood, SearchResult } from './types';
+import { useI18n, regionFromLanguages } from './i18n';
+import { createCrisisDetector } from './lib/crisis';
+import CrisisBanner from './components/CrisisBanner';
+import ConversationSidebar from './components/ConversationSidebar';
+import SuggestionChips from './components/SuggestionChips';
+import ExercisePlayer, { ExerciseResult } from './components/ExercisePlayer';
+import MoodCheckIn, { CheckInInput } from './components/MoodCheckIn';
+import MoodInsights from './components/MoodInsights';
+import PrivacySettings from './components/PrivacySettings';
+import AuthScreen from './components/AuthScreen';
+import EmailVerificationBanner from './components/EmailVerificationBanner';
+import SharingSettings from './components/SharingSettings';
+import CounselorDashboard from './components/CounselorDashboard';
+import AdminConsole from './components/AdminConsole';
+import MemorySettings from './components/MemorySettings';
+import ReminderSettings from './components/ReminderSettings';
+import NotificationBell from './components/NotificationBell';
+import JournalView from './components/JournalView';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import HelpNow from './components/HelpNow';
+import SearchPanel from './components/SearchPanel';
+import OfflineBanner from './components/OfflineBanner';
+import { EXERCISES, getExercise, isExerciseId } from './lib/exercises';
+import { MOOD_EMOJIS } from './lib/moods';
+
+const EXERCISE_STYLES: Record<ExerciseId, { icon: typeof Wind; className: string }> = {
+  'breathing-478': { icon: Wind, className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400' },
+  'box-breathing': { icon: Square, className: 'bg-teal-100 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400' },
+  meditation: { icon: Coffee, className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400' },
+  affirmations: { icon: Sparkles, className: 'bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400' },
 };
 
-const MOOD_VALUES: Record<string, number> = {
-  Happy: 5,
-  Neutral: 3,
-  Stressed: 2,
-  Sad: 1,
-  Anxious: 1.5,
-  Angry: 1,
-};
+const crisisDetector = createCrisisDetector();
 
 export default function App() {
+  const { locale, setLocale, t, dateLocale } = useI18n();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'chat' | 'history'>('chat');
+  const [view, setView] = useState<'chat' | 'history' | 'journal' | 'counselor' | 'admin'>('chat');
   const [darkMode, setDarkMode] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const [moodHistory, setMoodHistory] = useState<MoodEntry[]>([]);
-  const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
-  const [authForm, setAuthForm] = useState({ email: '', password: '', name: '' });
-  const [error, setError] = useState('');
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+  const [crisisResources, setCrisisResources] = useState<CrisisResources | null>(null);
+  // Picks which crisis lines are shown; guessed from the browser until chosen.
+  const [region, setRegion] = useState<string | null>(
+    () => localStorage.getItem('region') ?? regionFromLanguages(navigator.languages)
+  );
+  const [showHelp, setShowHelp] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<number | null>(null);
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  // A message opened from search, scrolled into view and briefly highlighted.
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+  const [activeExercise, setActiveExercise] = useState<ExerciseId | null>(null);
+  const [exerciseSessions, setExerciseSessions] = useState<ExerciseSession[]>([]);
+  const [showCheckIn, setShowCheckIn] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showReminders, setShowReminders] = useState(false);
+  // Facts picked out of chats that the student hasn't kept or deleted yet.
+  const [suggestedMemories, setSuggestedMemories] = useState(0);
+  const [queued, setQueued] = useState(0);
+  const [rejected, setRejected] = useState(0);
+  // Bumped when queued writes reach the server, to reload the open thread.
+  const [syncCount, setSyncCount] = useState(0);
 
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Groups messages written offline in a new conversation, so they are all
+  // sent to the one conversation the first of them creates.
+  const offlineThread = useRef<string | null>(null);
 
   useEffect(() => {
     checkAuth();
+    handleEmailLink();
+    handleReminderLink(window.location.search);
     const savedTheme = localStorage.getItem('theme');
     if (savedTheme === 'dark') setDarkMode(true);
   }, []);
@@ -85,18 +134,86 @@ export default function App() {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingReply]);
 
-  const checkAuth = async () => {
-    try {
-      const res = await fetch('/api/auth/me');
-      if (res.ok) {
-        const data = await res.json();
-        setUser(data);
+  useEffect(() => {
+    if (focusMessageId === null) return;
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setFocusMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [messages, focusMessageId]);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ locale, region: region ?? '' });
+    fetch(`/api/crisis/resources?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setCrisisResources)
+      .catch(console.error);
+  }, [locale, region]);
+
+  useEffect(() => {
+    offlineThread.current = null;
+    if (activeConversationId === null) {
+      setMessages([]);
+      return;
+    }
+    apiFetch(`/api/conversations/${activeConversationId}/messages`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setMessages)
+      .catch(console.error);
+  }, [activeConversationId, syncCount]);
+
+  useEffect(() => {
+    setQueueOwner(user?.id ?? null);
+    if (!user) {
+      setQueued(0);
+      setRejected(0);
+      return;
+    }
+    const updateQueued = () => {
+      countQueued().then(setQueued).catch(console.error);
+      countRejected().then(setRejected).catch(console.error);
+    };
+    // The session is checked (and refreshed if needed) first, because the
+    // service worker sends the queue with the same cookies.
+    const reconnect = async () => {
+      try {
+        const res = await apiFetch('/api/auth/me');
+        if (res.status === 401) return clearSession();
+        fetchData();
+        await requestReplay();
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    updateQueued();
+    if (!isOffline()) requestReplay().catch(console.error);
+    window.addEventListener('online', reconnect);
+    const stopListening = onQueueChange(synced => {
+      updateQueued();
+      if (synced) {
         fetchData();
+        setSyncCount(count => count + 1);
       }
+    });
+    return () => {
+      window.removeEventListener('online', reconnect);
+      stopListening();
+    };
+  }, [user?.id]);
+
+  const checkAuth = async () => {
+    try {
+      const res = await apiFetch('/api/auth/me');
+      if (res.ok) handleAuthenticated(await res.json());
     } catch (err) {
       console.error(err);
+      // Offline: open as the student last signed in on this device, so
+      // check-ins and messages can still be written and queued.
+      const cached = localStorage.getItem('user');
+      if (cached) setUser(JSON.parse(cached));
     } finally {
       setLoading(false);
     }
@@ -104,44 +221,113 @@ export default function App() {
 
   const fetchData = async () => {
     try {
-      const [chatRes, moodRes] = await Promise.all([
-        fetch('/api/chats'),
-        fetch('/api/moods')
+      const [conversationRes, moodRes, sessionRes, memoryRes] = await Promise.all([
+        apiFetch('/api/conversations'),
+        apiFetch('/api/moods'),
+        apiFetch('/api/exercises/sessions'),
+        apiFetch('/api/memory')
       ]);
-      if (chatRes.ok) setMessages(await chatRes.json());
+      if (conversationRes.ok) {
+        const data: Conversation[] = await conversationRes.json();
+        setConversations(data);
+        // Open the most recent active thread the first time data loads.
+        setActiveConversationId(prev => prev ?? data.find(c => !c.archived)?.id ?? null);
+      }
       if (moodRes.ok) setMoodHistory(await moodRes.json());
+      if (sessionRes.ok) setExerciseSessions(await sessionRes.json());
+      if (memoryRes.ok) updateMemoryCount(await memoryRes.json());
     } catch (err) {
       console.error(err);
     }
   };
 
-  const handleAuth = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-    const endpoint = authMode === 'login' ? '/api/auth/login' : '/api/auth/signup';
-    try {
-      const res = await fetch(endpoint, {
+  const updateMemoryCount = (overview: MemoryOverview) => {
+    setSuggestedMemories(overview.facts.filter(f => f.status === 'suggested').length);
+  };
+
+  const handleAuthenticated = (data: User) => {
+    localStorage.setItem('user', JSON.stringify(data));
+    setUser(data);
+    applyPreferences(data);
+    fetchData();
+  };
+
+  const savePreferences = (changes: Partial<Pick<User, 'locale' | 'region'>>) =>
+    apiFetch('/api/account/preferences', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    }).catch(console.error);
+
+  // The account's saved language and region follow the student across
+  // devices; until they have one, this device's choice is saved to it.
+  const applyPreferences = (data: User) => {
+    if (data.locale) setLocale(data.locale);
+    if (data.region) changeRegion(data.region, false);
+    const missing = { locale: data.locale ? undefined : locale, region: data.region ? undefined : region ?? undefined };
+    if (missing.locale || missing.region) savePreferences(missing);
+  };
+
+  const changeLocale = (next: Locale) => {
+    if (user) savePreferences({ locale: next });
+  };
+
+  const changeRegion = (next: string, save = true) => {
+    localStorage.setItem('region', next);
+    setRegion(next);
+    if (save && user) savePreferences({ region: next });
+  };
+
+  // Links in verification and reset emails open the app with ?verify= or ?reset=.
+  const handleEmailLink = async () => {
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verify');
+    if (params.has('reset')) setResetToken(params.get('reset'));
+    if (!verifyToken && !params.has('reset')) return;
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (verifyToken) {
+      const res = await fetch('/api/auth/verify-email', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(authForm),
+        body: JSON.stringify({ token: verifyToken }),
       });
-      const data = await res.json();
       if (res.ok) {
-        setUser(data);
-        fetchData();
+        setNotice(t('app.emailConfirmed'));
+        setUser(prev => prev && { ...prev, emailVerified: true });
       } else {
-        setError(data.error);
+        setNotice((await res.json()).error);
       }
-    } catch (err) {
-      setError('Something went wrong');
     }
   };
 
+  // Reminders link to "/?open=check-in" or "/?exercise=<id>", whether opened
+  // from a push notification or the in-app list.
+  const handleReminderLink = (search: string) => {
+    const params = new URLSearchParams(search);
+    const exercise = params.get('exercise');
+    if (params.get('open') === 'check-in') setShowCheckIn(true);
+    if (isExerciseId(exercise)) setActiveExercise(exercise);
+    if (params.has('open') || params.has('exercise')) window.history.replaceState(null, '', window.location.pathname);
+  };
+
   const handleLogout = async () => {
     await fetch('/api/auth/logout', { method: 'POST' });
+    clearSession();
+  };
+
+  const clearSession = () => {
+    localStorage.removeItem('user');
     setUser(null);
+    setView('chat');
+    setNotice('');
     setMessages([]);
     setMoodHistory([]);
+    setConversations([]);
+    setActiveConversationId(null);
+    setShowSearch(false);
+    setExerciseSessions([]);
+    setSuggestedMemories(0);
   };
 
   const handleSendMessage = async (e?: React.FormEvent) => {
@@ -156,46 +342,155 @@ export default function App() {
 
     setMessages(prev => [...prev, userMessage]);
     setInput('');
+    if (isOffline()) return queueMessage(userMessage);
     setIsTyping(true);
 
-    // Save user message
-    fetch('/api/chats', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(userMessage),
-    });
+    try {
+      const res = await apiFetch('/api/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: userMessage.content, conversationId: activeConversationId }),
+      }).catch(err => {
+        // fetch only throws when the request couldn't be sent at all.
+        if (err instanceof TypeError) return null;
+        throw err;
+      });
+      if (!res) return await queueMessage(userMessage);
+      if (!res.ok) throw new Error((await res.json()).error);
+
+      let response: any = null;
+      await readEventStream(res, (event, data) => {
+        if (event === 'token') setStreamingReply(prev => (prev ?? '') + data.text);
+        else if (event === 'reset') setStreamingReply('');
+        else if (event === 'done') response = data;
+        else if (event === 'error') throw new Error(data.error);
+      });
+      if (!response) throw new Error('Stream ended without a reply');
+
+      const botMessage: Message = {
+        role: 'bot',
+        content: response.response,
+        timestamp: new Date().toISOString(),
+        ...response.message,
+        mood: response.mood,
+        crisis: response.crisis
+      };
+
+      if (response.crisis) {
+        setCrisisResources(prev => prev && { ...prev, region: response.region, emergency: response.emergency, helplines: response.helplines });
+      }
+      setMessages(prev => [...prev, botMessage]);
+      setActiveConversationId(response.conversation.id);
+      fetchData();
+    } catch (err) {
+      console.error(err);
+      setMessages(prev => prev.filter(m => m !== userMessage));
+      setInput(userMessage.content);
+    } finally {
+      setStreamingReply(null);
+      setIsTyping(false);
+    }
+  };
 
-    const response = await analyzeSentimentAndRespond(input, messages.map(m => ({ role: m.role, content: m.content })));
-    
-    const botMessage: Message = {
-      role: 'bot',
-      content: response.response,
-      timestamp: new Date().toISOString(),
-      mood: response.mood
-    };
+  // Without a connection the message is saved on this device and sent once
+  // back online. It gets no reply then, but stays in the conversation. Crisis
+  // language still gets the helplines straight away, from the last ones
+  // loaded; the server screens the message again when it arrives.
+  const queueMessage = async (message: Message) => {
+    try {
+      const thread = activeConversationId === null ? (offlineThread.current ??= crypto.randomUUID()) : null;
+      await queueRequest('/api/chats', { role: 'user', content: message.content, conversationId: activeConversationId }, { thread });
+      setMessages(prev => prev.map(m => (m === message ? { ...m, pending: true } : m)));
+      if (crisisDetector.detect(message.content).isCrisis) {
+        if (crisisResources) {
+          setMessages(prev => [...prev, { role: 'bot', content: crisisResources.response, crisis: true, timestamp: new Date().toISOString() }]);
+        } else {
+          setShowHelp(true);
+        }
+      }
+    } catch (err) {
+      console.error(err);
+      setMessages(prev => prev.filter(m => m !== message));
+      setInput(message.content);
+    }
+  };
+
+  const clearChat = async () => {
+    if (activeConversationId === null) return;
+    if (confirm(t('app.confirmClear'))) {
+      await apiFetch(`/api/chats?conversationId=${activeConversationId}`, { method: 'DELETE' });
+      setMessages([]);
+    }
+  };
 
-    setMessages(prev => [...prev, botMessage]);
-    setIsTyping(false);
+  const selectSuggestion = async (suggestion: Suggestion) => {
+    if (suggestion.exercise) setActiveExercise(suggestion.exercise);
+    if (suggestion.tried_at) return;
+    const res = await apiFetch(`/api/suggestions/${suggestion.id}/tried`, { method: 'POST' });
+    if (!res.ok) return;
+    const updated: Suggestion = await res.json();
+    setMessages(prev => prev.map(m => ({
+      ...m,
+      suggestions: m.suggestions?.map(s => (s.id === updated.id ? updated : s)),
+    })));
+  };
 
-    // Save bot message and mood
-    fetch('/api/chats', {
+  const saveExerciseSession = async (result: ExerciseResult) => {
+    setActiveExercise(null);
+    const res = await apiFetch('/api/exercises/sessions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(botMessage),
+      body: JSON.stringify(result),
     });
+    if (res.ok) {
+      const session: ExerciseSession = await res.json();
+      setExerciseSessions(prev => [session, ...prev]);
+    }
+  };
 
-    fetch('/api/moods', {
-      method: 'POST',
+  const submitCheckIn = async (checkIn: CheckInInput) => {
+    const res = await postOrQueue('/api/moods', checkIn);
+    if (!res) {
+      setShowCheckIn(false);
+      return;
+    }
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setMoodHistory(prev => [...prev, data]);
+    setShowCheckIn(false);
+  };
+
+  const selectConversation = (id: number | null) => {
+    if (isTyping) return;
+    setActiveConversationId(id);
+    setShowSidebar(false);
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+    if (isTyping) return;
+    setActiveConversationId(result.conversation_id);
+    setFocusMessageId(result.id);
+    setShowSidebar(false);
+  };
+
+  const updateConversation = async (id: number, changes: Partial<Pick<Conversation, 'title' | 'archived'>>) => {
+    const res = await apiFetch(`/api/conversations/${id}`, {
+      method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ mood: response.mood }),
-    }).then(() => fetchData());
+      body: JSON.stringify(changes),
+    });
+    if (!res.ok) return;
+    const updated: Conversation = await res.json();
+    setConversations(prev => prev.map(c => (c.id === id ? updated : c)));
+    if (updated.archived && id === activeConversationId) setActiveConversationId(null);
   };
 
-  const clearChat = async () => {
-    if (confirm('Are you sure you want to clear your chat history?')) {
-      await fetch('/api/chats', { method: 'DELETE' });
-      setMessages([]);
-    }
+  const deleteConversation = async (id: number) => {
+    if (!confirm(t('app.confirmDelete'))) return;
+    const res = await apiFetch(`/api/conversations/${id}`, { method: 'DELETE' });
+    if (!res.ok) return;
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (id === activeConversationId) setActiveConversationId(null);
   };
 
   if (loading) {
@@ -206,82 +501,32 @@ export default function App() {
     );
   }
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4">
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-8 border border-slate-200 dark:border-slate-800"
-        >
-          <div className="text-center mb-8">
-            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 mb-4">
-              <Heart size={32} />
-            </div>
-            <h1 className="text-2xl font-bold text-slate-900 dark:text-white">MindfulMate</h1>
-            <p className="text-slate-500 dark:text-slate-400">Your student mental health companion</p>
-          </div>
-
-          <form onSubmit={handleAuth} className="space-y-4">
-            {authMode === 'signup' && (
-              <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Name</label>
-                <input 
-                  type="text" 
-                  required
-                  className="w-full px-4 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                  value={authForm.name}
-                  onChange={e => setAuthForm({ ...authForm, name: e.target.value })}
-                />
-              </div>
-            )}
-            <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Email</label>
-              <input 
-                type="email" 
-                required
-                className="w-full px-4 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                value={authForm.email}
-                onChange={e => setAuthForm({ ...authForm, email: e.target.value })}
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Password</label>
-              <input 
-                type="password" 
-                required
-                className="w-full px-4 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all"
-                value={authForm.password}
-                onChange={e => setAuthForm({ ...authForm, password: e.target.value })}
-              />
-            </div>
-            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
-            <button 
-              type="submit"
-              className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors shadow-lg shadow-emerald-600/20"
-            >
-              {authMode === 'login' ? 'Log In' : 'Sign Up'}
-            </button>
-          </form>
+  const helpNow = showHelp && (
+    <HelpNow region={crisisResources?.region ?? region} onRegionChange={changeRegion} onClose={() => setShowHelp(false)} />
+  );
 
-          <div className="mt-6 text-center">
-            <button 
-              onClick={() => setAuthMode(authMode === 'login' ? 'signup' : 'login')}
-              className="text-emerald-600 dark:text-emerald-400 text-sm font-medium hover:underline"
-            >
-              {authMode === 'login' ? "Don't have an account? Sign Up" : "Already have an account? Log In"}
-            </button>
-          </div>
-        </motion.div>
-      </div>
+  if (!user || resetToken) {
+    return (
+      <>
+        <AuthScreen
+          resetToken={resetToken}
+          notice={notice}
+          onAuthenticated={handleAuthenticated}
+          onResetDone={() => {
+            setResetToken(null);
+            clearSession();
+          }}
+          onGetHelp={() => setShowHelp(true)}
+        />
+        {helpNow}
+      </>
     );
   }
 
-  const chartData = moodHistory.map(entry => ({
-    time: format(new Date(entry.timestamp), 'MMM d, HH:mm'),
-    value: MOOD_VALUES[entry.mood] || 3,
-    mood: entry.mood
-  }));
+  const hasCrisis = messages.some(m => m.crisis);
+  const visibleMessages: Message[] = streamingReply
+    ? [...messages, { role: 'bot', content: streamingReply, timestamp: new Date().toISOString() }]
+    : messages;
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 flex flex-col">
@@ -293,225 +538,383 @@ export default function App() {
           </div>
           <div>
             <h1 className="font-bold text-lg leading-tight">MindfulMate</h1>
-            <p className="text-xs text-slate-500 dark:text-slate-400">Welcome back, {user.name}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('app.welcome', { name: user.name })}</p>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          {view === 'chat' && (
+            <button 
+              onClick={() => setShowSidebar(!showSidebar)}
+              className="md:hidden p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+              title={t('app.conversations')}
+            >
+              <PanelLeft size={20} />
+            </button>
+          )}
+          {view === 'chat' && (
+            <button 
+              onClick={() => {
+                setShowSearch(!showSearch);
+                setShowSidebar(!showSearch);
+              }}
+              className={cn(
+                "p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors",
+                showSearch ? "text-emerald-600 dark:text-emerald-400" : "text-slate-600 dark:text-slate-400"
+              )}
+              title={t('search.open')}
+            >
+              <Search size={20} />
+            </button>
+          )}
+          <button 
+            onClick={() => setShowCheckIn(true)}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.checkIn')}
+          >
+            <SmilePlus size={20} />
+          </button>
           <button 
             onClick={() => setView(view === 'chat' ? 'history' : 'chat')}
             className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
-            title={view === 'chat' ? 'Mood History' : 'Back to Chat'}
+            title={view === 'chat' ? t('app.moodHistory') : t('app.backToChat')}
           >
             {view === 'chat' ? <History size={20} /> : <MessageCircle size={20} />}
           </button>
+          <button 
+            onClick={() => setView(view === 'journal' ? 'chat' : 'journal')}
+            className={cn(
+              "p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors",
+              view === 'journal' ? "text-emerald-600 dark:text-emerald-400" : "text-slate-600 dark:text-slate-400"
+            )}
+            title={view === 'journal' ? t('app.backToChat') : t('app.journal')}
+          >
+            <BookOpen size={20} />
+          </button>
+          {user.role === 'counselor' && (
+            <button 
+              onClick={() => setView('counselor')}
+              className={cn(
+                "p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors",
+                view === 'counselor' ? "text-emerald-600 dark:text-emerald-400" : "text-slate-600 dark:text-slate-400"
+              )}
+              title={t('app.counselorDashboard')}
+            >
+              <ClipboardList size={20} />
+            </button>
+          )}
+          {user.role === 'admin' && (
+            <button 
+              onClick={() => setView('admin')}
+              className={cn(
+                "p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors",
+                view === 'admin' ? "text-emerald-600 dark:text-emerald-400" : "text-slate-600 dark:text-slate-400"
+              )}
+              title={t('app.adminConsole')}
+            >
+              <BarChart3 size={20} />
+            </button>
+          )}
+          <NotificationBell onOpen={url => handleReminderLink(new URL(url, window.location.origin).search)} />
+          <button 
+            onClick={() => setShowReminders(true)}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.reminders')}
+          >
+            <AlarmClock size={20} />
+          </button>
+          <button 
+            onClick={() => setShowMemory(true)}
+            className="relative p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.memory')}
+          >
+            <Brain size={20} />
+            {suggestedMemories > 0 && (
+              <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-emerald-500" />
+            )}
+          </button>
+          <button 
+            onClick={() => setShowSharing(true)}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.sharing')}
+          >
+            <UserCheck size={20} />
+          </button>
+          <button 
+            onClick={() => setShowPrivacy(true)}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.privacy')}
+          >
+            <Shield size={20} />
+          </button>
+          <LanguageSwitcher onChange={changeLocale} />
           <button 
             onClick={() => setDarkMode(!darkMode)}
             className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+            title={t('app.toggleTheme')}
           >
             {darkMode ? <Sun size={20} /> : <Moon size={20} />}
           </button>
+          <button 
+            onClick={() => setShowHelp(true)}
+            className="p-2 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors text-rose-600 dark:text-rose-400"
+            title={t('help.open')}
+          >
+            <LifeBuoy size={20} />
+          </button>
           <button 
             onClick={handleLogout}
             className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors text-red-600 dark:text-red-400"
+            title={t('app.logout')}
           >
             <LogOut size={20} />
           </button>
         </div>
       </header>
 
-      <main className="flex-1 max-w-4xl w-full mx-auto p-4 md:p-6 flex flex-col overflow-hidden">
+      <EmailVerificationBanner
+        email={user.email}
+        verified={user.emailVerified}
+        notice={notice}
+        onDismissNotice={() => setNotice('')}
+      />
+
+      <OfflineBanner
+        queued={queued}
+        rejected={rejected}
+        onDismissRejected={() => discardRejected().then(() => setRejected(0), console.error)}
+        onGetHelp={() => setShowHelp(true)}
+      />
+
+      <main className={cn("flex-1 w-full mx-auto p-4 md:p-6 flex flex-col overflow-hidden", view === 'history' ? "max-w-4xl" : "max-w-6xl")}>
         {view === 'chat' ? (
-          <>
-            {/* Chat Window */}
-            <div 
-              ref={scrollRef}
-              className="flex-1 overflow-y-auto space-y-6 pr-2 custom-scrollbar"
-            >
-              {messages.length === 0 && (
-                <div className="h-full flex flex-col items-center justify-center text-center p-8 opacity-60">
-                  <Sparkles size={48} className="text-emerald-500 mb-4" />
-                  <h2 className="text-xl font-semibold mb-2">How are you feeling today?</h2>
-                  <p className="max-w-xs text-sm">I'm here to listen, support, and help you navigate through student life stress.</p>
-                </div>
-              )}
-              
-              <AnimatePresence initial={false}>
-                {messages.map((msg, i) => (
-                  <motion.div
-                    key={i}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className={cn(
-                      "flex flex-col max-w-[85%]",
-                      msg.role === 'user' ? "ml-auto items-end" : "items-start"
-                    )}
-                  >
-                    <div className={cn(
-                      "px-4 py-3 rounded-2xl shadow-sm text-sm md:text-base",
-                      msg.role === 'user' 
-                        ? "bg-emerald-600 text-white rounded-tr-none" 
-                        : "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-tl-none"
-                    )}>
-                      <div className="prose dark:prose-invert max-w-none">
-                        <Markdown>{msg.content}</Markdown>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2 mt-1 px-1">
-                      <span className="text-[10px] text-slate-400">
-                        {format(new Date(msg.timestamp), 'HH:mm')}
-                      </span>
-                      {msg.mood && (
-                        <span className="text-xs bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full flex items-center gap-1">
-                          {MOOD_EMOJIS[msg.mood]} {msg.mood}
+          <div className="flex-1 flex gap-6 min-h-0">
+            {showSearch ? (
+              <SearchPanel
+                onOpen={openSearchResult}
+                onClose={() => {
+                  setShowSearch(false);
+                  setShowSidebar(false);
+                }}
+                className={cn(showSidebar ? 'flex w-full' : 'hidden', 'md:flex md:w-64')}
+              />
+            ) : (
+              <ConversationSidebar
+                conversations={conversations}
+                activeId={activeConversationId}
+                onSelect={selectConversation}
+                onNew={() => selectConversation(null)}
+                onRename={(id, title) => updateConversation(id, { title })}
+                onArchive={(id, archived) => updateConversation(id, { archived })}
+                onDelete={deleteConversation}
+                className={cn(showSidebar ? 'flex w-full' : 'hidden', 'md:flex md:w-64')}
+              />
+            )}
+            <div className={cn("flex-1 flex flex-col min-w-0", showSidebar && "hidden md:flex")}>
+              {/* Chat Window */}
+              <div 
+                ref={scrollRef}
+                className="flex-1 overflow-y-auto space-y-6 pr-2 custom-scrollbar"
+              >
+                {hasCrisis && crisisResources && (
+                  <div className="sticky top-0 z-10">
+                    <CrisisBanner helplines={crisisResources.helplines} emergency={crisisResources.emergency} compact />
+                  </div>
+                )}
+
+                {messages.length === 0 && (
+                  <div className="h-full flex flex-col items-center justify-center text-center p-8 opacity-60">
+                    <Sparkles size={48} className="text-emerald-500 mb-4" />
+                    <h2 className="text-xl font-semibold mb-2">{t('app.emptyTitle')}</h2>
+                    <p className="max-w-xs text-sm">{t('app.emptyBody')}</p>
+                  </div>
+                )}
+            
+                <AnimatePresence initial={false}>
+                  {visibleMessages.map((msg, i) => (
+                    <motion.div
+                      key={i}
+                      id={msg.id ? `message-${msg.id}` : undefined}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className={cn(
+                        "flex flex-col max-w-[85%]",
+                        msg.role === 'user' ? "ml-auto items-end" : "items-start",
+                        msg.id !== undefined && msg.id === focusMessageId && "rounded-2xl ring-2 ring-amber-400 ring-offset-4 ring-offset-slate-50 dark:ring-offset-slate-950"
+                      )}
+                    >
+                      {msg.role === 'bot' && msg.crisis ? (
+                        <CrisisBanner helplines={crisisResources?.helplines ?? []} emergency={crisisResources?.emergency} message={msg.content} />
+                      ) : (
+                        <div className={cn(
+                          "px-4 py-3 rounded-2xl shadow-sm text-sm md:text-base",
+                          msg.role === 'user' 
+                            ? "bg-emerald-600 text-white rounded-tr-none" 
+                            : "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-tl-none"
+                        )}>
+                          <div className="prose dark:prose-invert max-w-none">
+                            <Markdown>{msg.content}</Markdown>
+                          </div>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-2 mt-1 px-1">
+                        <span className="text-[10px] text-slate-400">
+                          {format(new Date(msg.timestamp), 'HH:mm')}
                         </span>
+                        {msg.pending && (
+                          <span className="text-[10px] text-slate-400 italic">{t('offline.pending')}</span>
+                        )}
+                        {msg.mood && (
+                          <span className="text-xs bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full flex items-center gap-1">
+                            {MOOD_EMOJIS[msg.mood]} {t(`mood.${msg.mood as Mood}`)}
+                          </span>
+                        )}
+                      </div>
+                      {msg.suggestions && (
+                        <SuggestionChips suggestions={msg.suggestions} onSelect={selectSuggestion} />
                       )}
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+
+                {isTyping && !streamingReply && (
+                  <div className="flex items-center gap-2 text-slate-400">
+                    <div className="w-8 h-8 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
+                      <Sparkles size={16} className="animate-pulse" />
+                    </div>
+                    <div className="flex gap-1">
+                      <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.3s]"></span>
+                      <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.15s]"></span>
+                      <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce"></span>
                     </div>
-                  </motion.div>
-                ))}
-              </AnimatePresence>
-
-              {isTyping && (
-                <div className="flex items-center gap-2 text-slate-400">
-                  <div className="w-8 h-8 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
-                    <Sparkles size={16} className="animate-pulse" />
-                  </div>
-                  <div className="flex gap-1">
-                    <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.3s]"></span>
-                    <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.15s]"></span>
-                    <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce"></span>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
 
-            {/* Input Area */}
-            <div className="mt-4 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-2 shadow-lg">
-              <form onSubmit={handleSendMessage} className="flex gap-2">
-                <button 
-                  type="button"
-                  onClick={clearChat}
-                  className="p-3 text-slate-400 hover:text-red-500 transition-colors"
-                  title="Clear Chat"
-                >
-                  <Trash2 size={20} />
-                </button>
-                <input 
-                  type="text"
-                  placeholder="Share what's on your mind..."
-                  className="flex-1 bg-transparent border-none outline-none px-2 py-3 text-sm md:text-base"
-                  value={input}
-                  onChange={e => setInput(e.target.value)}
-                  disabled={isTyping}
-                />
-                <button 
-                  type="submit"
-                  disabled={!input.trim() || isTyping}
-                  className="p-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-600/20"
-                >
-                  <Send size={20} />
-                </button>
-              </form>
+              {/* Input Area */}
+              <div className="mt-4 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-2 shadow-lg">
+                <form onSubmit={handleSendMessage} className="flex gap-2">
+                  <button 
+                    type="button"
+                    onClick={clearChat}
+                    className="p-3 text-slate-400 hover:text-red-500 transition-colors"
+                    title={t('app.clearChat')}
+                  >
+                    <Trash2 size={20} />
+                  </button>
+                  <input 
+                    type="text"
+                    placeholder={t('app.placeholder')}
+                    className="flex-1 bg-transparent border-none outline-none px-2 py-3 text-sm md:text-base"
+                    value={input}
+                    onChange={e => setInput(e.target.value)}
+                    disabled={isTyping}
+                  />
+                  <button 
+                    type="submit"
+                    disabled={!input.trim() || isTyping}
+                    className="p-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md shadow-emerald-600/20"
+                  >
+                    <Send size={20} />
+                  </button>
+                </form>
+              </div>
+          
+              <p className="text-[10px] text-center mt-3 text-slate-400 flex items-center justify-center gap-1">
+                <AlertCircle size={10} />
+                {t('app.disclaimer')}
+              </p>
             </div>
-            
-            <p className="text-[10px] text-center mt-3 text-slate-400 flex items-center justify-center gap-1">
-              <AlertCircle size={10} />
-              This chatbot is for support only and is not a replacement for professional mental health care.
-            </p>
-          </>
-        ) : (
+          </div>
+        ) : view === 'history' ? (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             className="flex-1 flex flex-col gap-6"
           >
-            <div className="flex items-center justify-between">
-              <h2 className="text-2xl font-bold">Mood Trends</h2>
-              <div className="text-sm text-slate-500">Last {moodHistory.length} entries</div>
-            </div>
-
-            <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm h-[350px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={chartData}>
-                  <defs>
-                    <linearGradient id="colorMood" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
-                      <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                  <XAxis 
-                    dataKey="time" 
-                    axisLine={false} 
-                    tickLine={false} 
-                    tick={{ fontSize: 10, fill: '#94a3b8' }}
-                  />
-                  <YAxis 
-                    domain={[0, 6]} 
-                    ticks={[1, 2, 3, 4, 5]}
-                    axisLine={false} 
-                    tickLine={false}
-                    tick={{ fontSize: 10, fill: '#94a3b8' }}
-                    tickFormatter={(val) => {
-                      if (val === 5) return 'Happy';
-                      if (val === 3) return 'Neutral';
-                      if (val === 1) return 'Sad';
-                      return '';
-                    }}
-                  />
-                  <Tooltip 
-                    contentStyle={{ 
-                      backgroundColor: '#fff', 
-                      borderRadius: '12px', 
-                      border: 'none', 
-                      boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' 
-                    }}
-                    labelStyle={{ fontWeight: 'bold', color: '#1e293b' }}
-                  />
-                  <Area 
-                    type="monotone" 
-                    dataKey="value" 
-                    stroke="#10b981" 
-                    strokeWidth={3}
-                    fillOpacity={1} 
-                    fill="url(#colorMood)" 
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
+            <MoodInsights refreshKey={moodHistory.length} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {EXERCISES.map(exercise => {
+                const style = EXERCISE_STYLES[exercise.id];
+                return (
+                  <button
+                    key={exercise.id}
+                    onClick={() => setActiveExercise(exercise.id)}
+                    className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800 flex items-center gap-4 text-left hover:border-emerald-400 transition-colors"
+                  >
+                    <div className={cn("w-12 h-12 rounded-xl flex items-center justify-center", style.className)}>
+                      <style.icon size={24} />
+                    </div>
+                    <div>
+                      <p className="text-xs text-slate-500">{exercise.category}</p>
+                      <p className="font-semibold">{exercise.title}</p>
+                    </div>
+                  </button>
+                );
+              })}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800 flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 flex items-center justify-center">
-                  <Wind size={24} />
-                </div>
-                <div>
-                  <p className="text-xs text-slate-500">Breathing</p>
-                  <p className="font-semibold">4-7-8 Exercise</p>
-                </div>
-              </div>
-              <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800 flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 flex items-center justify-center">
-                  <Coffee size={24} />
-                </div>
-                <div>
-                  <p className="text-xs text-slate-500">Relaxation</p>
-                  <p className="font-semibold">5m Meditation</p>
-                </div>
-              </div>
-              <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800 flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 flex items-center justify-center">
-                  <Sparkles size={24} />
-                </div>
-                <div>
-                  <p className="text-xs text-slate-500">Motivation</p>
-                  <p className="font-semibold">Daily Affirmations</p>
-                </div>
+            {exerciseSessions.length > 0 && (
+              <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm">
+                <h3 className="font-semibold mb-3">{t('app.recentSessions')}</h3>
+                <ul className="space-y-2 text-sm">
+                  {exerciseSessions.slice(0, 5).map(session => (
+                    <li key={session.id} className="flex items-center justify-between gap-4">
+                      <span>
+                        {getExercise(session.exercise)?.title}
+                        <span className="text-slate-400"> · {format(new Date(session.timestamp), 'MMM d, HH:mm', { locale: dateLocale })}</span>
+                      </span>
+                      <span className="text-slate-500 text-xs">
+                        {session.completed ? t('app.completed') : t('app.minutes', { count: Math.round(session.duration_seconds / 60) })}
+                        {session.mood_before != null && session.mood_after != null && (
+                          <> · {t('app.calm', { before: session.mood_before, after: session.mood_after })}</>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
               </div>
-            </div>
+            )}
           </motion.div>
+        ) : view === 'journal' ? (
+          <JournalView moods={moodHistory} />
+        ) : view === 'admin' ? (
+          <AdminConsole />
+        ) : (
+          <CounselorDashboard />
         )}
       </main>
+
+      {showSharing && <SharingSettings onClose={() => setShowSharing(false)} />}
+
+      {showReminders && <ReminderSettings onClose={() => setShowReminders(false)} />}
+
+      {showMemory && <MemorySettings onChange={updateMemoryCount} onClose={() => setShowMemory(false)} />}
+
+      {showPrivacy && (
+        <PrivacySettings
+          onDeleted={() => {
+            setShowPrivacy(false);
+            clearSession();
+          }}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+
+      {showCheckIn && (
+        <MoodCheckIn onSubmit={submitCheckIn} onClose={() => setShowCheckIn(false)} />
+      )}
+
+      {helpNow}
+
+      {activeExercise && (
+        <ExercisePlayer
+          exercise={getExercise(activeExercise)!}
+          onFinish={saveExerciseSession}
+          onClose={() => setActiveExercise(null)}
+        />
+      )}
     </div>
   );
 }
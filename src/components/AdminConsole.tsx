@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Users, EyeOff, Cpu } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '../lib/utils';
+import { apiFetch } from '../lib/api';
+import { AdminUserCounts, ModelCallStats, MOODS, ROLES, WeeklyMoods } from '../types';
+
+const card = "bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm";
+
+const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+// Campus-wide totals for administrators. Nothing here identifies a student:
+// wellbeing figures from fewer students than the server's minimum group size
+// arrive already withheld, and chats are never shown.
+export default function AdminConsole() {
+  const [users, setUsers] = useState<AdminUserCounts | null>(null);
+  const [moods, setMoods] = useState<{ minGroupSize: number; weeks: WeeklyMoods[] } | null>(null);
+  const [modelCalls, setModelCalls] = useState<ModelCallStats | null>(null);
+
+  useEffect(() => {
+    const load = <T,>(url: string, set: (value: T) => void) =>
+      apiFetch(url)
+        .then(res => (res.ok ? res.json() : null))
+        .then(value => value && set(value))
+        .catch(console.error);
+    load('/api/admin/users', setUsers);
+    load('/api/admin/moods/weekly', setMoods);
+    load('/api/admin/model-calls', setModelCalls);
+  }, []);
+
+  return (
+    <div className="flex-1 flex flex-col gap-6 overflow-y-auto">
+      <div>
+        <h2 className="text-2xl font-bold">Admin console</h2>
+        <p className="text-sm text-slate-500">Aggregate figures only. Individual students and their conversations are not visible here.</p>
+      </div>
+
+      <div className={card}>
+        <h3 className="font-semibold mb-4 flex items-center gap-2"><Users size={16} /> Accounts</h3>
+        {!users ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : (
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-slate-500">Total</dt>
+              <dd className="text-2xl font-bold">{users.total}</dd>
+              <dd className="text-xs text-slate-400">{users.verified} verified</dd>
+            </div>
+            <div>
+              <dt className="text-slate-500">By role</dt>
+              {ROLES.map(role => (
+                <dd key={role} className="capitalize">{role}s: {users.byRole[role]}</dd>
+              ))}
+            </div>
+            <div className="col-span-2">
+              <dt className="text-slate-500">Active</dt>
+              <dd>Last 24 hours: {users.active.day}</dd>
+              <dd>Last 7 days: {users.active.week}</dd>
+              <dd>Last 30 days: {users.active.month}</dd>
+            </div>
+          </dl>
+        )}
+      </div>
+
+      <div className={card}>
+        <h3 className="font-semibold mb-1">Weekly moods</h3>
+        {moods && (
+          <p className="text-xs text-slate-500 mb-4 flex items-center gap-1">
+            <EyeOff size={12} /> Figures from fewer than {moods.minGroupSize} students are withheld.
+          </p>
+        )}
+        {!moods ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 pr-3 font-medium">Week of</th>
+                  <th className="py-1 pr-3 font-medium text-right">Students</th>
+                  <th className="py-1 pr-3 font-medium text-right">Entries</th>
+                  {MOODS.map(mood => <th key={mood} className="py-1 pr-3 font-medium text-right">{mood}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {moods.weeks.map(week => (
+                  <tr key={week.week} className={cn("border-t border-slate-100 dark:border-slate-800", week.suppressed && "text-slate-400")}>
+                    <td className="py-1 pr-3">{format(new Date(`${week.week}T00:00:00`), 'MMM d, yyyy')}</td>
+                    <td className="py-1 pr-3 text-right">{week.students ?? '—'}</td>
+                    <td className="py-1 pr-3 text-right">{week.entries ?? '—'}</td>
+                    {MOODS.map(mood => (
+                      <td key={mood} className="py-1 pr-3 text-right" title={week.moods[mood] === null ? 'Withheld' : undefined}>
+                        {week.moods[mood] ?? '—'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className={card}>
+        <h3 className="font-semibold mb-4 flex items-center gap-2"><Cpu size={16} /> Model fallbacks{modelCalls && `, last ${modelCalls.days} days`}</h3>
+        {!modelCalls ? (
+          <p className="text-sm text-slate-400">Loading…</p>
+        ) : modelCalls.operations.length === 0 ? (
+          <p className="text-sm text-slate-400">No model calls yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 pr-3 font-medium">Provider</th>
+                  <th className="py-1 pr-3 font-medium">Operation</th>
+                  <th className="py-1 pr-3 font-medium text-right">Calls</th>
+                  <th className="py-1 pr-3 font-medium text-right">Fallbacks</th>
+                  <th className="py-1 font-medium text-right">Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {modelCalls.operations.map(row => (
+                  <tr key={`${row.provider}-${row.operation}`} className="border-t border-slate-100 dark:border-slate-800">
+                    <td className="py-1 pr-3">{row.provider}</td>
+                    <td className="py-1 pr-3">{row.operation}</td>
+                    <td className="py-1 pr-3 text-right">{row.calls}</td>
+                    <td className="py-1 pr-3 text-right">{row.fallbacks}</td>
+                    <td className={cn("py-1 text-right", row.fallbackRate >= 0.1 && "text-rose-600 dark:text-rose-400 font-medium")}>
+                      {percent(row.fallbackRate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {modelCalls.errors.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-slate-500 mb-2">Most common errors</h4>
+                <ul className="space-y-1 text-sm">
+                  {modelCalls.errors.map(error => (
+                    <li key={`${error.provider}-${error.error}`} className="flex gap-3">
+                      <span className="text-slate-400 shrink-0">{error.count}×</span>
+                      <span className="flex-1 truncate" title={error.error ?? undefined}>{error.provider}: {error.error ?? 'Unknown error'}</span>
+                      <span className="text-xs text-slate-400 shrink-0">last {format(new Date(`${error.last_seen.replace(' ', 'T')}Z`), 'MMM d, HH:mm')}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Heart, LifeBuoy } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { User } from '../types';
+import LanguageSwitcher from './LanguageSwitcher';
+
+type AuthMode = 'login' | 'signup' | 'forgot' | 'reset';
+
+interface AuthScreenProps {
+  // Set when the app was opened from a password reset email.
+  resetToken: string | null;
+  notice?: string;
+  onAuthenticated: (user: User) => void;
+  onResetDone: () => void;
+  onGetHelp: () => void;
+}
+
+const inputClass =
+  "w-full px-4 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500 outline-none transition-all";
+
+const ENDPOINTS: Record<AuthMode, string> = {
+  login: '/api/auth/login',
+  signup: '/api/auth/signup',
+  forgot: '/api/auth/forgot-password',
+  reset: '/api/auth/reset-password',
+};
+
+export default function AuthScreen({ resetToken, notice, onAuthenticated, onResetDone, onGetHelp }: AuthScreenProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<AuthMode>(resetToken ? 'reset' : 'login');
+  const [form, setForm] = useState({ email: '', password: '', name: '' });
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState(notice || '');
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError('');
+    setInfo('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const body =
+      mode === 'forgot' ? { email: form.email }
+      : mode === 'reset' ? { token: resetToken, password: form.password }
+      : form;
+    try {
+      const res = await fetch(ENDPOINTS[mode], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error);
+      } else if (mode === 'forgot') {
+        setInfo(data.message);
+      } else if (mode === 'signup') {
+        // The new account is signed in from the login form, which still holds
+        // the email and password just entered.
+        setMode('login');
+        setInfo(data.message);
+      } else if (mode === 'reset') {
+        onResetDone();
+        setForm({ ...form, password: '' });
+        setMode('login');
+        setInfo(data.message);
+      } else {
+        onAuthenticated(data);
+      }
+    } catch (err) {
+      setError(t('auth.error'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-slate-50 dark:bg-slate-950 p-4">
+      <div className="w-full max-w-md flex items-center justify-between">
+        <LanguageSwitcher />
+        <button
+          onClick={onGetHelp}
+          className="flex items-center gap-1 px-3 py-2 rounded-xl text-sm font-semibold text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors"
+        >
+          <LifeBuoy size={16} /> {t('help.open')}
+        </button>
+      </div>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-8 border border-slate-200 dark:border-slate-800"
+      >
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 mb-4">
+            <Heart size={32} />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white">MindfulMate</h1>
+          <p className="text-slate-500 dark:text-slate-400">{t('auth.tagline')}</p>
+        </div>
+
+        {info && <p className="mb-4 text-sm text-center text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/20 rounded-xl px-4 py-2">{info}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'signup' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('auth.name')}</label>
+              <input
+                type="text"
+                required
+                className={inputClass}
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+          )}
+          {mode !== 'reset' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('auth.email')}</label>
+              <input
+                type="email"
+                required
+                className={inputClass}
+                value={form.email}
+                onChange={e => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+          )}
+          {mode !== 'forgot' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                  {mode === 'reset' ? t('auth.newPassword') : t('auth.password')}
+                </label>
+                {mode === 'login' && (
+                  <button type="button" onClick={() => switchMode('forgot')} className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline">
+                    {t('auth.forgotPassword')}
+                  </button>
+                )}
+              </div>
+              <input
+                type="password"
+                required
+                className={inputClass}
+                minLength={mode === 'login' ? undefined : 10}
+                maxLength={72}
+                value={form.password}
+                onChange={e => setForm({ ...form, password: e.target.value })}
+              />
+              {mode !== 'login' && <p className="text-xs text-slate-400 mt-1">{t('auth.passwordHint')}</p>}
+            </div>
+          )}
+          {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+          <button
+            type="submit"
+            className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors shadow-lg shadow-emerald-600/20"
+          >
+            {t(`auth.title.${mode}`)}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+            className="text-emerald-600 dark:text-emerald-400 text-sm font-medium hover:underline"
+          >
+            {mode === 'login' ? t('auth.toSignup') : mode === 'signup' ? t('auth.toLogin') : t('auth.backToLogin')}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Archive, ArchiveRestore, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { Conversation } from '../types';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: number | null;
+  onSelect: (id: number) => void;
+  onNew: () => void;
+  onRename: (id: number, title: string) => void;
+  onArchive: (id: number, archived: boolean) => void;
+  onDelete: (id: number) => void;
+  className?: string;
+}
+
+export const conversationTitle = (conversation: Pick<Conversation, 'title'>) => conversation.title || 'New conversation';
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onArchive,
+  onDelete,
+  className,
+}: ConversationSidebarProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visible = conversations.filter(c => c.archived === showArchived);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversationTitle(conversation));
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId !== null && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className={cn("w-64 shrink-0 flex flex-col gap-3", className)}>
+      <button
+        onClick={onNew}
+        className="flex items-center justify-center gap-2 py-2 px-3 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl transition-colors shadow-md shadow-emerald-600/20"
+      >
+        <Plus size={16} /> New conversation
+      </button>
+
+      <div className="flex text-xs bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+        {[false, true].map(archived => (
+          <button
+            key={String(archived)}
+            onClick={() => setShowArchived(archived)}
+            className={cn(
+              "flex-1 py-1 rounded-md transition-colors",
+              showArchived === archived ? "bg-white dark:bg-slate-900 shadow-sm font-medium" : "text-slate-500"
+            )}
+          >
+            {archived ? 'Archived' : 'Active'}
+          </button>
+        ))}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+        {visible.length === 0 && (
+          <li className="text-xs text-slate-400 text-center py-4">
+            {showArchived ? 'No archived conversations' : 'No conversations yet'}
+          </li>
+        )}
+        {visible.map(conversation => (
+          <li
+            key={conversation.id}
+            className={cn(
+              "group rounded-xl px-3 py-2 text-sm transition-colors",
+              conversation.id === activeId
+                ? "bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300"
+                : "hover:bg-slate-100 dark:hover:bg-slate-800"
+            )}
+          >
+            {editingId === conversation.id ? (
+              <form onSubmit={submitRename} className="flex items-center gap-1">
+                <input
+                  autoFocus
+                  className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                  value={draftTitle}
+                  onChange={e => setDraftTitle(e.target.value)}
+                />
+                <button type="submit" className="p-1 text-emerald-600" title="Save">
+                  <Check size={14} />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400" title="Cancel">
+                  <X size={14} />
+                </button>
+              </form>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button onClick={() => onSelect(conversation.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                  <MessageSquare size={14} className="shrink-0 opacity-60" />
+                  <span className="truncate">{conversationTitle(conversation)}</span>
+                </button>
+                <div className="hidden group-hover:flex items-center gap-0.5 text-slate-400">
+                  <button onClick={() => startRename(conversation)} className="p-1 hover:text-slate-700 dark:hover:text-slate-200" title="Rename">
+                    <Pencil size={13} />
+                  </button>
+                  <button
+                    onClick={() => onArchive(conversation.id, !conversation.archived)}
+                    className="p-1 hover:text-slate-700 dark:hover:text-slate-200"
+                    title={conversation.archived ? 'Unarchive' : 'Archive'}
+                  >
+                    {conversation.archived ? <ArchiveRestore size={13} /> : <Archive size={13} />}
+                  </button>
+                  <button onClick={() => onDelete(conversation.id)} className="p-1 hover:text-red-500" title="Delete">
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
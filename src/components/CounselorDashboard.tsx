@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, TrendingDown, MessageSquare, ChevronLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import Markdown from 'react-markdown';
+import { cn } from '../lib/utils';
+import { apiFetch } from '../lib/api';
+import { Conversation, CounselorStudent, Message } from '../types';
+import MoodInsights from './MoodInsights';
+import { conversationTitle } from './ConversationSidebar';
+
+// Read-only view of the students who have shared their data with the signed-in counselor.
+export default function CounselorDashboard() {
+  const [students, setStudents] = useState<CounselorStudent[]>([]);
+  const [selected, setSelected] = useState<CounselorStudent | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [transcript, setTranscript] = useState<{ conversation: Conversation; messages: Message[] } | null>(null);
+
+  useEffect(() => {
+    apiFetch('/api/counselor/students')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setStudents)
+      .catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    setConversations([]);
+    setTranscript(null);
+    if (!selected?.include_transcripts) return;
+    apiFetch(`/api/counselor/students/${selected.id}/conversations`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setConversations)
+      .catch(console.error);
+  }, [selected]);
+
+  const openTranscript = async (conversation: Conversation) => {
+    const res = await apiFetch(`/api/counselor/students/${selected!.id}/conversations/${conversation.id}/messages`);
+    if (res.ok) setTranscript({ conversation, messages: await res.json() });
+  };
+
+  if (selected) {
+    return (
+      <div className="flex-1 flex flex-col gap-6">
+        <button onClick={() => setSelected(null)} className="self-start flex items-center gap-1 text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">
+          <ChevronLeft size={16} /> All students
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold">{selected.name}</h2>
+          <p className="text-sm text-slate-500">
+            {selected.email} · access until {format(new Date(selected.expires_at), 'MMM d, yyyy')}
+          </p>
+        </div>
+
+        <MoodInsights refreshKey={selected.id} endpoint={`/api/counselor/students/${selected.id}/moods/analytics`} />
+
+        <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm">
+          <h3 className="font-semibold mb-3">Chat transcripts</h3>
+          {!selected.include_transcripts ? (
+            <p className="text-sm text-slate-400">This student has shared their mood trends only.</p>
+          ) : transcript ? (
+            <div className="space-y-3">
+              <button onClick={() => setTranscript(null)} className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">
+                <ChevronLeft size={14} /> {conversationTitle(transcript.conversation)}
+              </button>
+              {transcript.messages.map(msg => (
+                <div
+                  key={msg.id}
+                  className={cn(
+                    "rounded-2xl px-4 py-2 text-sm max-w-[85%]",
+                    msg.role === 'user' ? "ml-auto bg-emerald-600 text-white" : "bg-slate-100 dark:bg-slate-800",
+                    msg.crisis && msg.role === 'user' && "ring-2 ring-rose-400"
+                  )}
+                >
+                  <div className="prose dark:prose-invert max-w-none text-sm"><Markdown>{msg.content}</Markdown></div>
+                  <p className="text-[10px] opacity-60 mt-1">{format(new Date(msg.timestamp), 'MMM d, HH:mm')}</p>
+                </div>
+              ))}
+            </div>
+          ) : conversations.length === 0 ? (
+            <p className="text-sm text-slate-400">No conversations yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {conversations.map(conversation => (
+                <li key={conversation.id}>
+                  <button
+                    onClick={() => openTranscript(conversation)}
+                    className="w-full flex items-center gap-2 text-left text-sm rounded-xl px-3 py-2 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    <MessageSquare size={14} className="opacity-60" />
+                    <span className="flex-1 truncate">{conversationTitle(conversation)}</span>
+                    <span className="text-xs text-slate-400">{format(new Date(conversation.updated_at), 'MMM d')}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <div>
+        <h2 className="text-2xl font-bold">Students</h2>
+        <p className="text-sm text-slate-500">Students who have chosen to share their data with you. Every view is recorded in their access history.</p>
+      </div>
+      {students.length === 0 ? (
+        <p className="text-sm text-slate-400">No students are sharing with you right now.</p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {students.map(student => (
+            <li key={student.id}>
+              <button
+                onClick={() => setSelected(student)}
+                className="w-full text-left bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800 hover:border-emerald-400 transition-colors space-y-2"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">{student.name}</p>
+                    <p className="text-xs text-slate-400">{student.email}</p>
+                  </div>
+                  <span className="text-xs text-slate-500">
+                    {student.flags.recentAverage !== null ? `7-day avg ${student.flags.recentAverage}` : 'No recent moods'}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {student.flags.crisisEvents > 0 && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300">
+                      <AlertTriangle size={12} /> {student.flags.crisisEvents} crisis event{student.flags.crisisEvents > 1 && 's'} in 30 days
+                    </span>
+                  )}
+                  {student.flags.sustainedLowMood && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                      <TrendingDown size={12} /> Sustained low mood
+                    </span>
+                  )}
+                  {student.include_transcripts && (
+                    <span className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500">Transcripts shared</span>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { LifeBuoy, Phone, MessageSquare, ExternalLink } from 'lucide-react';
+import { cn, telHref } from '../lib/utils';
+import { useI18n } from '../i18n';
+import { Helpline } from '../types';
+
+interface CrisisBannerProps {
+  helplines: Helpline[];
+  // Local emergency number for the student's region.
+  emergency?: string;
+  message?: string;
+  compact?: boolean;
+}
+
+export default function CrisisBanner({ helplines, emergency, message, compact }: CrisisBannerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "rounded-2xl border border-rose-200 dark:border-rose-900/50 bg-rose-50 dark:bg-rose-950/40 text-rose-900 dark:text-rose-100",
+        compact ? "px-4 py-2" : "p-4"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <LifeBuoy size={compact ? 16 : 20} className="shrink-0 mt-0.5 text-rose-600 dark:text-rose-400" />
+        <div className="flex-1 space-y-2">
+          {message ? (
+            <p className="text-sm md:text-base">{message}</p>
+          ) : (
+            <p className="text-sm font-medium">{t('crisis.banner')}</p>
+          )}
+          <ul className={cn("flex flex-wrap gap-2", compact && "text-xs")}>
+            {helplines.map(line => (
+              <li key={line.name} className="bg-white/70 dark:bg-slate-900/60 rounded-xl px-3 py-1.5 flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span className="font-semibold">{line.name}</span>
+                {line.phone && (
+                  <a href={telHref(line.phone)} className="flex items-center gap-1 hover:underline">
+                    <Phone size={12} /> {line.phone}
+                  </a>
+                )}
+                {line.text && (
+                  <span className="flex items-center gap-1">
+                    <MessageSquare size={12} /> {line.text}
+                  </span>
+                )}
+                {line.url && (
+                  <a href={line.url} target="_blank" rel="noreferrer" className="flex items-center gap-1 hover:underline">
+                    <ExternalLink size={12} /> {t('crisis.website')}
+                  </a>
+                )}
+              </li>
+            ))}
+            {emergency && (
+              <li className="bg-white/70 dark:bg-slate-900/60 rounded-xl px-3 py-1.5">
+                <a href={telHref(emergency)} className="flex items-center gap-1 font-semibold hover:underline">
+                  <Phone size={12} /> {t('crisis.emergency', { number: emergency })}
+                </a>
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
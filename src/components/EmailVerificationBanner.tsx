@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { MailCheck, X } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+interface EmailVerificationBannerProps {
+  email: string;
+  verified: boolean;
+  // Outcome of following an email link, shown instead of the reminder.
+  notice: string;
+  onDismissNotice: () => void;
+}
+
+export default function EmailVerificationBanner({ email, verified, notice, onDismissNotice }: EmailVerificationBannerProps) {
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+
+  const resend = async () => {
+    setSending(true);
+    setError('');
+    const res = await apiFetch('/api/auth/resend-verification', { method: 'POST' });
+    if (res.ok) setSent(true);
+    else setError((await res.json()).error);
+    setSending(false);
+  };
+
+  if (notice) {
+    return (
+      <div className="bg-emerald-50 dark:bg-emerald-900/20 text-emerald-800 dark:text-emerald-200 text-sm px-6 py-2 flex items-center justify-between gap-3">
+        <span>{notice}</span>
+        <button onClick={onDismissNotice} className="p-1 opacity-60 hover:opacity-100" title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+  if (verified) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-sm px-6 py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+      <MailCheck size={16} className="shrink-0" />
+      <span>Please confirm your email address. We sent a link to {email}.</span>
+      {sent ? (
+        <span className="font-medium">Sent! Check your inbox.</span>
+      ) : (
+        <button onClick={resend} disabled={sending} className="font-medium underline disabled:opacity-50">
+          Resend email
+        </button>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
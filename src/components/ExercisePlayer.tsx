@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Play, Square, Volume2, VolumeX } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { exerciseDuration } from '../lib/exercises';
+import { playPhaseCue } from '../lib/audioCue';
+import { Exercise, ExercisePhase } from '../types';
+
+export interface ExerciseResult {
+  exercise: Exercise['id'];
+  durationSeconds: number;
+  completed: boolean;
+  moodBefore: number | null;
+  moodAfter: number | null;
+}
+
+interface ExercisePlayerProps {
+  exercise: Exercise;
+  onFinish: (result: ExerciseResult) => void;
+  onClose: () => void;
+}
+
+const CIRCLE_SCALE: Record<ExercisePhase['kind'], number> = {
+  inhale: 1,
+  hold: 1,
+  exhale: 0.6,
+  focus: 0.85,
+};
+
+function RatingScale({ value, onChange }: { value: number | null; onChange: (value: number) => void }) {
+  return (
+    <div className="flex justify-between gap-1">
+      {Array.from({ length: 10 }, (_, i) => i + 1).map(n => (
+        <button
+          key={n}
+          type="button"
+          onClick={() => onChange(n)}
+          className={cn(
+            "w-8 h-8 rounded-lg text-sm font-medium transition-colors",
+            value === n ? "bg-emerald-600 text-white" : "bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700"
+          )}
+        >
+          {n}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function ExercisePlayer({ exercise, onFinish, onClose }: ExercisePlayerProps) {
+  const [stage, setStage] = useState<'intro' | 'running' | 'finish'>('intro');
+  const [elapsed, setElapsed] = useState(0);
+  const [audioOn, setAudioOn] = useState(false);
+  const [moodBefore, setMoodBefore] = useState<number | null>(null);
+  const [moodAfter, setMoodAfter] = useState<number | null>(null);
+  const lastPhaseRef = useRef(-1);
+
+  const total = exerciseDuration(exercise);
+
+  // One entry per phase across every cycle, with its start offset in seconds.
+  const schedule = useMemo(() => {
+    const entries: { phase: ExercisePhase; start: number; cycle: number }[] = [];
+    let start = 0;
+    for (let cycle = 1; cycle <= exercise.cycles; cycle++) {
+      for (const phase of exercise.phases) {
+        entries.push({ phase, start, cycle });
+        start += phase.seconds;
+      }
+    }
+    return entries;
+  }, [exercise]);
+
+  const currentIndex = schedule.filter(entry => entry.start <= elapsed).length - 1;
+  const current = schedule[Math.max(0, currentIndex)];
+  const remainingInPhase = current.start + current.phase.seconds - elapsed;
+
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage !== 'running') return;
+    if (elapsed >= total) {
+      setStage('finish');
+      return;
+    }
+    if (currentIndex !== lastPhaseRef.current) {
+      lastPhaseRef.current = currentIndex;
+      if (audioOn) playPhaseCue(current.phase.kind);
+    }
+  }, [stage, elapsed, currentIndex]);
+
+  const finish = () => {
+    onFinish({
+      exercise: exercise.id,
+      durationSeconds: Math.min(elapsed, total),
+      completed: elapsed >= total,
+      moodBefore,
+      moodAfter,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800"
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <p className="text-xs text-slate-500">{exercise.category}</p>
+            <h2 className="text-xl font-bold">{exercise.title}</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setAudioOn(!audioOn)}
+              className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500"
+              title={audioOn ? 'Mute sound cues' : 'Play sound cues'}
+            >
+              {audioOn ? <Volume2 size={18} /> : <VolumeX size={18} />}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {stage === 'intro' && (
+          <div className="space-y-5">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{exercise.description}</p>
+            <p className="text-xs text-slate-400">About {Math.round(total / 60) || 1} min</p>
+            <div>
+              <p className="text-sm font-medium mb-2">How calm do you feel right now? (optional)</p>
+              <RatingScale value={moodBefore} onChange={setMoodBefore} />
+            </div>
+            <button
+              onClick={() => setStage('running')}
+              className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <Play size={18} /> Begin
+            </button>
+          </div>
+        )}
+
+        {stage === 'running' && (
+          <div className="flex flex-col items-center gap-6 py-4">
+            <div className="relative w-48 h-48 flex items-center justify-center">
+              <motion.div
+                className="absolute inset-0 rounded-full bg-emerald-200/60 dark:bg-emerald-800/40"
+                animate={{ scale: CIRCLE_SCALE[current.phase.kind] }}
+                transition={{ duration: current.phase.kind === 'hold' ? 0.3 : current.phase.seconds, ease: 'easeInOut' }}
+                initial={{ scale: 0.6 }}
+              />
+              <span className="relative text-4xl font-bold tabular-nums text-emerald-700 dark:text-emerald-300">
+                {remainingInPhase}
+              </span>
+            </div>
+            <p className="text-center font-medium min-h-[3rem]">{current.phase.label}</p>
+            {exercise.cycles > 1 && (
+              <p className="text-xs text-slate-400">Cycle {current.cycle} of {exercise.cycles}</p>
+            )}
+            <div className="w-full h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500 transition-all duration-1000" style={{ width: `${(elapsed / total) * 100}%` }} />
+            </div>
+            <button
+              onClick={() => setStage('finish')}
+              className="text-sm text-slate-500 hover:text-red-500 flex items-center gap-1"
+            >
+              <Square size={14} /> Stop early
+            </button>
+          </div>
+        )}
+
+        {stage === 'finish' && (
+          <div className="space-y-5">
+            <p className="text-sm">
+              {elapsed >= total ? 'Well done. Take a moment to notice how you feel.' : 'Every bit of practice counts.'}
+            </p>
+            <div>
+              <p className="text-sm font-medium mb-2">How calm do you feel now? (optional)</p>
+              <RatingScale value={moodAfter} onChange={setMoodAfter} />
+            </div>
+            <button
+              onClick={finish}
+              className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors"
+            >
+              Save session
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
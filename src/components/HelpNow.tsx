@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, LifeBuoy, Phone, MessageSquare, ExternalLink } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { telHref } from '../lib/utils';
+import { CrisisResources } from '../types';
+
+interface HelpNowProps {
+  // Null lets the server pick its default region.
+  region: string | null;
+  onRegionChange: (region: string) => void;
+  onClose: () => void;
+}
+
+// Works without an account, so it can be opened from the login screen.
+export default function HelpNow({ region, onRegionChange, onClose }: HelpNowProps) {
+  const { locale, t } = useI18n();
+  const [resources, setResources] = useState<CrisisResources | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ locale, region: region ?? '' });
+    fetch(`/api/crisis/resources?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setResources)
+      .catch(console.error);
+  }, [locale, region]);
+
+  // Country codes are named in the interface language; the catch-all entry is not a country.
+  const regionNames = new Intl.DisplayNames([locale], { type: 'region' });
+  const regionName = (code: string, fallback: string) =>
+    code.length === 2 ? regionNames.of(code) ?? fallback : t('help.otherRegion');
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="help-now-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400 flex items-center justify-center">
+              <LifeBuoy size={22} />
+            </div>
+            <h2 id="help-now-title" className="text-xl font-bold">{t('help.title')}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-600 dark:text-slate-300">{t('help.intro')}</p>
+
+        {!resources ? (
+          <p className="text-sm text-slate-400">{t('help.loading')}</p>
+        ) : (
+          <>
+            <label className="flex items-center justify-between gap-3 text-sm">
+              {t('help.region')}
+              <select
+                value={resources.region}
+                onChange={e => onRegionChange(e.target.value)}
+                className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              >
+                {resources.regions.map(r => (
+                  <option key={r.code} value={r.code}>{regionName(r.code, r.name)}</option>
+                ))}
+              </select>
+            </label>
+
+            <a
+              href={telHref(resources.emergency)}
+              className="block rounded-2xl bg-rose-600 hover:bg-rose-700 text-white font-semibold text-center px-4 py-3 transition-colors"
+            >
+              {t('help.emergency', { number: resources.emergency })}
+            </a>
+
+            <ul className="space-y-3">
+              {resources.helplines.map(line => (
+                <li key={line.name} className="rounded-2xl border border-slate-200 dark:border-slate-800 p-4 space-y-2">
+                  <p className="font-semibold">{line.name}</p>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {line.phone && (
+                      <a href={telHref(line.phone)} className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 hover:underline">
+                        <Phone size={14} /> {t('help.call')} {line.phone}
+                      </a>
+                    )}
+                    {line.text && (
+                      <span className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-slate-100 dark:bg-slate-800">
+                        <MessageSquare size={14} /> {t('help.text')}: {line.text}
+                      </span>
+                    )}
+                    {line.url && (
+                      <a href={line.url} target="_blank" rel="noreferrer" className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:underline">
+                        <ExternalLink size={14} /> {t('crisis.website')}
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Plus, Trash2, Lightbulb, Lock, Sparkles } from 'lucide-react';
+import Markdown from 'react-markdown';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { onQueueChange, postOrQueue } from '../lib/offline';
+import { cn } from '../lib/utils';
+import { MOOD_EMOJIS } from '../lib/moods';
+import { JournalEntry, JournalPrompt, Mood, MoodEntry } from '../types';
+
+interface JournalViewProps {
+  // All mood entries; self check-ins from the last two weeks can be linked.
+  moods: MoodEntry[];
+}
+
+const LINKABLE_DAYS = 14;
+
+const EMPTY_DRAFT = { title: '', text: '', prompt: null as string | null, moodId: null as number | null, shareWithAi: false };
+
+const inputClass =
+  "w-full px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 outline-none focus:ring-2 focus:ring-emerald-500";
+
+export default function JournalView({ moods }: JournalViewProps) {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [prompts, setPrompts] = useState<{ basedOn: Mood | null; prompts: JournalPrompt[] }>({ basedOn: null, prompts: [] });
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [preview, setPreview] = useState(false);
+  const [error, setError] = useState('');
+  const [queued, setQueued] = useState(false);
+
+  const load = async () => {
+    const [entryRes, promptRes] = await Promise.all([apiFetch('/api/journal'), apiFetch('/api/journal/prompts')]);
+    if (entryRes.ok) setEntries(await entryRes.json());
+    if (promptRes.ok) setPrompts(await promptRes.json());
+  };
+
+  useEffect(() => {
+    load();
+    return onQueueChange(synced => {
+      if (synced) load();
+    });
+  }, []);
+
+  const open = (entry: JournalEntry | null) => {
+    setSelectedId(entry?.id ?? null);
+    setDraft(entry
+      ? { title: entry.title ?? '', text: entry.body, prompt: entry.prompt, moodId: entry.mood_id, shareWithAi: entry.share_with_ai }
+      : EMPTY_DRAFT);
+    setPreview(false);
+    setError('');
+    setQueued(false);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const body = { ...draft, title: draft.title || null };
+    // New entries can be written offline; edits need the saved entry.
+    const res = selectedId
+      ? await apiFetch(`/api/journal/${selectedId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+      : await postOrQueue('/api/journal', body);
+    if (!res) {
+      open(null);
+      setQueued(true);
+      return;
+    }
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error);
+      return;
+    }
+    setSelectedId(data.id);
+    load();
+  };
+
+  const remove = async () => {
+    if (!selectedId || !confirm('Delete this journal entry? This cannot be undone.')) return;
+    const res = await apiFetch(`/api/journal/${selectedId}`, { method: 'DELETE' });
+    if (!res.ok) return;
+    open(null);
+    load();
+  };
+
+  const cutoff = Date.now() - LINKABLE_DAYS * 24 * 60 * 60 * 1000;
+  const checkIns = moods
+    .filter(m => m.source === 'self' && (new Date(m.timestamp).getTime() > cutoff || m.id === draft.moodId))
+    .slice()
+    .reverse();
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex-1 flex flex-col md:flex-row gap-6 min-h-0">
+      <aside className="md:w-64 flex flex-col gap-3 min-h-0">
+        <button
+          onClick={() => open(null)}
+          className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+        >
+          <Plus size={16} /> New entry
+        </button>
+        <ul className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <button
+                onClick={() => open(entry)}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded-xl text-sm transition-colors",
+                  entry.id === selectedId ? "bg-emerald-50 dark:bg-emerald-900/20" : "hover:bg-slate-100 dark:hover:bg-slate-800"
+                )}
+              >
+                <p className="font-medium truncate">
+                  {entry.mood && `${MOOD_EMOJIS[entry.mood]} `}
+                  {entry.title || entry.body.split('\n')[0]}
+                </p>
+                <p className="text-xs text-slate-400 flex items-center gap-1">
+                  {format(new Date(entry.created_at), 'MMM d, yyyy')}
+                  {entry.share_with_ai && <Sparkles size={10} />}
+                </p>
+              </button>
+            </li>
+          ))}
+          {entries.length === 0 && <p className="text-sm text-slate-400 px-3">Your entries will appear here.</p>}
+        </ul>
+      </aside>
+
+      <form onSubmit={save} className="flex-1 flex flex-col gap-4 bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm min-h-0">
+        {!selectedId && prompts.prompts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+              <Lightbulb size={12} />
+              {prompts.basedOn ? `Prompts for when you've been feeling ${prompts.basedOn.toLowerCase()}` : 'Need a place to start?'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {prompts.prompts.map(prompt => (
+                <button
+                  key={prompt.text}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, prompt: draft.prompt === prompt.text ? null : prompt.text })}
+                  className={cn(
+                    "text-xs text-left px-3 py-1.5 rounded-full border transition-colors",
+                    draft.prompt === prompt.text
+                      ? "border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300"
+                      : "border-slate-200 dark:border-slate-700 hover:border-emerald-400"
+                  )}
+                >
+                  {prompt.text}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {draft.prompt && <p className="text-sm italic text-slate-600 dark:text-slate-300">{draft.prompt}</p>}
+
+        <input
+          type="text"
+          placeholder="Title (optional)"
+          maxLength={200}
+          value={draft.title}
+          onChange={e => setDraft({ ...draft, title: e.target.value })}
+          className={inputClass}
+        />
+
+        <div className="flex gap-2 text-xs">
+          {['Write', 'Preview'].map(tab => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setPreview(tab === 'Preview')}
+              className={cn(
+                "px-3 py-1 rounded-lg",
+                preview === (tab === 'Preview') ? "bg-slate-100 dark:bg-slate-800 font-semibold" : "text-slate-500"
+              )}
+            >
+              {tab}
+            </button>
+          ))}
+          <span className="ml-auto text-slate-400 self-center">Markdown supported</span>
+        </div>
+        {preview ? (
+          <div className="flex-1 min-h-48 overflow-y-auto custom-scrollbar prose dark:prose-invert max-w-none">
+            <Markdown>{draft.text || '*Nothing written yet.*'}</Markdown>
+          </div>
+        ) : (
+          <textarea
+            required
+            maxLength={20000}
+            placeholder="Write freely. Only you can see this."
+            value={draft.text}
+            onChange={e => setDraft({ ...draft, text: e.target.value })}
+            className={cn(inputClass, "flex-1 min-h-48 resize-none font-mono text-sm")}
+          />
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Linked check-in
+            <select
+              value={draft.moodId ?? ''}
+              onChange={e => setDraft({ ...draft, moodId: e.target.value ? Number(e.target.value) : null })}
+              className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+            >
+              <option value="">None</option>
+              {checkIns.map(m => (
+                <option key={m.id} value={m.id}>
+                  {MOOD_EMOJIS[m.mood]} {m.mood} · {format(new Date(m.timestamp), 'MMM d, HH:mm')}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2" title="Shared entries are included as background when you chat with MindfulMate.">
+            <input
+              type="checkbox"
+              checked={draft.shareWithAi}
+              onChange={e => setDraft({ ...draft, shareWithAi: e.target.checked })}
+              className="accent-emerald-600"
+            />
+            Let MindfulMate read this entry
+          </label>
+        </div>
+        {!draft.shareWithAi && (
+          <p className="text-xs text-slate-400 flex items-center gap-1">
+            <Lock size={12} /> Private: this entry is never sent to the AI.
+          </p>
+        )}
+
+        {queued && <p className="text-emerald-600 dark:text-emerald-400 text-sm">You're offline. Your entry is saved on this device and will be added to your journal when you reconnect.</p>}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 py-2 px-4 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl transition-colors">
+            {selectedId ? 'Save changes' : 'Save entry'}
+          </button>
+          {selectedId && (
+            <button type="button" onClick={remove} className="p-2 rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete entry">
+              <Trash2 size={18} />
+            </button>
+          )}
+        </div>
+      </form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useI18n, LOCALE_NAMES } from '../i18n';
+import { LOCALES, Locale } from '../types';
+
+interface LanguageSwitcherProps {
+  // Called after the interface switches, e.g. to save the choice to the account.
+  onChange?: (locale: Locale) => void;
+}
+
+export default function LanguageSwitcher({ onChange }: LanguageSwitcherProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 p-2 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('language.label')}>
+      <Globe size={20} />
+      <select
+        value={locale}
+        onChange={e => {
+          const next = e.target.value as Locale;
+          setLocale(next);
+          onChange?.(next);
+        }}
+        className="bg-transparent text-sm outline-none cursor-pointer"
+        aria-label={t('language.label')}
+      >
+        {LOCALES.map(l => (
+          <option key={l} value={l}>{LOCALE_NAMES[l]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Check, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { MemoryItem, MemoryOverview } from '../types';
+
+interface MemorySettingsProps {
+  onChange: (overview: MemoryOverview) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: string) => format(new Date(timestamp), 'MMM d, yyyy');
+
+export default function MemorySettings({ onChange, onClose }: MemorySettingsProps) {
+  const [overview, setOverview] = useState<MemoryOverview>({ summary: null, facts: [] });
+
+  const load = async () => {
+    const res = await apiFetch('/api/memory');
+    if (!res.ok) return;
+    const data: MemoryOverview = await res.json();
+    setOverview(data);
+    onChange(data);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const keep = async (id: number) => {
+    const res = await apiFetch(`/api/memory/${id}/keep`, { method: 'POST' });
+    if (res.ok) load();
+  };
+
+  const forget = async (id: number) => {
+    const res = await apiFetch(`/api/memory/${id}`, { method: 'DELETE' });
+    if (res.ok) load();
+  };
+
+  const forgetAll = async () => {
+    if (!confirm('Forget everything MindfulMate remembers about you? Your conversations are not affected.')) return;
+    const res = await apiFetch('/api/memory', { method: 'DELETE' });
+    if (res.ok) load();
+  };
+
+  const suggested = overview.facts.filter(f => f.status === 'suggested');
+  const kept = overview.facts.filter(f => f.status === 'kept');
+
+  const factRow = (fact: MemoryItem) => (
+    <li key={fact.id} className="flex items-center justify-between gap-3 text-sm border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2">
+      <div>
+        <p>{fact.content}</p>
+        <p className="text-xs text-slate-400">{formatDate(fact.created_at)}</p>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {fact.status === 'suggested' && (
+          <button onClick={() => keep(fact.id)} className="p-1.5 rounded-lg text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20" title="Remember this">
+            <Check size={16} />
+          </button>
+        )}
+        <button onClick={() => forget(fact.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Forget this">
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </li>
+  );
+
+  const isEmpty = !overview.summary && overview.facts.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-bold">What MindfulMate remembers</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              This is carried between conversations, even ones you clear, so you don't have to repeat yourself. Facts are only used once you choose to keep them.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        {isEmpty && <p className="text-sm text-slate-400">Nothing yet.</p>}
+
+        {suggested.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold">Should I remember these?</h3>
+            <ul className="space-y-2">{suggested.map(factRow)}</ul>
+          </section>
+        )}
+
+        {kept.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold">Things you asked me to remember</h3>
+            <ul className="space-y-2">{kept.map(factRow)}</ul>
+          </section>
+        )}
+
+        {overview.summary && (
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Notes from earlier conversations</h3>
+              <button onClick={() => forget(overview.summary!.id)} className="text-red-600 dark:text-red-400 text-xs font-semibold hover:underline">
+                Delete notes
+              </button>
+            </div>
+            <p className="text-sm whitespace-pre-line bg-slate-50 dark:bg-slate-800/50 rounded-xl px-3 py-2">{overview.summary.content}</p>
+            <p className="text-xs text-slate-400">Updated {formatDate(overview.summary.updated_at)}</p>
+          </section>
+        )}
+
+        {!isEmpty && (
+          <button
+            onClick={forgetAll}
+            className="w-full py-2 px-4 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 text-sm font-semibold rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+          >
+            Forget everything
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+}
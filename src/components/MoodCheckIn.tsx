@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { MOOD_EMOJIS, SUGGESTED_TAGS } from '../lib/moods';
+import { MOODS, Mood } from '../types';
+
+export interface CheckInInput {
+  mood: Mood;
+  intensity: number;
+  tags: string[];
+  note?: string;
+}
+
+interface MoodCheckInProps {
+  onSubmit: (checkIn: CheckInInput) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function MoodCheckIn({ onSubmit, onClose }: MoodCheckInProps) {
+  const [mood, setMood] = useState<Mood | null>(null);
+  const [intensity, setIntensity] = useState(5);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const addTag = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' && e.key !== ',') return;
+    e.preventDefault();
+    const tag = tagInput.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setTagInput('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mood) return;
+    setSaving(true);
+    setError('');
+    try {
+      await onSubmit({ mood, intensity, tags, note: note.trim() || undefined });
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.form
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <h2 className="text-xl font-bold">How are you feeling?</h2>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {MOODS.map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMood(m)}
+              className={cn(
+                "py-2 rounded-xl border text-sm flex flex-col items-center gap-1 transition-colors",
+                mood === m
+                  ? "border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20"
+                  : "border-slate-200 dark:border-slate-700 hover:border-emerald-300"
+              )}
+            >
+              <span className="text-2xl">{MOOD_EMOJIS[m]}</span>
+              {m}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <label className="flex justify-between text-sm font-medium mb-1">
+            Intensity <span className="text-slate-500">{intensity}/10</span>
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={10}
+            value={intensity}
+            onChange={e => setIntensity(Number(e.target.value))}
+            className="w-full accent-emerald-600"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">What's it about?</label>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {[...new Set([...SUGGESTED_TAGS, ...tags])].map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={cn(
+                  "text-xs px-3 py-1 rounded-full border transition-colors",
+                  tags.includes(tag)
+                    ? "bg-emerald-600 border-emerald-600 text-white"
+                    : "border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+                )}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            placeholder="Add your own tag and press Enter"
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+            value={tagInput}
+            onChange={e => setTagInput(e.target.value)}
+            onKeyDown={addTag}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Note (optional)</label>
+          <textarea
+            rows={3}
+            maxLength={1000}
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm outline-none focus:ring-2 focus:ring-emerald-500 resize-none"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+          />
+        </div>
+
+        {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+        <button
+          type="submit"
+          disabled={!mood || saving}
+          className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-semibold rounded-xl transition-colors"
+        >
+          Save check-in
+        </button>
+      </motion.form>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  Cell
+} from 'recharts';
+import { Flame, Clock, CalendarDays, Tag } from 'lucide-react';
+import { format, subDays, eachDayOfInterval, parseISO, startOfWeek } from 'date-fns';
+import { cn } from '../lib/utils';
+import { MOOD_EMOJIS } from '../lib/moods';
+import { apiFetch } from '../lib/api';
+import { MOODS, MoodAnalytics } from '../types';
+
+type RangePreset = '7d' | '30d' | '90d' | 'custom';
+
+const PRESET_DAYS: Record<Exclude<RangePreset, 'custom'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const MOOD_COLORS: Record<string, string> = {
+  Happy: '#10b981',
+  Neutral: '#94a3b8',
+  Stressed: '#f59e0b',
+  Sad: '#6366f1',
+  Anxious: '#a855f7',
+  Angry: '#ef4444',
+};
+
+const tooltipStyle = {
+  backgroundColor: '#fff',
+  borderRadius: '12px',
+  border: 'none',
+  boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)'
+};
+
+// Maps an average on the 1–5 mood scale to a heatmap cell colour.
+const heatColor = (value: number | null | undefined) => {
+  if (value == null) return 'bg-slate-100 dark:bg-slate-800';
+  if (value >= 4.5) return 'bg-emerald-500';
+  if (value >= 3.5) return 'bg-emerald-300 dark:bg-emerald-600';
+  if (value >= 2.5) return 'bg-slate-300 dark:bg-slate-500';
+  if (value >= 1.75) return 'bg-amber-300 dark:bg-amber-600';
+  return 'bg-indigo-400 dark:bg-indigo-600';
+};
+
+const isoDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+interface MoodInsightsProps {
+  // Changes whenever new moods are recorded, so the analytics are refetched.
+  refreshKey: number;
+  // Counselors view a student's analytics through their own endpoint.
+  endpoint?: string;
+}
+
+export default function MoodInsights({ refreshKey, endpoint = '/api/moods/analytics' }: MoodInsightsProps) {
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [customRange, setCustomRange] = useState({ from: isoDay(subDays(new Date(), 29)), to: isoDay(new Date()) });
+  const [analytics, setAnalytics] = useState<MoodAnalytics | null>(null);
+  const [error, setError] = useState('');
+
+  const range = preset === 'custom'
+    ? customRange
+    : { from: isoDay(subDays(new Date(), PRESET_DAYS[preset] - 1)), to: isoDay(new Date()) };
+
+  useEffect(() => {
+    if (range.from > range.to) return;
+    const params = new URLSearchParams({ ...range, tzOffset: String(new Date().getTimezoneOffset()) });
+    apiFetch(`${endpoint}?${params}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setAnalytics(data);
+        setError('');
+      })
+      .catch(err => setError(err.message));
+  }, [range.from, range.to, refreshKey, endpoint]);
+
+  const dailyByDate = new Map(analytics?.daily.map(d => [d.date, d]) ?? []);
+  const trendData = analytics?.daily.map(d => ({
+    time: format(parseISO(d.date), 'MMM d'),
+    value: d.average,
+    entries: d.count,
+  })) ?? [];
+  const distributionData = MOODS.map(mood => ({ mood, count: analytics?.distribution[mood] ?? 0 }));
+
+  const calendarDays = range.from <= range.to
+    ? eachDayOfInterval({ start: startOfWeek(parseISO(range.from)), end: parseISO(range.to) })
+    : [];
+
+  const withData = <T extends { average: number | null }>(items: T[]) => items.filter(i => i.average !== null);
+  const lowest = <T extends { average: number | null }>(items: T[]) =>
+    withData(items).sort((a, b) => a.average! - b.average!)[0];
+  const highest = <T extends { average: number | null }>(items: T[]) =>
+    withData(items).sort((a, b) => b.average! - a.average!)[0];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-2xl font-bold">Mood Trends</h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+            {(['7d', '30d', '90d', 'custom'] as RangePreset[]).map(p => (
+              <button
+                key={p}
+                onClick={() => setPreset(p)}
+                className={cn(
+                  "px-3 py-1 rounded-md transition-colors",
+                  preset === p ? "bg-white dark:bg-slate-900 shadow-sm font-medium" : "text-slate-500"
+                )}
+              >
+                {p === 'custom' ? 'Custom' : p}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={e => setCustomRange({ ...customRange, from: e.target.value })}
+                className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              />
+              <span className="text-slate-400">–</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={e => setCustomRange({ ...customRange, to: e.target.value })}
+                className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              />
+            </div>
+          )}
+          <span className="text-slate-500">{analytics?.total ?? 0} entries</span>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm h-[350px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={trendData}>
+            <defs>
+              <linearGradient id="colorMood" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
+                <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis
+              dataKey="time"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 10, fill: '#94a3b8' }}
+            />
+            <YAxis
+              domain={[0, 6]}
+              ticks={[1, 2, 3, 4, 5]}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fontSize: 10, fill: '#94a3b8' }}
+              tickFormatter={(val) => {
+                if (val === 5) return 'Happy';
+                if (val === 3) return 'Neutral';
+                if (val === 1) return 'Sad';
+                return '';
+              }}
+            />
+            <Tooltip contentStyle={tooltipStyle} labelStyle={{ fontWeight: 'bold', color: '#1e293b' }} />
+            <Area
+              type="monotone"
+              dataKey="value"
+              name="Daily average"
+              stroke="#10b981"
+              strokeWidth={3}
+              fillOpacity={1}
+              fill="url(#colorMood)"
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <p className="text-xs text-slate-500 flex items-center gap-1"><Flame size={12} /> Check-in streak</p>
+          <p className="text-2xl font-bold">{analytics?.streaks.current ?? 0} days</p>
+          <p className="text-xs text-slate-400">Longest: {analytics?.streaks.longest ?? 0}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <p className="text-xs text-slate-500 flex items-center gap-1"><Clock size={12} /> Time of day</p>
+          <p className="font-semibold">Best: {analytics && highest(analytics.timeOfDay)?.label || '—'}</p>
+          <p className="text-xs text-slate-400">Hardest: {analytics && lowest(analytics.timeOfDay)?.label || '—'}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <p className="text-xs text-slate-500 flex items-center gap-1"><CalendarDays size={12} /> Day of week</p>
+          <p className="font-semibold">Best: {analytics && highest(analytics.dayOfWeek)?.label || '—'}</p>
+          <p className="text-xs text-slate-400">Hardest: {analytics && lowest(analytics.dayOfWeek)?.label || '—'}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <p className="text-xs text-slate-500 flex items-center gap-1"><Tag size={12} /> Common triggers</p>
+          {analytics?.triggers.length ? (
+            <ul className="text-sm space-y-0.5">
+              {analytics.triggers.slice(0, 3).map(t => (
+                <li key={t.tag} className="flex justify-between">
+                  <span className="capitalize">{t.tag}</span>
+                  <span className="text-xs text-slate-400">{Math.round(t.negativeRate * 100)}% low</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-400">Not enough data yet</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm">
+          <h3 className="font-semibold mb-4">Mood distribution</h3>
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={distributionData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis
+                  dataKey="mood"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10, fill: '#94a3b8' }}
+                  tickFormatter={(mood) => `${MOOD_EMOJIS[mood]} ${mood}`}
+                />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                <Tooltip contentStyle={tooltipStyle} cursor={{ fill: 'rgba(148,163,184,0.1)' }} />
+                <Bar dataKey="count" name="Entries" radius={[6, 6, 0, 0]}>
+                  {distributionData.map(d => <Cell key={d.mood} fill={MOOD_COLORS[d.mood]} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-900 rounded-3xl p-6 border border-slate-200 dark:border-slate-800 shadow-sm">
+          <h3 className="font-semibold mb-4">Calendar</h3>
+          <div className="overflow-x-auto custom-scrollbar">
+            <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+              {calendarDays.map(day => {
+                const key = isoDay(day);
+                const entry = dailyByDate.get(key);
+                const outside = key < range.from;
+                return (
+                  <div
+                    key={key}
+                    title={entry ? `${format(day, 'MMM d')}: avg ${entry.average} (${entry.count} entries)` : format(day, 'MMM d')}
+                    className={cn("w-4 h-4 rounded-sm", outside ? "opacity-0" : heatColor(entry?.average))}
+                  />
+                );
+              })}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-3 text-[10px] text-slate-400">
+            Low
+            {[1, 2, 3, 4, 5].map(v => <span key={v} className={cn("w-3 h-3 rounded-sm", heatColor(v))} />)}
+            High
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { AppNotification } from '../types';
+import { cn } from '../lib/utils';
+
+interface NotificationBellProps {
+  // Called with the notification's in-app link, e.g. "/?open=check-in".
+  onOpen: (url: string) => void;
+}
+
+const POLL_MS = 60 * 1000;
+
+export default function NotificationBell({ onOpen }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const load = async () => {
+    const res = await apiFetch('/api/notifications');
+    if (res.ok) setNotifications(await res.json());
+  };
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const select = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read_at) {
+      await apiFetch(`/api/notifications/${notification.id}/read`, { method: 'POST' });
+      load();
+    }
+    onOpen(notification.url);
+  };
+
+  const markAllRead = async () => {
+    await apiFetch('/api/notifications/read', { method: 'POST' });
+    load();
+  };
+
+  const unread = notifications.filter(n => !n.read_at).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-600 dark:text-slate-400"
+        title="Notifications"
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-emerald-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 max-h-96 overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-xl z-20">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100 dark:border-slate-800">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unread > 0 && (
+              <button onClick={markAllRead} className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-slate-400">Nothing here yet.</p>
+          ) : (
+            <ul>
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => select(notification)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-800/50",
+                      !notification.read_at && "bg-emerald-50/60 dark:bg-emerald-900/10"
+                    )}
+                  >
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{notification.body}</p>
+                    <p className="text-[10px] text-slate-400 mt-1">{format(new Date(notification.created_at), 'MMM d, HH:mm')}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface OfflineBannerProps {
+  // Check-ins, journal entries and messages saved on this device, not yet sent.
+  queued: number;
+  // Saved items the server refused as invalid, kept until dismissed.
+  rejected: number;
+  onDismissRejected: () => void;
+  onGetHelp: () => void;
+}
+
+export default function OfflineBanner({ queued, rejected, onDismissRejected, onGetHelp }: OfflineBannerProps) {
+  const { t } = useI18n();
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (online && queued === 0 && rejected === 0) return null;
+
+  if (online && queued === 0) {
+    return (
+      <div role="alert" className="bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 text-sm px-6 py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span>{t('offline.rejected', { count: rejected })}</span>
+        <button onClick={onDismissRejected} className="font-medium underline">
+          {t('offline.dismiss')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-sm px-6 py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+      {online ? <RefreshCw size={16} className="shrink-0 animate-spin" /> : <CloudOff size={16} className="shrink-0" />}
+      <span>{online ? t('offline.sending', { count: queued }) : t('offline.banner')}</span>
+      {!online && queued > 0 && <span className="font-medium">{t('offline.waiting', { count: queued })}</span>}
+      {!online && (
+        <button onClick={onGetHelp} className="font-medium underline text-rose-600 dark:text-rose-400">
+          {t('help.open')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Download, AlertTriangle } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+interface PrivacySettingsProps {
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+const CSV_EXPORTS = [
+  { dataset: 'profile', label: 'Profile' },
+  { dataset: 'chats', label: 'Chats' },
+  { dataset: 'moods', label: 'Moods' },
+  { dataset: 'exerciseSessions', label: 'Exercises' },
+  { dataset: 'journal', label: 'Journal' },
+];
+
+export default function PrivacySettings({ onDeleted, onClose }: PrivacySettingsProps) {
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  // Downloads go through apiFetch rather than plain links so an expired
+  // access token is refreshed first.
+  const download = async (path: string, filename: string) => {
+    setError('');
+    const res = await apiFetch(path);
+    if (!res.ok) {
+      setError('Download failed, please try again');
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const deleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const res = await apiFetch('/api/account', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    if (res.ok) {
+      onDeleted();
+    } else {
+      setError((await res.json()).error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <h2 className="text-xl font-bold">Privacy & data</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">Export your data</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Download everything MindfulMate stores about you: your profile, conversations, moods and exercise sessions.
+          </p>
+          <button
+            onClick={() => download('/api/account/export.json', 'mindfulmate-export.json')}
+            className="flex items-center justify-center gap-2 py-2 px-4 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl transition-colors"
+          >
+            <Download size={16} /> Download all (JSON)
+          </button>
+          <div className="grid grid-cols-2 gap-2">
+            {CSV_EXPORTS.map(({ dataset, label }) => (
+              <button
+                key={dataset}
+                onClick={() => download(`/api/account/export/${dataset}.csv`, `mindfulmate-${dataset}.csv`)}
+                className="flex items-center justify-center gap-1 py-2 px-3 border border-slate-200 dark:border-slate-700 rounded-xl text-sm hover:border-emerald-400 transition-colors"
+              >
+                <Download size={14} /> {label} (CSV)
+              </button>
+            ))}
+          </div>
+          {error && !confirming && <p className="text-red-500 text-sm">{error}</p>}
+        </section>
+
+        <section className="space-y-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+          <h3 className="font-semibold text-red-600 dark:text-red-400">Delete account</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            This permanently deletes your account, chats, moods and all other data. It cannot be undone.
+          </p>
+          {confirming ? (
+            <form onSubmit={deleteAccount} className="space-y-3">
+              <input
+                type="password"
+                required
+                autoFocus
+                placeholder="Enter your password to confirm"
+                className="w-full px-4 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm outline-none focus:ring-2 focus:ring-red-500"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+              {error && <p className="text-red-500 text-sm">{error}</p>}
+              <button
+                type="submit"
+                className="w-full py-2 px-4 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                <AlertTriangle size={16} /> Permanently delete my account
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={() => setConfirming(true)}
+              className="w-full py-2 px-4 border border-red-200 dark:border-red-900 text-red-600 dark:text-red-400 text-sm font-semibold rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              Delete my account
+            </button>
+          )}
+        </section>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Plus, Trash2, BellRing } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { disablePush, enablePush, isPushEnabled, pushSupported } from '../lib/push';
+import { Reminder, ReminderActivity, ReminderKind, ReminderSettings as Settings } from '../types';
+import { cn } from '../lib/utils';
+
+interface ReminderSettingsProps {
+  onClose: () => void;
+}
+
+const ACTIVITY_LABELS: Record<ReminderActivity, string> = {
+  'check-in': 'Mood check-in',
+  breathing: 'Breathing break',
+  chat: 'Chat with MindfulMate',
+};
+
+const INTERVALS = [30, 60, 120, 180, 240];
+
+const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const inputClass = "px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800";
+
+const describe = (reminder: Reminder) => {
+  const activity = ACTIVITY_LABELS[reminder.activity];
+  if (reminder.kind === 'daily') return `${activity} every day at ${reminder.time_of_day}`;
+  if (reminder.kind === 'inactivity') return `Nudge after ${reminder.inactivity_days} days without a check-in`;
+  const minutes = reminder.interval_minutes!;
+  const every = minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+  return [
+    `${activity} every ${every}`,
+    reminder.window_start && `${reminder.window_start}–${reminder.window_end}`,
+    reminder.ends_on && `until ${format(new Date(`${reminder.ends_on}T00:00`), 'MMM d')}`,
+  ].filter(Boolean).join(', ');
+};
+
+export default function ReminderSettings({ onClose }: ReminderSettingsProps) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [pushOn, setPushOn] = useState(false);
+  const [form, setForm] = useState({
+    kind: 'daily' as ReminderKind,
+    activity: 'check-in' as ReminderActivity,
+    timeOfDay: '21:00',
+    intervalMinutes: 120,
+    windowStart: '',
+    windowEnd: '',
+    endsOn: '',
+    inactivityDays: 3,
+  });
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const [reminderRes, settingsRes] = await Promise.all([apiFetch('/api/reminders'), apiFetch('/api/reminders/settings')]);
+    if (reminderRes.ok) setReminders(await reminderRes.json());
+    if (settingsRes.ok) setSettings(await settingsRes.json());
+  };
+
+  useEffect(() => {
+    load();
+    isPushEnabled().then(setPushOn).catch(() => setPushOn(false));
+  }, []);
+
+  const saveSettings = async (changes: Partial<Settings>) => {
+    setError('');
+    const res = await apiFetch('/api/reminders/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...settings, ...changes }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error);
+      return;
+    }
+    setSettings(data);
+    load();
+  };
+
+  const addReminder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const body =
+      form.kind === 'daily' ? { kind: form.kind, activity: form.activity, timeOfDay: form.timeOfDay }
+      : form.kind === 'interval' ? {
+          kind: form.kind,
+          activity: form.activity,
+          intervalMinutes: form.intervalMinutes,
+          windowStart: form.windowStart || null,
+          windowEnd: form.windowEnd || null,
+          endsOn: form.endsOn || null,
+        }
+      : { kind: form.kind, inactivityDays: form.inactivityDays };
+    const res = await apiFetch('/api/reminders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      setError((await res.json()).error);
+      return;
+    }
+    load();
+  };
+
+  const toggle = async (reminder: Reminder) => {
+    const res = await apiFetch(`/api/reminders/${reminder.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !reminder.enabled }),
+    });
+    if (res.ok) load();
+  };
+
+  const remove = async (id: number) => {
+    const res = await apiFetch(`/api/reminders/${id}`, { method: 'DELETE' });
+    if (res.ok) load();
+  };
+
+  const togglePush = async () => {
+    setError('');
+    try {
+      if (pushOn) await disablePush();
+      else await enablePush();
+      setPushOn(!pushOn);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-bold">Reminders</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Gentle nudges to check in or take a break. They appear in the app, and on this device too if you turn on notifications.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        {pushSupported() && (
+          <button
+            onClick={togglePush}
+            className={cn(
+              "w-full py-2 px-4 text-sm font-semibold rounded-xl transition-colors flex items-center justify-center gap-2",
+              pushOn
+                ? "border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                : "bg-emerald-600 hover:bg-emerald-700 text-white"
+            )}
+          >
+            <BellRing size={16} /> {pushOn ? 'Turn off notifications on this device' : 'Turn on notifications on this device'}
+          </button>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="font-semibold">Your reminders</h3>
+          {reminders.length === 0 ? (
+            <p className="text-sm text-slate-400">No reminders yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {reminders.map(reminder => (
+                <li key={reminder.id} className="flex items-center justify-between gap-3 text-sm border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2">
+                  <div className={cn(!reminder.enabled && "opacity-50")}>
+                    <p>{describe(reminder)}</p>
+                    <p className="text-xs text-slate-400">
+                      {reminder.enabled && reminder.next_run_at
+                        ? `Next: ${format(new Date(`${reminder.next_run_at.replace(' ', 'T')}Z`), 'EEE MMM d, HH:mm')}`
+                        : 'Paused'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <label className="flex items-center gap-1 text-xs">
+                      <input type="checkbox" checked={reminder.enabled} onChange={() => toggle(reminder)} className="accent-emerald-600" />
+                      On
+                    </label>
+                    <button onClick={() => remove(reminder.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500" title="Delete reminder">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <form onSubmit={addReminder} className="space-y-3 text-sm">
+          <h3 className="font-semibold text-base">New reminder</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as ReminderKind })} className={inputClass}>
+              <option value="daily">Every day</option>
+              <option value="interval">Repeating</option>
+              <option value="inactivity">If I haven't checked in</option>
+            </select>
+            {form.kind !== 'inactivity' && (
+              <select value={form.activity} onChange={e => setForm({ ...form, activity: e.target.value as ReminderActivity })} className={inputClass}>
+                {(Object.keys(ACTIVITY_LABELS) as ReminderActivity[]).map(a => <option key={a} value={a}>{ACTIVITY_LABELS[a]}</option>)}
+              </select>
+            )}
+          </div>
+
+          {form.kind === 'daily' && (
+            <label className="flex items-center gap-2">
+              At
+              <input type="time" required value={form.timeOfDay} onChange={e => setForm({ ...form, timeOfDay: e.target.value })} className={inputClass} />
+            </label>
+          )}
+          {form.kind === 'interval' && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                Every
+                <select value={form.intervalMinutes} onChange={e => setForm({ ...form, intervalMinutes: Number(e.target.value) })} className={inputClass}>
+                  {INTERVALS.map(m => <option key={m} value={m}>{m < 60 ? `${m} minutes` : `${m / 60} hour${m === 60 ? '' : 's'}`}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-wrap items-center gap-2">
+                Between
+                <input type="time" value={form.windowStart} onChange={e => setForm({ ...form, windowStart: e.target.value })} className={inputClass} />
+                and
+                <input type="time" value={form.windowEnd} onChange={e => setForm({ ...form, windowEnd: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                Until
+                <input type="date" value={form.endsOn} onChange={e => setForm({ ...form, endsOn: e.target.value })} className={inputClass} />
+                <span className="text-xs text-slate-400">e.g. the end of exam week</span>
+              </label>
+            </div>
+          )}
+          {form.kind === 'inactivity' && (
+            <label className="flex items-center gap-2">
+              After
+              <input
+                type="number"
+                min={1}
+                max={30}
+                value={form.inactivityDays}
+                onChange={e => setForm({ ...form, inactivityDays: Number(e.target.value) })}
+                className={cn(inputClass, "w-16")}
+              />
+              days
+            </label>
+          )}
+          <button
+            type="submit"
+            className="w-full py-2 px-4 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus size={16} /> Add reminder
+          </button>
+        </form>
+
+        {settings && (
+          <section className="space-y-3 text-sm">
+            <h3 className="font-semibold text-base">Time zone and quiet hours</h3>
+            <label className="flex flex-wrap items-center gap-2">
+              Time zone
+              <select value={settings.timezone} onChange={e => saveSettings({ timezone: e.target.value })} className={inputClass}>
+                {!TIME_ZONES.includes(settings.timezone) && <option value={settings.timezone}>{settings.timezone}</option>}
+                {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+              </select>
+              {settings.timezone !== DEVICE_TIME_ZONE && (
+                <button type="button" onClick={() => saveSettings({ timezone: DEVICE_TIME_ZONE })} className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline">
+                  Use {DEVICE_TIME_ZONE}
+                </button>
+              )}
+            </label>
+            <label className="flex flex-wrap items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!settings.quietHoursStart}
+                onChange={e => saveSettings(e.target.checked ? { quietHoursStart: '22:00', quietHoursEnd: '08:00' } : { quietHoursStart: null, quietHoursEnd: null })}
+                className="accent-emerald-600"
+              />
+              Quiet hours
+              {settings.quietHoursStart && (
+                <>
+                  from
+                  <input type="time" value={settings.quietHoursStart} onChange={e => e.target.value && saveSettings({ quietHoursStart: e.target.value })} className={inputClass} />
+                  to
+                  <input type="time" value={settings.quietHoursEnd ?? ''} onChange={e => e.target.value && saveSettings({ quietHoursEnd: e.target.value })} className={inputClass} />
+                </>
+              )}
+            </label>
+            <p className="text-xs text-slate-400">Reminders due during quiet hours wait until they end.</p>
+          </section>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { cn } from '../lib/utils';
+import { MOOD_EMOJIS } from '../lib/moods';
+import { useI18n } from '../i18n';
+import { MOODS, SearchResult } from '../types';
+import { conversationTitle } from './ConversationSidebar';
+
+interface SearchPanelProps {
+  onOpen: (result: SearchResult) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const EMPTY_FILTERS = { role: '', mood: '', from: '', to: '' };
+
+const fieldClass = "px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-xs";
+
+export default function SearchPanel({ onOpen, onClose, className }: SearchPanelProps) {
+  const { t, dateLocale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [error, setError] = useState('');
+
+  const search = async () => {
+    if (!query.trim()) return;
+    const params = new URLSearchParams({ q: query, tzOffset: String(new Date().getTimezoneOffset()) });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    const res = await apiFetch(`/api/search?${params}`);
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error);
+      setResults(null);
+      return;
+    }
+    setError('');
+    setResults(data);
+  };
+
+  // Changing a filter re-runs the current search.
+  useEffect(() => {
+    search();
+  }, [filters]);
+
+  return (
+    <aside className={cn("w-64 shrink-0 flex flex-col gap-3 min-h-0", className)}>
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          search();
+        }}
+        className="flex items-center gap-2"
+      >
+        <div className="flex-1 flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 focus-within:ring-2 focus-within:ring-emerald-500">
+          <Search size={14} className="text-slate-400 shrink-0" />
+          <input
+            autoFocus
+            type="search"
+            maxLength={200}
+            placeholder={t('search.placeholder')}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className="w-full bg-transparent outline-none text-sm"
+          />
+        </div>
+        <button type="button" onClick={onClose} className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800" title={t('search.close')}>
+          <X size={16} />
+        </button>
+      </form>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={filters.role} onChange={e => setFilters({ ...filters, role: e.target.value })} className={fieldClass}>
+          <option value="">{t('search.anyone')}</option>
+          <option value="user">{t('search.me')}</option>
+          <option value="bot">MindfulMate</option>
+        </select>
+        <select value={filters.mood} onChange={e => setFilters({ ...filters, mood: e.target.value })} className={fieldClass}>
+          <option value="">{t('search.anyMood')}</option>
+          {MOODS.map(mood => (
+            <option key={mood} value={mood}>{MOOD_EMOJIS[mood]} {t(`mood.${mood}`)}</option>
+          ))}
+        </select>
+        <label className="text-[10px] text-slate-500 flex flex-col gap-0.5">
+          {t('search.from')}
+          <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => setFilters({ ...filters, from: e.target.value })} className={fieldClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 flex flex-col gap-0.5">
+          {t('search.to')}
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => setFilters({ ...filters, to: e.target.value })} className={fieldClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <ul className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+        {results === null && !error && <li className="text-xs text-slate-400 px-1">{t('search.hint')}</li>}
+        {results?.length === 0 && <li className="text-xs text-slate-400 text-center py-4">{t('search.noResults')}</li>}
+        {results?.map(result => (
+          <li key={result.id}>
+            <button
+              onClick={() => onOpen(result)}
+              className="w-full text-left rounded-xl px-3 py-2 text-sm hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              <p className="text-[10px] text-slate-400 flex items-center gap-1">
+                <span className="truncate">{conversationTitle({ title: result.conversation_title })}</span>
+                <span className="shrink-0">· {format(new Date(result.timestamp), 'MMM d, yyyy', { locale: dateLocale })}</span>
+                {result.mood && <span className="shrink-0">{MOOD_EMOJIS[result.mood]}</span>}
+              </p>
+              <p className={cn("line-clamp-3", result.role === 'bot' && "text-slate-600 dark:text-slate-300")}>
+                {result.role === 'bot' && <span className="font-semibold">MindfulMate: </span>}
+                {result.snippet.map((part, i) =>
+                  part.hit ? (
+                    <mark key={i} className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded px-0.5">{part.text}</mark>
+                  ) : (
+                    <React.Fragment key={i}>{part.text}</React.Fragment>
+                  )
+                )}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
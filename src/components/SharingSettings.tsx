@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { X, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiFetch } from '../lib/api';
+import { AccessLogEntry, ConsentGrant, Counselor } from '../types';
+
+interface SharingSettingsProps {
+  onClose: () => void;
+}
+
+const DURATIONS = [7, 30, 90, 180];
+
+const ACTION_LABELS: Record<string, string> = {
+  grant_created: 'You shared your data',
+  grant_revoked: 'You stopped sharing',
+  view_summary: 'Saw your check-in summary',
+  view_moods: 'Viewed your mood trends',
+  view_conversations: 'Listed your conversations',
+  view_transcript: 'Read a chat transcript',
+};
+
+const formatDate = (timestamp: string) => format(new Date(timestamp), 'MMM d, yyyy HH:mm');
+
+export default function SharingSettings({ onClose }: SharingSettingsProps) {
+  const [counselors, setCounselors] = useState<Counselor[]>([]);
+  const [grants, setGrants] = useState<ConsentGrant[]>([]);
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([]);
+  const [form, setForm] = useState({ counselorId: '', includeTranscripts: false, days: 30 });
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const [counselorRes, grantRes, logRes] = await Promise.all([
+      apiFetch('/api/sharing/counselors'),
+      apiFetch('/api/sharing/grants'),
+      apiFetch('/api/sharing/access-log'),
+    ]);
+    if (counselorRes.ok) setCounselors(await counselorRes.json());
+    if (grantRes.ok) setGrants(await grantRes.json());
+    if (logRes.ok) setAccessLog(await logRes.json());
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const share = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const res = await apiFetch('/api/sharing/grants', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...form, counselorId: Number(form.counselorId) }),
+    });
+    if (!res.ok) {
+      setError((await res.json()).error);
+      return;
+    }
+    setForm({ ...form, counselorId: '', includeTranscripts: false });
+    load();
+  };
+
+  const revoke = async (id: number) => {
+    const res = await apiFetch(`/api/sharing/grants/${id}`, { method: 'DELETE' });
+    if (res.ok) load();
+  };
+
+  const activeGrants = grants.filter(g => g.active);
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-3xl shadow-xl p-6 border border-slate-200 dark:border-slate-800 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-bold">Share with a counselor</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Give a campus counselor read-only access to your mood trends, and optionally your chats. You can stop sharing at any time.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-slate-500">
+            <X size={18} />
+          </button>
+        </div>
+
+        {counselors.length === 0 ? (
+          <p className="text-sm text-slate-400">No counselors are available yet.</p>
+        ) : (
+          <form onSubmit={share} className="space-y-3">
+            <select
+              required
+              value={form.counselorId}
+              onChange={e => setForm({ ...form, counselorId: e.target.value })}
+              className="w-full px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm"
+            >
+              <option value="">Choose a counselor…</option>
+              {counselors.map(c => (
+                <option key={c.id} value={c.id}>{c.name} ({c.email})</option>
+              ))}
+            </select>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                For
+                <select
+                  value={form.days}
+                  onChange={e => setForm({ ...form, days: Number(e.target.value) })}
+                  className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+                >
+                  {DURATIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.includeTranscripts}
+                  onChange={e => setForm({ ...form, includeTranscripts: e.target.checked })}
+                  className="accent-emerald-600"
+                />
+                Include chat transcripts
+              </label>
+            </div>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              type="submit"
+              className="w-full py-2 px-4 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <UserCheck size={16} /> Share
+            </button>
+          </form>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="font-semibold">Currently sharing with</h3>
+          {activeGrants.length === 0 ? (
+            <p className="text-sm text-slate-400">Nobody</p>
+          ) : (
+            <ul className="space-y-2">
+              {activeGrants.map(grant => (
+                <li key={grant.id} className="flex items-center justify-between gap-3 text-sm border border-slate-200 dark:border-slate-800 rounded-xl px-3 py-2">
+                  <div>
+                    <p className="font-medium">{grant.counselor.name}</p>
+                    <p className="text-xs text-slate-400">
+                      Moods{grant.include_transcripts && ' and chats'} · until {formatDate(grant.expires_at)}
+                    </p>
+                  </div>
+                  <button onClick={() => revoke(grant.id)} className="text-red-600 dark:text-red-400 text-xs font-semibold hover:underline">
+                    Stop sharing
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-semibold">Access history</h3>
+          {accessLog.length === 0 ? (
+            <p className="text-sm text-slate-400">No one has accessed your data.</p>
+          ) : (
+            <ul className="space-y-1 text-sm max-h-48 overflow-y-auto custom-scrollbar">
+              {accessLog.map(entry => (
+                <li key={entry.id} className="flex justify-between gap-3">
+                  <span>
+                    {entry.action.startsWith('grant_') ? '' : `${entry.actor_name ?? 'Deleted account'}: `}
+                    {ACTION_LABELS[entry.action] ?? entry.action}
+                  </span>
+                  <span className="text-xs text-slate-400 shrink-0">{formatDate(entry.created_at)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </motion.div>
+    </div>
+  );
+}
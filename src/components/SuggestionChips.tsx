@@ -0,0 +1,32 @@
+import React from 'react';
+import { Check, Play } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { Suggestion } from '../types';
+
+interface SuggestionChipsProps {
+  suggestions: Suggestion[];
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+export default function SuggestionChips({ suggestions, onSelect }: SuggestionChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion.id}
+          onClick={() => onSelect(suggestion)}
+          title={suggestion.exercise ? 'Start this exercise' : suggestion.tried_at ? 'Tried' : 'Mark as tried'}
+          className={cn(
+            "text-xs px-3 py-1.5 rounded-full border flex items-center gap-1.5 transition-colors",
+            suggestion.tried_at
+              ? "bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300"
+              : "bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 hover:border-emerald-400 text-slate-600 dark:text-slate-300"
+          )}
+        >
+          {suggestion.exercise ? <Play size={12} /> : suggestion.tried_at && <Check size={12} />}
+          {suggestion.text}
+        </button>
+      ))}
+    </div>
+  );
+}
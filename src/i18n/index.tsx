@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { enUS, es as esDates, fr as frDates, zhCN, type Locale as DateLocale } from 'date-fns/locale';
+import { LOCALES, Locale } from '../types';
+import { en, MessageKey, Messages } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import { zh } from './messages/zh';
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr, zh };
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, es: esDates, fr: frDates, zh: zhCN };
+
+// Each language named in itself, for the switcher.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  zh: '中文',
+};
+
+const STORAGE_KEY = 'locale';
+
+// First supported locale among BCP 47 tags such as "es-MX" or "zh-Hans-CN".
+export const matchLocale = (tags: readonly string[]): Locale | null => {
+  for (const tag of tags) {
+    const language = tag.toLowerCase().split('-')[0];
+    const locale = LOCALES.find(l => l === language);
+    if (locale) return locale;
+  }
+  return null;
+};
+
+// Country from the first language tag that names one, e.g. "en-GB" -> "GB".
+export const regionFromLanguages = (tags: readonly string[]): string | null => {
+  for (const tag of tags) {
+    const region = tag.split('-').slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+    if (region) return region.toUpperCase();
+  }
+  return null;
+};
+
+// A choice made on this device wins over the browser's languages; the
+// account's saved locale is applied by the app once the user is known.
+export const detectLocale = (): Locale =>
+  matchLocale([localStorage.getItem(STORAGE_KEY) ?? '', ...navigator.languages]) ?? 'en';
+
+export const translate = (locale: Locale, key: MessageKey, vars: Record<string, string | number> = {}) =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) => (name in vars ? String(vars[name]) : placeholder));
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string;
+  // For date-fns `format`, so month names follow the interface language.
+  dateLocale: DateLocale;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLocaleState(next);
+  };
+
+  const value: I18nContextValue = {
+    locale,
+    setLocale,
+    t: (key, vars) => translate(locale, key, vars),
+    dateLocale: DATE_LOCALES[locale],
+  };
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
+
+export type { MessageKey };
@@ -0,0 +1,90 @@
+// English is the source catalog: every other locale must define the same keys.
+export const en = {
+  'language.label': 'Language',
+
+  'auth.tagline': 'Your student mental health companion',
+  'auth.title.login': 'Log In',
+  'auth.title.signup': 'Sign Up',
+  'auth.title.forgot': 'Send reset link',
+  'auth.title.reset': 'Set new password',
+  'auth.name': 'Name',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.newPassword': 'New password',
+  'auth.forgotPassword': 'Forgot password?',
+  'auth.passwordHint': 'At least 10 characters, with letters and a number or symbol.',
+  'auth.toSignup': "Don't have an account? Sign Up",
+  'auth.toLogin': 'Already have an account? Log In',
+  'auth.backToLogin': 'Back to log in',
+  'auth.error': 'Something went wrong',
+
+  'app.welcome': 'Welcome back, {name}',
+  'app.conversations': 'Conversations',
+  'app.checkIn': 'Mood Check-in',
+  'app.moodHistory': 'Mood History',
+  'app.backToChat': 'Back to Chat',
+  'app.journal': 'Journal',
+  'app.counselorDashboard': 'Counselor dashboard',
+  'app.adminConsole': 'Admin console',
+  'app.reminders': 'Reminders',
+  'app.memory': 'What MindfulMate remembers',
+  'app.sharing': 'Share with a counselor',
+  'app.privacy': 'Privacy & data',
+  'app.toggleTheme': 'Switch light or dark theme',
+  'app.logout': 'Log out',
+  'app.emailConfirmed': 'Thanks! Your email address is confirmed.',
+  'app.emptyTitle': 'How are you feeling today?',
+  'app.emptyBody': "I'm here to listen, support, and help you navigate through student life stress.",
+  'app.clearChat': 'Clear Chat',
+  'app.confirmClear': 'Are you sure you want to clear this conversation?',
+  'app.confirmDelete': 'Delete this conversation? This cannot be undone.',
+  'app.placeholder': "Share what's on your mind...",
+  'app.disclaimer': 'This chatbot is for support only and is not a replacement for professional mental health care.',
+  'app.recentSessions': 'Recent sessions',
+  'app.completed': 'Completed',
+  'app.minutes': '{count} min',
+  'app.calm': 'calm {before} → {after}',
+
+  'mood.Happy': 'Happy',
+  'mood.Neutral': 'Neutral',
+  'mood.Stressed': 'Stressed',
+  'mood.Sad': 'Sad',
+  'mood.Anxious': 'Anxious',
+  'mood.Angry': 'Angry',
+
+  'crisis.banner': "You don't have to go through this alone. Help is available right now.",
+  'crisis.website': 'Website',
+  'crisis.emergency': 'Emergency: {number}',
+
+  'search.open': 'Search messages',
+  'search.placeholder': 'Search your conversations…',
+  'search.close': 'Back to conversations',
+  'search.anyone': 'Anyone',
+  'search.me': 'Me',
+  'search.anyMood': 'Any mood',
+  'search.from': 'From',
+  'search.to': 'To',
+  'search.hint': 'Search for words of 3 or more characters. Use "quotes" for an exact phrase.',
+  'search.noResults': 'No messages found.',
+
+  'offline.banner': "You're offline. Check-ins, new journal entries and messages are saved on this device and sent when you reconnect.",
+  'offline.waiting': '{count} waiting to send',
+  'offline.sending': 'Back online. Sending {count} saved item(s)…',
+  'offline.pending': 'Waiting to send',
+  'offline.rejected': "{count} item(s) saved offline couldn't be sent because they weren't accepted.",
+  'offline.dismiss': 'Dismiss',
+
+  'help.open': 'Get help now',
+  'help.title': 'Get help now',
+  'help.intro': 'If you are struggling, you can talk to someone right now. These services are free and confidential.',
+  'help.emergency': 'In immediate danger? Call {number}.',
+  'help.region': 'Where are you?',
+  'help.otherRegion': 'Other countries',
+  'help.call': 'Call',
+  'help.text': 'Text',
+  'help.loading': 'Loading…',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,87 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'language.label': 'Idioma',
+
+  'auth.tagline': 'Tu compañero de bienestar emocional como estudiante',
+  'auth.title.login': 'Iniciar sesión',
+  'auth.title.signup': 'Crear cuenta',
+  'auth.title.forgot': 'Enviar enlace de restablecimiento',
+  'auth.title.reset': 'Nueva contraseña',
+  'auth.name': 'Nombre',
+  'auth.email': 'Correo electrónico',
+  'auth.password': 'Contraseña',
+  'auth.newPassword': 'Nueva contraseña',
+  'auth.forgotPassword': '¿Olvidaste tu contraseña?',
+  'auth.passwordHint': 'Al menos 10 caracteres, con letras y un número o símbolo.',
+  'auth.toSignup': '¿No tienes cuenta? Regístrate',
+  'auth.toLogin': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.backToLogin': 'Volver a iniciar sesión',
+  'auth.error': 'Algo salió mal',
+
+  'app.welcome': 'Hola de nuevo, {name}',
+  'app.conversations': 'Conversaciones',
+  'app.checkIn': 'Registro de ánimo',
+  'app.moodHistory': 'Historial de ánimo',
+  'app.backToChat': 'Volver al chat',
+  'app.journal': 'Diario',
+  'app.counselorDashboard': 'Panel de orientación',
+  'app.adminConsole': 'Consola de administración',
+  'app.reminders': 'Recordatorios',
+  'app.memory': 'Lo que MindfulMate recuerda',
+  'app.sharing': 'Compartir con un orientador',
+  'app.privacy': 'Privacidad y datos',
+  'app.toggleTheme': 'Cambiar entre tema claro y oscuro',
+  'app.logout': 'Cerrar sesión',
+  'app.emailConfirmed': '¡Gracias! Tu correo electrónico está confirmado.',
+  'app.emptyTitle': '¿Cómo te sientes hoy?',
+  'app.emptyBody': 'Estoy aquí para escucharte, apoyarte y ayudarte con el estrés de la vida estudiantil.',
+  'app.clearChat': 'Borrar chat',
+  'app.confirmClear': '¿Seguro que quieres borrar esta conversación?',
+  'app.confirmDelete': '¿Eliminar esta conversación? No se puede deshacer.',
+  'app.placeholder': 'Cuéntame qué tienes en mente...',
+  'app.disclaimer': 'Este chatbot es solo de apoyo y no sustituye la atención profesional de salud mental.',
+  'app.recentSessions': 'Sesiones recientes',
+  'app.completed': 'Completada',
+  'app.minutes': '{count} min',
+  'app.calm': 'calma {before} → {after}',
+
+  'mood.Happy': 'Feliz',
+  'mood.Neutral': 'Neutral',
+  'mood.Stressed': 'Estresado/a',
+  'mood.Sad': 'Triste',
+  'mood.Anxious': 'Ansioso/a',
+  'mood.Angry': 'Enfadado/a',
+
+  'crisis.banner': 'No tienes que pasar por esto solo/a. Hay ayuda disponible ahora mismo.',
+  'crisis.website': 'Sitio web',
+  'crisis.emergency': 'Emergencias: {number}',
+
+  'search.open': 'Buscar mensajes',
+  'search.placeholder': 'Busca en tus conversaciones…',
+  'search.close': 'Volver a las conversaciones',
+  'search.anyone': 'Cualquiera',
+  'search.me': 'Yo',
+  'search.anyMood': 'Cualquier ánimo',
+  'search.from': 'Desde',
+  'search.to': 'Hasta',
+  'search.hint': 'Busca palabras de 3 o más caracteres. Usa "comillas" para una frase exacta.',
+  'search.noResults': 'No se encontraron mensajes.',
+
+  'offline.banner': 'Estás sin conexión. Los registros de ánimo, las nuevas entradas del diario y los mensajes se guardan en este dispositivo y se envían al volver a conectarte.',
+  'offline.waiting': '{count} pendientes de envío',
+  'offline.sending': 'Conexión recuperada. Enviando {count} elemento(s) guardado(s)…',
+  'offline.pending': 'Pendiente de envío',
+  'offline.rejected': 'No se pudieron enviar {count} elemento(s) guardado(s) sin conexión porque no fueron aceptados.',
+  'offline.dismiss': 'Descartar',
+
+  'help.open': 'Pedir ayuda ahora',
+  'help.title': 'Pedir ayuda ahora',
+  'help.intro': 'Si lo estás pasando mal, puedes hablar con alguien ahora mismo. Estos servicios son gratuitos y confidenciales.',
+  'help.emergency': '¿Estás en peligro inmediato? Llama al {number}.',
+  'help.region': '¿Dónde estás?',
+  'help.otherRegion': 'Otros países',
+  'help.call': 'Llamar',
+  'help.text': 'Mensaje',
+  'help.loading': 'Cargando…',
+};
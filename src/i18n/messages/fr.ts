@@ -0,0 +1,87 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  'language.label': 'Langue',
+
+  'auth.tagline': 'Ton compagnon de bien-être étudiant',
+  'auth.title.login': 'Se connecter',
+  'auth.title.signup': "S'inscrire",
+  'auth.title.forgot': 'Envoyer le lien de réinitialisation',
+  'auth.title.reset': 'Nouveau mot de passe',
+  'auth.name': 'Nom',
+  'auth.email': 'E-mail',
+  'auth.password': 'Mot de passe',
+  'auth.newPassword': 'Nouveau mot de passe',
+  'auth.forgotPassword': 'Mot de passe oublié ?',
+  'auth.passwordHint': 'Au moins 10 caractères, avec des lettres et un chiffre ou un symbole.',
+  'auth.toSignup': "Pas encore de compte ? S'inscrire",
+  'auth.toLogin': 'Déjà un compte ? Se connecter',
+  'auth.backToLogin': 'Retour à la connexion',
+  'auth.error': "Une erreur s'est produite",
+
+  'app.welcome': 'Bon retour, {name}',
+  'app.conversations': 'Conversations',
+  'app.checkIn': "Bilan d'humeur",
+  'app.moodHistory': "Historique d'humeur",
+  'app.backToChat': 'Retour au chat',
+  'app.journal': 'Journal',
+  'app.counselorDashboard': 'Tableau de bord conseiller',
+  'app.adminConsole': "Console d'administration",
+  'app.reminders': 'Rappels',
+  'app.memory': 'Ce dont MindfulMate se souvient',
+  'app.sharing': 'Partager avec un conseiller',
+  'app.privacy': 'Confidentialité et données',
+  'app.toggleTheme': 'Basculer entre thème clair et sombre',
+  'app.logout': 'Se déconnecter',
+  'app.emailConfirmed': 'Merci ! Ton adresse e-mail est confirmée.',
+  'app.emptyTitle': "Comment te sens-tu aujourd'hui ?",
+  'app.emptyBody': "Je suis là pour t'écouter, te soutenir et t'aider à gérer le stress de la vie étudiante.",
+  'app.clearChat': 'Effacer le chat',
+  'app.confirmClear': 'Veux-tu vraiment effacer cette conversation ?',
+  'app.confirmDelete': 'Supprimer cette conversation ? Cette action est irréversible.',
+  'app.placeholder': "Dis-moi ce que tu as en tête...",
+  'app.disclaimer': 'Ce chatbot offre uniquement du soutien et ne remplace pas un suivi professionnel en santé mentale.',
+  'app.recentSessions': 'Séances récentes',
+  'app.completed': 'Terminée',
+  'app.minutes': '{count} min',
+  'app.calm': 'calme {before} → {after}',
+
+  'mood.Happy': 'Heureux·se',
+  'mood.Neutral': 'Neutre',
+  'mood.Stressed': 'Stressé·e',
+  'mood.Sad': 'Triste',
+  'mood.Anxious': 'Anxieux·se',
+  'mood.Angry': 'En colère',
+
+  'crisis.banner': "Tu n'as pas à traverser ça seul·e. De l'aide est disponible dès maintenant.",
+  'crisis.website': 'Site web',
+  'crisis.emergency': 'Urgences : {number}',
+
+  'search.open': 'Rechercher des messages',
+  'search.placeholder': 'Rechercher dans tes conversations…',
+  'search.close': 'Retour aux conversations',
+  'search.anyone': 'Tout le monde',
+  'search.me': 'Moi',
+  'search.anyMood': 'Toutes les humeurs',
+  'search.from': 'Du',
+  'search.to': 'Au',
+  'search.hint': 'Cherche des mots de 3 caractères ou plus. Utilise des "guillemets" pour une expression exacte.',
+  'search.noResults': 'Aucun message trouvé.',
+
+  'offline.banner': "Tu es hors ligne. Les bilans d'humeur, les nouvelles entrées du journal et les messages sont enregistrés sur cet appareil et envoyés dès ton retour en ligne.",
+  'offline.waiting': "{count} en attente d'envoi",
+  'offline.sending': 'De retour en ligne. Envoi de {count} élément(s) enregistré(s)…',
+  'offline.pending': "En attente d'envoi",
+  'offline.rejected': "{count} élément(s) enregistré(s) hors ligne n'ont pas pu être envoyés car ils n'ont pas été acceptés.",
+  'offline.dismiss': 'Ignorer',
+
+  'help.open': "Obtenir de l'aide",
+  'help.title': "Obtenir de l'aide maintenant",
+  'help.intro': "Si c'est difficile en ce moment, tu peux parler à quelqu'un tout de suite. Ces services sont gratuits et confidentiels.",
+  'help.emergency': 'En danger immédiat ? Appelle le {number}.',
+  'help.region': 'Où es-tu ?',
+  'help.otherRegion': 'Autres pays',
+  'help.call': 'Appeler',
+  'help.text': 'SMS',
+  'help.loading': 'Chargement…',
+};
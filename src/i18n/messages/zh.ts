@@ -0,0 +1,87 @@
+import type { Messages } from './en';
+
+export const zh: Messages = {
+  'language.label': '语言',
+
+  'auth.tagline': '你的学生心理健康伙伴',
+  'auth.title.login': '登录',
+  'auth.title.signup': '注册',
+  'auth.title.forgot': '发送重置链接',
+  'auth.title.reset': '设置新密码',
+  'auth.name': '姓名',
+  'auth.email': '电子邮箱',
+  'auth.password': '密码',
+  'auth.newPassword': '新密码',
+  'auth.forgotPassword': '忘记密码？',
+  'auth.passwordHint': '至少 10 个字符，包含字母以及数字或符号。',
+  'auth.toSignup': '还没有账号？注册',
+  'auth.toLogin': '已有账号？登录',
+  'auth.backToLogin': '返回登录',
+  'auth.error': '出了点问题',
+
+  'app.welcome': '欢迎回来，{name}',
+  'app.conversations': '对话',
+  'app.checkIn': '心情打卡',
+  'app.moodHistory': '心情记录',
+  'app.backToChat': '返回聊天',
+  'app.journal': '日记',
+  'app.counselorDashboard': '辅导员面板',
+  'app.adminConsole': '管理控制台',
+  'app.reminders': '提醒',
+  'app.memory': 'MindfulMate 记住的内容',
+  'app.sharing': '与辅导员分享',
+  'app.privacy': '隐私与数据',
+  'app.toggleTheme': '切换浅色或深色主题',
+  'app.logout': '退出登录',
+  'app.emailConfirmed': '谢谢！你的邮箱已确认。',
+  'app.emptyTitle': '你今天感觉怎么样？',
+  'app.emptyBody': '我会在这里倾听、支持你，帮你应对学生生活中的压力。',
+  'app.clearChat': '清空聊天',
+  'app.confirmClear': '确定要清空这段对话吗？',
+  'app.confirmDelete': '删除这段对话？此操作无法撤销。',
+  'app.placeholder': '说说你在想什么……',
+  'app.disclaimer': '本聊天机器人仅提供支持，不能替代专业的心理健康服务。',
+  'app.recentSessions': '最近的练习',
+  'app.completed': '已完成',
+  'app.minutes': '{count} 分钟',
+  'app.calm': '平静度 {before} → {after}',
+
+  'mood.Happy': '开心',
+  'mood.Neutral': '平静',
+  'mood.Stressed': '有压力',
+  'mood.Sad': '难过',
+  'mood.Anxious': '焦虑',
+  'mood.Angry': '生气',
+
+  'crisis.banner': '你不必独自面对这一切。现在就可以获得帮助。',
+  'crisis.website': '网站',
+  'crisis.emergency': '急救电话：{number}',
+
+  'search.open': '搜索消息',
+  'search.placeholder': '搜索你的对话……',
+  'search.close': '返回对话列表',
+  'search.anyone': '所有人',
+  'search.me': '我',
+  'search.anyMood': '任何心情',
+  'search.from': '从',
+  'search.to': '到',
+  'search.hint': '搜索至少 3 个字符的词。用"引号"搜索完整短语。',
+  'search.noResults': '没有找到消息。',
+
+  'offline.banner': '你目前处于离线状态。心情打卡、新的日记和消息会保存在此设备上，重新联网后自动发送。',
+  'offline.waiting': '{count} 条待发送',
+  'offline.sending': '已恢复联网，正在发送 {count} 条已保存的内容……',
+  'offline.pending': '等待发送',
+  'offline.rejected': '有 {count} 条离线保存的内容未被接受，无法发送。',
+  'offline.dismiss': '关闭',
+
+  'help.open': '立即求助',
+  'help.title': '立即求助',
+  'help.intro': '如果你正经历困难，现在就可以找人聊聊。这些服务免费且保密。',
+  'help.emergency': '正处于紧急危险中？请拨打 {number}。',
+  'help.region': '你在哪里？',
+  'help.otherRegion': '其他国家/地区',
+  'help.call': '拨打',
+  'help.text': '短信',
+  'help.loading': '加载中……',
+};
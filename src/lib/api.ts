@@ -0,0 +1,21 @@
+let refreshing: Promise<boolean> | null = null;
+
+// Concurrent requests that all find the access token expired share one
+// refresh, since a refresh token can only be used once.
+const refreshSession = () => {
+  refreshing ??= fetch('/api/auth/refresh', { method: 'POST' })
+    .then(res => res.ok)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+// fetch for authenticated API calls: when the short-lived access token has
+// expired, the session is refreshed once and the request retried.
+export async function apiFetch(input: string, init?: RequestInit) {
+  const res = await fetch(input, init);
+  if (res.status !== 401 || !(await refreshSession())) return res;
+  return fetch(input, init);
+}
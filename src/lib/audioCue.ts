@@ -0,0 +1,29 @@
+import { ExercisePhase } from '../types';
+
+const PHASE_FREQUENCIES: Record<ExercisePhase['kind'], number> = {
+  inhale: 528,
+  hold: 440,
+  exhale: 396,
+  focus: 432,
+};
+
+let context: AudioContext | null = null;
+
+// Plays a soft sine chime marking the start of a phase. The AudioContext is
+// created lazily because browsers only allow it after a user gesture.
+export function playPhaseCue(kind: ExercisePhase['kind']) {
+  context ??= new AudioContext();
+  const now = context.currentTime;
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+
+  oscillator.type = 'sine';
+  oscillator.frequency.value = PHASE_FREQUENCIES[kind];
+  gain.gain.setValueAtTime(0, now);
+  gain.gain.linearRampToValueAtTime(0.15, now + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.8);
+
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start(now);
+  oscillator.stop(now + 0.8);
+}
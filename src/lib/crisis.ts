@@ -0,0 +1,121 @@
+// Crisis screening, run by the server before any message reaches the model
+// and by the app on messages written offline, so helplines show without a
+// connection.
+
+export interface CrisisConfig {
+  // Regular expression sources, matched case-insensitively.
+  patterns: string[];
+  // Regular expression sources for a first-person negation ("I don't", "I'm
+  // not going to", "je ne vais pas"), which cancels a match when it comes
+  // directly before it, allowing one adverb in between ("I'd never really
+  // hurt myself"). A negation without the speaker as its subject ("why not
+  // kill myself", "nobody cares, I want to die") or after "why" or "what if"
+  // doesn't cancel anything. Chinese has no spaces between words, so its
+  // patterns carry their own negative lookbehinds.
+  negations: string[];
+}
+
+export interface CrisisResult {
+  isCrisis: boolean;
+  matched?: string;
+}
+
+export const DEFAULT_CRISIS_CONFIG: CrisisConfig = {
+  patterns: [
+    "\\b(kill|hurt|harm|hang|shoot)(ing|s|ed)? myself\\b",
+    "\\bcut(ting|s)? myself\\b",
+    // Only on its own, so "I ran 5 kms" doesn't count.
+    "^\\s*(?:honestly |literally |just |gonna |i'm going to )*kms\\s*$",
+    "\\bwant(ed|s|ing)? to die\\b",
+    "\\bwish (i|i'd) (was|were|had) (dead|never been born)\\b",
+    "\\bend(ing|ed|s)? my (own )?life\\b",
+    "\\bend(ing)? it all\\b",
+    "\\b(disappear|sleep|go to sleep) and never wake up\\b",
+    "\\b(hope|wish) i (never|don't|didn't) wake up\\b",
+    "\\bsuicid(e|al)\\b",
+    "\\btake my (own )?life\\b",
+    "\\b(don't|do not) want to (live|be alive|exist|wake up)( anymore)?\\b",
+    "\\bno longer want(s)? to (live|be alive|be here|exist|wake up)\\b",
+    "\\b(wouldn't|would not) mind (dying|being dead|not waking up)\\b",
+    "\\b(disappear|vanish) (forever|for good|permanently)\\b",
+    "\\bno (reason|point) (to|in) (live|living)\\b",
+    "\\bbetter off (dead|without me)\\b",
+    "\\bself[- ]?harm(ing)?\\b",
+    "\\boverdos(e|ing)\\b",
+    // Spanish
+    "\\b(suicidio|matarme|suicidarme|lastimarme|cortarme|ahorcarme|hacerme daño)\\b",
+    "\\bquiero morir(me)?\\b",
+    "\\bquitarme la vida\\b",
+    "\\bacabar con (mi vida|todo)\\b",
+    "\\bno quiero (vivir|seguir viviendo|despertar)\\b",
+    "\\bmejor (muerto|muerta)\\b",
+    "\\bautolesi",
+    // French
+    "\\bme (tuer|suicider|pendre|faire du mal|mutiler)\\b",
+    "\\b(veux|voudrais|envie de) mourir\\b",
+    "\\ben finir avec (la vie|tout)\\b",
+    "\\bmettre fin à mes jours",
+    "\\bplus envie de vivre\\b",
+    "\\bmieux (mort|morte)\\b",
+    "\\bautomutilation\\b",
+    // Chinese
+    "(?<!不)想死",
+    "(?<!不会|不想|没有|不會|沒有)自[杀殺]",
+    "不想活",
+    "活不下去",
+    "结束(我的)?生命",
+    "自[残殘]",
+    "割腕",
+    "轻生",
+  ],
+  negations: [
+    "(?:i|i'm|im|i'd|i'll|i've)(?:\\s+(?:am|would|will|do|did|have))?\\s+(?:not|never|don't|dont|do not|didn't|didnt|won't|wont|wouldn't|wouldnt)(?:\\s+(?:going to|gonna))?",
+    // Spanish drops the subject, so the negation must govern a first-person verb.
+    "(?:yo\\s+)?(?:no|nunca|jamás|jamas)(?=\\s+quiero\\b)",
+    "(?:yo\\s+)?(?:no|nunca|jamás|jamas)\\s+(?:voy a|pienso|quiero)",
+    "(?:je\\s+|j')(?:ne\\s+|n')?\\p{L}+\\s+(?:pas|jamais)",
+  ],
+};
+
+// Words allowed between a negation and the phrase it cancels.
+const ADVERBS = "really|ever|actually|even|realmente|vraiment";
+
+// A question turns a negation into a suggestion: "why not", "what if I didn't".
+const QUESTION = /(?:^|[^\p{L}'])(?:why|what if|how about|por qué|por que|y si|pourquoi|et si)(?![\p{L}'])/u;
+
+export const createCrisisDetector = (config: CrisisConfig = DEFAULT_CRISIS_CONFIG) => {
+  const patterns = config.patterns.map(source => new RegExp(source, "gi"));
+  // Looks back from where a match starts, so only a negation ending right
+  // there governs the matched phrase. A negation can look ahead into the match
+  // for the verb it governs.
+  const negation = new RegExp(`(?<=(?:^|[^\\p{L}'])((?:${config.negations.join("|")})(?:\\s+(?:${ADVERBS}))?\\s+))`, "uy");
+
+  const isNegated = (clause: string, matchIndex: number) => {
+    negation.lastIndex = matchIndex;
+    const found = negation.exec(clause);
+    return !!found && !QUESTION.test(clause.slice(0, matchIndex - found[1].length));
+  };
+
+  const detect = (text: string): CrisisResult => {
+    const normalized = text.toLowerCase().replace(/[‘’]/g, "'");
+    // Negation only applies within a clause: "I'm not okay, I want to die" is still a hit.
+    const clauses = normalized.split(/[.!?;,\n。！？；，]+|\b(?:but|pero|mais)\b/);
+
+    for (const clause of clauses) {
+      for (const pattern of patterns) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(clause))) {
+          if (!isNegated(clause, match.index)) {
+            return { isCrisis: true, matched: match[0] };
+          }
+        }
+      }
+    }
+    return { isCrisis: false };
+  };
+
+  return { config, detect };
+};
+
+export type CrisisDetector = ReturnType<typeof createCrisisDetector>;
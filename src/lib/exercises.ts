@@ -0,0 +1,80 @@
+import { Exercise, ExerciseId } from '../types';
+
+export const EXERCISES: Exercise[] = [
+  {
+    id: 'breathing-478',
+    title: '4-7-8 Exercise',
+    category: 'Breathing',
+    description: 'A slow breathing pattern that helps calm the nervous system. Rest the tip of your tongue behind your top teeth and exhale through your mouth.',
+    phases: [
+      { kind: 'inhale', label: 'Breathe in through your nose', seconds: 4 },
+      { kind: 'hold', label: 'Hold your breath', seconds: 7 },
+      { kind: 'exhale', label: 'Exhale slowly through your mouth', seconds: 8 },
+    ],
+    cycles: 4,
+  },
+  {
+    id: 'box-breathing',
+    title: 'Box Breathing',
+    category: 'Breathing',
+    description: 'Four equal counts to steady your breath and sharpen your focus.',
+    phases: [
+      { kind: 'inhale', label: 'Breathe in', seconds: 4 },
+      { kind: 'hold', label: 'Hold', seconds: 4 },
+      { kind: 'exhale', label: 'Breathe out', seconds: 4 },
+      { kind: 'hold', label: 'Hold', seconds: 4 },
+    ],
+    cycles: 6,
+  },
+  {
+    id: 'meditation',
+    title: '5m Meditation',
+    category: 'Relaxation',
+    description: 'A short body-scan meditation. Sit or lie down somewhere comfortable and let your eyes close.',
+    phases: [
+      { kind: 'focus', label: 'Take a few slow breaths and let your body settle', seconds: 30 },
+      { kind: 'focus', label: 'Notice your feet and toes. Let them soften', seconds: 30 },
+      { kind: 'focus', label: 'Move your attention up through your legs', seconds: 30 },
+      { kind: 'focus', label: 'Notice your hips and lower back', seconds: 30 },
+      { kind: 'focus', label: 'Feel your belly rise and fall with each breath', seconds: 30 },
+      { kind: 'focus', label: 'Let your shoulders drop away from your ears', seconds: 30 },
+      { kind: 'focus', label: 'Relax your arms, hands and fingers', seconds: 30 },
+      { kind: 'focus', label: 'Soften your jaw, your eyes and your forehead', seconds: 30 },
+      { kind: 'focus', label: 'Notice your whole body at once, breathing gently', seconds: 45 },
+      { kind: 'focus', label: 'When you are ready, slowly open your eyes', seconds: 15 },
+    ],
+    cycles: 1,
+  },
+  {
+    id: 'affirmations',
+    title: 'Daily Affirmations',
+    category: 'Motivation',
+    description: 'Read each affirmation slowly, out loud or in your head, and let it sink in.',
+    phases: [
+      { kind: 'focus', label: 'I am doing the best I can, and that is enough', seconds: 15 },
+      { kind: 'focus', label: 'My worth is not measured by my grades', seconds: 15 },
+      { kind: 'focus', label: 'I can take things one step at a time', seconds: 15 },
+      { kind: 'focus', label: 'It is okay to ask for help', seconds: 15 },
+      { kind: 'focus', label: 'I deserve rest and kindness, especially from myself', seconds: 15 },
+    ],
+    cycles: 1,
+  },
+];
+
+// Most specific phrases first: "box breathing" must not fall through to 4-7-8.
+const EXERCISE_KEYWORDS: [RegExp, ExerciseId][] = [
+  [/box breath/i, 'box-breathing'],
+  [/4-7-8|breath/i, 'breathing-478'],
+  [/meditat|body[- ]scan|mindful/i, 'meditation'],
+  [/affirmation/i, 'affirmations'],
+];
+
+export const matchExercise = (text: string): ExerciseId | null =>
+  EXERCISE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+export const getExercise = (id: ExerciseId) => EXERCISES.find(e => e.id === id);
+
+export const isExerciseId = (value: unknown): value is ExerciseId => EXERCISES.some(e => e.id === value);
+
+export const exerciseDuration = (exercise: Exercise) =>
+  exercise.cycles * exercise.phases.reduce((total, phase) => total + phase.seconds, 0);
@@ -0,0 +1,72 @@
+import { JournalPrompt, Mood } from '../types';
+
+const PROMPTS: Record<string, string[]> = {
+  gratitude: [
+    'Name three small things that went okay today, however minor.',
+    'Who is someone you are glad to have in your life, and why?',
+    'What is something your body let you do today that you are thankful for?',
+  ],
+  'self-compassion': [
+    'What would you say to a friend who felt the way you feel right now?',
+    'Write about something you handled better than you give yourself credit for.',
+  ],
+  'unpacking-stress': [
+    'List everything on your plate. Which one thing would make the biggest difference if it were done?',
+    'What is in your control this week, and what isn’t?',
+    'What is one task you could make smaller or ask for help with?',
+  ],
+  worry: [
+    'What is the worry, in one sentence? What is the most likely way it turns out?',
+    'What evidence do you have for and against this worry?',
+  ],
+  anger: [
+    'What happened, and which part of it felt most unfair?',
+    'What do you need right now that you aren’t getting?',
+  ],
+  savoring: [
+    'What made today good? Describe it in as much detail as you can.',
+    'What is something you are looking forward to?',
+  ],
+  reflection: [
+    'How would you describe today in three words, and why those?',
+    'What has been on your mind most this week?',
+    'What is one thing you learned about yourself recently?',
+  ],
+};
+
+const THEMES_BY_MOOD: Record<Mood, string[]> = {
+  Happy: ['savoring', 'gratitude'],
+  Neutral: ['reflection', 'gratitude'],
+  Stressed: ['unpacking-stress', 'self-compassion'],
+  Sad: ['self-compassion', 'gratitude'],
+  Anxious: ['worry', 'self-compassion'],
+  Angry: ['anger', 'reflection'],
+};
+
+// Three or more Sad moods in a row lead with gratitude prompts.
+const SAD_STREAK = 3;
+const PROMPT_COUNT = 3;
+
+// Takes prompts from each theme in turn, so every theme is represented.
+const toPrompts = (themes: string[]): JournalPrompt[] => {
+  const prompts: JournalPrompt[] = [];
+  for (let i = 0; prompts.length < PROMPT_COUNT && themes.some(t => i < PROMPTS[t].length); i++) {
+    for (const theme of themes) {
+      if (i < PROMPTS[theme].length && prompts.length < PROMPT_COUNT) prompts.push({ theme, text: PROMPTS[theme][i] });
+    }
+  }
+  return prompts;
+};
+
+// Picks prompts from recent moods, newest first: the most common of them
+// decides the themes, with ties going to the most recent.
+export const pickJournalPrompts = (recentMoods: Mood[]): { basedOn: Mood | null; prompts: JournalPrompt[] } => {
+  if (recentMoods.length === 0) return { basedOn: null, prompts: toPrompts(['reflection']) };
+  if (recentMoods.length >= SAD_STREAK && recentMoods.slice(0, SAD_STREAK).every(m => m === 'Sad')) {
+    return { basedOn: 'Sad', prompts: toPrompts(['gratitude', 'self-compassion']) };
+  }
+  const counts = new Map<Mood, number>();
+  for (const mood of recentMoods) counts.set(mood, (counts.get(mood) ?? 0) + 1);
+  const basedOn = recentMoods.reduce((best, mood) => (counts.get(mood)! > counts.get(best)! ? mood : best));
+  return { basedOn, prompts: toPrompts(THEMES_BY_MOOD[basedOn]) };
+};
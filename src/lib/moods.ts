@@ -0,0 +1,19 @@
+export const MOOD_EMOJIS: Record<string, string> = {
+  Happy: '😊',
+  Neutral: '😐',
+  Stressed: '😟',
+  Sad: '😢',
+  Anxious: '😰',
+  Angry: '😠',
+};
+
+export const MOOD_VALUES: Record<string, number> = {
+  Happy: 5,
+  Neutral: 3,
+  Stressed: 2,
+  Sad: 1,
+  Anxious: 1.5,
+  Angry: 1,
+};
+
+export const SUGGESTED_TAGS = ['exams', 'sleep', 'family', 'friends', 'relationships', 'health', 'money', 'work'];
@@ -0,0 +1,148 @@
+import { apiFetch } from './api';
+
+// Writes made without a connection wait in IndexedDB until the service worker
+// (public/sw.js) replays them. Each carries the Idempotency-Key it was first
+// tried with, so a request that did reach the server is never saved twice.
+
+export interface QueuedRequest {
+  key: string;
+  userId: number;
+  url: string;
+  body: any;
+  // Groups offline messages that belong to a conversation not created yet.
+  thread: string | null;
+  createdAt: string;
+  // The status the server refused it with as invalid. Such items aren't sent
+  // again, and stay until the student dismisses them.
+  rejected?: number;
+}
+
+const DB_NAME = 'mindfulmate-offline';
+const STORE = 'queue';
+const SYNC_TAG = 'replay-queue';
+const QUEUE_EVENT = 'mindfulmate:queue';
+
+let owner: number | null = null;
+
+// Queued items are tagged with the student who wrote them, and only replayed
+// while that student is signed in.
+export const setQueueOwner = (userId: number | null) => {
+  owner = userId;
+};
+
+export const isOffline = () => !navigator.onLine;
+
+export const newIdempotencyKey = () => crypto.randomUUID();
+
+const openQueue = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'key' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openQueue();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = use(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export async function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (err) {
+    console.error(err);
+  }
+}
+
+// Asks the service worker to send the queue: through Background Sync where
+// the browser has it, so it happens even if the app is closed first, or
+// straight away otherwise.
+export async function requestReplay() {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+  if (sync && !navigator.onLine) {
+    await sync.register(SYNC_TAG);
+  } else {
+    registration.active?.postMessage({ type: SYNC_TAG });
+  }
+}
+
+export async function queueRequest(url: string, body: unknown, options: { key?: string; thread?: string | null } = {}) {
+  if (owner === null) throw new Error('Sign in before saving anything offline.');
+  const item: QueuedRequest = {
+    key: options.key ?? newIdempotencyKey(),
+    userId: owner,
+    url,
+    body,
+    thread: options.thread ?? null,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore('readwrite', store => store.put(item));
+  window.dispatchEvent(new Event(QUEUE_EVENT));
+  requestReplay().catch(console.error);
+  return item;
+}
+
+const ownItems = async () => {
+  if (owner === null || !('indexedDB' in window)) return [];
+  const items = await withStore<QueuedRequest[]>('readonly', store => store.getAll());
+  return items.filter(item => item.userId === owner);
+};
+
+export async function countQueued() {
+  return (await ownItems()).filter(item => !item.rejected).length;
+}
+
+export async function countRejected() {
+  return (await ownItems()).filter(item => item.rejected).length;
+}
+
+export async function discardRejected() {
+  for (const item of (await ownItems()).filter(item => item.rejected)) {
+    await withStore('readwrite', store => store.delete(item.key));
+  }
+}
+
+// Calls back when something is queued or refused, and with synced = true
+// when the service worker has sent queued items.
+export function onQueueChange(callback: (synced: boolean) => void) {
+  const queued = () => callback(false);
+  const message = (event: MessageEvent) => {
+    if (event.data?.type === 'queue-synced') callback(true);
+    if (event.data?.type === 'queue-rejected') callback(false);
+  };
+  window.addEventListener(QUEUE_EVENT, queued);
+  navigator.serviceWorker?.addEventListener('message', message);
+  return () => {
+    window.removeEventListener(QUEUE_EVENT, queued);
+    navigator.serviceWorker?.removeEventListener('message', message);
+  };
+}
+
+// POSTs JSON with an Idempotency-Key, queueing it instead when there is no
+// connection. Resolves to the response, or to null once queued.
+export async function postOrQueue(url: string, body: unknown) {
+  const key = newIdempotencyKey();
+  if (!isOffline()) {
+    try {
+      return await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      // fetch only throws when the request couldn't be sent.
+      if (!(err instanceof TypeError)) throw err;
+    }
+  }
+  await queueRequest(url, body, { key });
+  return null;
+}
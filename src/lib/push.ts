@@ -0,0 +1,49 @@
+import { apiFetch } from './api';
+
+export const pushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID public keys are base64url; PushManager wants raw bytes.
+const keyBytes = (base64url: string) => {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const currentSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const isPushEnabled = async () => pushSupported() && Notification.permission === 'granted' && !!(await currentSubscription());
+
+// Asks for permission, subscribes this browser and registers it with the
+// server. Throws with a readable message when that isn't possible.
+export async function enablePush() {
+  if (!pushSupported()) throw new Error('This browser does not support push notifications.');
+  const { publicKey } = await (await apiFetch('/api/notifications/push-key')).json();
+  if (!publicKey) throw new Error('Push notifications are not set up on this server.');
+  if ((await Notification.requestPermission()) !== 'granted') {
+    throw new Error('Notifications are blocked for this site in your browser settings.');
+  }
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(publicKey) }));
+  const res = await apiFetch('/api/notifications/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+  if (!res.ok) throw new Error((await res.json()).error);
+}
+
+export async function disablePush() {
+  const subscription = await currentSubscription();
+  if (!subscription) return;
+  await apiFetch('/api/notifications/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
@@ -1,7 +1,20 @@
+export const ROLES = ['student', 'counselor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const LOCALES = ['en', 'es', 'fr', 'zh'] as const;
+
+export type Locale = typeof LOCALES[number];
+
 export interface User {
   id: number;
   email: string;
   name: string;
+  emailVerified: boolean;
+  role: Role;
+  // Null until the student picks a language or region; the browser's is used meanwhile.
+  locale: Locale | null;
+  region: string | null;
 }
 
 export interface Message {
@@ -10,10 +23,262 @@ export interface Message {
   content: string;
   timestamp: string;
   mood?: string;
+  crisis?: boolean;
+  suggestions?: Suggestion[];
+  // Written offline and waiting in the queue to be sent.
+  pending?: boolean;
+}
+
+export interface Suggestion {
+  id: number;
+  text: string;
+  exercise: ExerciseId | null;
+  tried_at: string | null;
 }
 
 export interface MoodEntry {
   id: number;
   mood: string;
+  intensity: number | null;
+  tags: string[];
+  note: string | null;
+  source: 'ai' | 'self';
+  timestamp: string;
+}
+
+export const MOODS = ['Happy', 'Neutral', 'Stressed', 'Sad', 'Anxious', 'Angry'] as const;
+
+export type Mood = typeof MOODS[number];
+
+export interface Helpline {
+  name: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+}
+
+// Crisis support for one region, with the safety message in the requested language.
+export interface CrisisResources {
+  region: string;
+  regions: { code: string; name: string }[];
+  response: string;
+  emergency: string;
+  helplines: Helpline[];
+}
+
+export interface Conversation {
+  id: number;
+  title: string | null;
+  archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ExerciseId = 'breathing-478' | 'box-breathing' | 'meditation' | 'affirmations';
+
+export interface ExercisePhase {
+  kind: 'inhale' | 'hold' | 'exhale' | 'focus';
+  label: string;
+  seconds: number;
+}
+
+export interface Exercise {
+  id: ExerciseId;
+  title: string;
+  category: string;
+  description: string;
+  phases: ExercisePhase[];
+  cycles: number;
+}
+
+export interface ExerciseSession {
+  id: number;
+  exercise: ExerciseId;
+  duration_seconds: number;
+  completed: boolean;
+  mood_before: number | null;
+  mood_after: number | null;
+  timestamp: string;
+}
+
+export interface MoodAverage {
+  average: number | null;
+  count: number;
+}
+
+export interface MoodAnalytics {
+  range: { from: string | null; to: string };
+  total: number;
+  average: number | null;
+  daily: (MoodAverage & { date: string })[];
+  weekly: (MoodAverage & { weekStart: string })[];
+  distribution: Record<Mood, number>;
+  streaks: { current: number; longest: number };
+  timeOfDay: (MoodAverage & { label: string })[];
+  dayOfWeek: (MoodAverage & { label: string })[];
+  triggers: { tag: string; total: number; negative: number; negativeRate: number }[];
+}
+
+export interface Counselor {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface ConsentGrant {
+  id: number;
+  counselor: Counselor;
+  include_transcripts: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  active: boolean;
+}
+
+export interface AccessLogEntry {
+  id: number;
+  actor_name: string | null;
+  action: string;
+  detail: string | null;
+  created_at: string;
+}
+
+export interface StudentFlags {
+  // Average mood over the last week, on the 1–5 scale.
+  recentAverage: number | null;
+  sustainedLowMood: boolean;
+  crisisEvents: number;
+  lastCrisisAt: string | null;
+}
+
+export interface CounselorStudent {
+  id: number;
+  name: string;
+  email: string;
+  grant_id: number;
+  include_transcripts: boolean;
+  expires_at: string;
+  flags: StudentFlags;
+}
+
+export interface AdminUserCounts {
+  total: number;
+  verified: number;
+  byRole: Record<Role, number>;
+  // Students with any activity in the last day, 7 days and 30 days.
+  active: { day: number; week: number; month: number };
+}
+
+// One week of moods across all students. Figures drawn from fewer students
+// than the console's minimum group size are null.
+export interface WeeklyMoods {
+  // Monday of the week, UTC.
+  week: string;
+  students: number | null;
+  entries: number | null;
+  moods: Record<Mood, number | null>;
+  suppressed: boolean;
+}
+
+export interface ModelCallStats {
+  days: number;
+  operations: { provider: string; operation: string; calls: number; fallbacks: number; fallbackRate: number }[];
+  errors: { provider: string; error: string | null; count: number; last_seen: string }[];
+}
+
+// 'suggested' facts were picked out of a chat and wait for the student to keep or delete them.
+export type MemoryStatus = 'suggested' | 'kept';
+
+export interface MemoryItem {
+  id: number;
+  content: string;
+  status: MemoryStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MemoryOverview {
+  // Rolling summary of messages older than the recent window.
+  summary: MemoryItem | null;
+  facts: MemoryItem[];
+}
+
+// 'daily' fires at a set local time, 'interval' every few minutes inside an
+// optional daily window and end date, 'inactivity' after days without a check-in.
+export const REMINDER_KINDS = ['daily', 'interval', 'inactivity'] as const;
+
+export type ReminderKind = typeof REMINDER_KINDS[number];
+
+export const REMINDER_ACTIVITIES = ['check-in', 'breathing', 'chat'] as const;
+
+export type ReminderActivity = typeof REMINDER_ACTIVITIES[number];
+
+export interface Reminder {
+  id: number;
+  kind: ReminderKind;
+  activity: ReminderActivity;
+  // Local "HH:MM" for daily reminders.
+  time_of_day: string | null;
+  interval_minutes: number | null;
+  window_start: string | null;
+  window_end: string | null;
+  // Last local date ("YYYY-MM-DD") an interval reminder runs, e.g. the end of exam week.
+  ends_on: string | null;
+  inactivity_days: number | null;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+export interface ReminderSettings {
+  timezone: string;
+  // Local "HH:MM"; nothing is sent between start and end, which may span midnight.
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface AppNotification {
+  id: number;
+  title: string;
+  body: string;
+  url: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface JournalEntry {
+  id: number;
+  title: string | null;
+  body: string;
+  // The guided prompt the entry answers, if one was used.
+  prompt: string | null;
+  // A self check-in the entry is linked to.
+  mood_id: number | null;
+  mood: Mood | null;
+  // Entries are private; only these are ever included in what MindfulMate's model sees.
+  share_with_ai: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JournalPrompt {
+  theme: string;
+  text: string;
+}
+
+// Part of a search snippet; `hit` marks text that matched the query.
+export interface SnippetPart {
+  text: string;
+  hit: boolean;
+}
+
+export interface SearchResult {
+  id: number;
+  conversation_id: number;
+  conversation_title: string | null;
+  role: 'user' | 'bot';
   timestamp: string;
+  mood: Mood | null;
+  snippet: SnippetPart[];
 }
@@ -0,0 +1,168 @@
+// @vitest-environment jsdom
+import React from 'react';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from '../../src/App';
+import { I18nProvider } from '../../src/i18n';
+import { loadCrisisDirectory } from '../../server/services/crisis';
+import { createTestApp, PASSWORD, signUp } from '../support/app';
+
+// The app talks to the real API on an in-memory database, with the model
+// replaced by a script. fetch is pointed at that server and keeps the session
+// cookies, as a browser would.
+let setup: ReturnType<typeof createTestApp>;
+let server: Server;
+const cookies = new Map<string, string>();
+const realFetch = globalThis.fetch;
+// Requests still running when a test ends are awaited before its server closes.
+const inFlight = new Set<Promise<unknown>>();
+
+const sendToServer = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  const { port } = server.address() as AddressInfo;
+  const headers = new Headers(init.headers);
+  if (cookies.size) headers.set('Cookie', [...cookies].map(([name, value]) => `${name}=${value}`).join('; '));
+  const res = await realFetch(new URL(String(input), `http://127.0.0.1:${port}`), { ...init, headers });
+  for (const header of res.headers.getSetCookie()) {
+    const [name, ...value] = header.split(';')[0].split('=');
+    if (value.join('=')) cookies.set(name, value.join('='));
+    else cookies.delete(name);
+  }
+  return res;
+};
+
+const serverFetch = (input: RequestInfo | URL, init?: RequestInit) => {
+  const request = sendToServer(input, init);
+  inFlight.add(request);
+  request.then(() => inFlight.delete(request), () => inFlight.delete(request));
+  return request;
+};
+
+beforeAll(() => {
+  // jsdom has no layout, so charts are told they have room to draw.
+  globalThis.ResizeObserver ??= class {
+    constructor(private callback: ResizeObserverCallback) {}
+    observe(target: Element) {
+      this.callback([{ target, contentRect: { width: 600, height: 300 } } as ResizeObserverEntry], this);
+    }
+    unobserve() {}
+    disconnect() {}
+  };
+  Element.prototype.scrollIntoView ??= () => {};
+});
+
+beforeEach(async () => {
+  // Passed as a path: jsdom's URL can't resolve the default file: URL.
+  setup = createTestApp([], { crisisDirectory: loadCrisisDirectory(path.resolve('server/data/crisis-resources.json')) });
+  await new Promise<void>(resolve => {
+    server = setup.app.listen(0, '127.0.0.1', resolve);
+  });
+  await signUp(setup.app);
+  cookies.clear();
+  localStorage.clear();
+  vi.stubGlobal('fetch', serverFetch);
+});
+
+afterEach(async () => {
+  cleanup();
+  await Promise.allSettled(inFlight);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const renderApp = () =>
+  render(
+    <I18nProvider>
+      <App />
+    </I18nProvider>
+  );
+
+const logIn = async (user: ReturnType<typeof userEvent.setup>) => {
+  renderApp();
+  await user.type(await screen.findByRole('textbox'), 'sam@example.edu');
+  await user.type(document.querySelector('input[type="password"]')!, PASSWORD);
+  await user.click(screen.getByRole('button', { name: 'Log In' }));
+  await screen.findByText('Welcome back, Sam');
+};
+
+const sendMessage = async (user: ReturnType<typeof userEvent.setup>, text: string) => {
+  await user.type(screen.getByPlaceholderText("Share what's on your mind..."), text);
+  await user.click(screen.getByTitle('Clear Chat').parentElement!.querySelector('button[type="submit"]')!);
+};
+
+describe('App', () => {
+  it('shows the login screen until the student signs in', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    expect(await screen.findByRole('button', { name: 'Log In' })).toBeTruthy();
+
+    await user.type(screen.getByRole('textbox'), 'sam@example.edu');
+    await user.type(document.querySelector('input[type="password"]')!, 'not-my-password-1');
+    await user.click(screen.getByRole('button', { name: 'Log In' }));
+    expect(await screen.findByText('Invalid credentials')).toBeTruthy();
+
+    await user.clear(document.querySelector('input[type="password"]')!);
+    await user.type(document.querySelector('input[type="password"]')!, PASSWORD);
+    await user.click(screen.getByRole('button', { name: 'Log In' }));
+    expect(await screen.findByText('Welcome back, Sam')).toBeTruthy();
+    expect(screen.getByText('How are you feeling today?')).toBeTruthy();
+  });
+
+  it('sends a message and shows the streamed reply', async () => {
+    setup.llm.script.push({ mood: 'Stressed', response: 'Exams can feel like a lot at once.', suggestions: ['Try the 4-7-8 breathing exercise'] });
+    const user = userEvent.setup();
+    await logIn(user);
+
+    await sendMessage(user, 'I have three exams next week');
+    expect(await screen.findByText('Exams can feel like a lot at once.')).toBeTruthy();
+    expect(screen.getByText('I have three exams next week')).toBeTruthy();
+    expect(screen.getByText('Try the 4-7-8 breathing exercise')).toBeTruthy();
+    expect(setup.llm.calls.map(call => call.message)).toEqual(['I have three exams next week']);
+  });
+
+  it('clears the conversation after confirming', async () => {
+    setup.llm.script.push({ mood: 'Neutral', response: 'Tell me more about that.', suggestions: [] });
+    const user = userEvent.setup();
+    await logIn(user);
+    await sendMessage(user, 'Just thinking out loud');
+    await screen.findByText('Tell me more about that.');
+
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    await user.click(screen.getByTitle('Clear Chat'));
+    expect(confirm).toHaveBeenCalledWith('Are you sure you want to clear this conversation?');
+    await waitFor(() => expect(screen.queryByText('Tell me more about that.')).toBeNull());
+    expect(setup.db.prepare('SELECT COUNT(*) AS count FROM chats').get()).toEqual({ count: 0 });
+  });
+
+  it('keeps the conversation when clearing is cancelled', async () => {
+    setup.llm.script.push({ mood: 'Neutral', response: 'Tell me more about that.', suggestions: [] });
+    const user = userEvent.setup();
+    await logIn(user);
+    await sendMessage(user, 'Just thinking out loud');
+    await screen.findByText('Tell me more about that.');
+
+    vi.spyOn(window, 'confirm').mockReturnValue(false);
+    await user.click(screen.getByTitle('Clear Chat'));
+    expect(screen.getByText('Tell me more about that.')).toBeTruthy();
+    expect(setup.db.prepare('SELECT COUNT(*) AS count FROM chats').get()).toEqual({ count: 2 });
+  });
+
+  it('shows moods inferred from chats in the history view', async () => {
+    setup.llm.script.push({ mood: 'Happy', response: "That's great to hear!", suggestions: [] });
+    const user = userEvent.setup();
+    await logIn(user);
+    await sendMessage(user, 'I passed my exam');
+    await screen.findByText("That's great to hear!");
+
+    await user.click(screen.getByTitle('Mood History'));
+    const trends = (await screen.findByText('Mood Trends')).parentElement!;
+    expect(await within(trends).findByText('1 entries')).toBeTruthy();
+
+    await user.click(screen.getByTitle('Back to Chat'));
+    expect(await screen.findByText("That's great to hear!")).toBeTruthy();
+  });
+});
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestApp, PASSWORD, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+let userId: number;
+
+beforeEach(async () => {
+  setup = createTestApp([{ mood: "Stressed", response: "That sounds like a lot." }]);
+  ({ client, user: { id: userId } } = await signUp(setup.app));
+  const mood = await client.post("/api/moods", { mood: "Anxious" });
+  await client.post("/api/journal", { text: "Long week", moodId: mood.body.id });
+  await client.post("/api/chat/respond", { message: "Exams are piling up" });
+});
+
+const tablesWithUserId = () =>
+  (setup.db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[])
+    .map(({ name }) => name)
+    .filter(name => (setup.db.prepare(`PRAGMA table_info(${name})`).all() as { name: string }[]).some(c => c.name === "user_id"));
+
+describe("DELETE /api/account", () => {
+  it("removes the account and every row tied to it", async () => {
+    const res = await client.delete("/api/account", { password: PASSWORD });
+    expect(res.status).toBe(200);
+
+    expect(setup.db.prepare("SELECT COUNT(*) AS count FROM users WHERE id = ?").get(userId)).toEqual({ count: 0 });
+    for (const table of tablesWithUserId()) {
+      expect(setup.db.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE user_id = ?`).get(userId), table).toEqual({ count: 0 });
+    }
+    expect(setup.db.pragma("foreign_key_check")).toEqual([]);
+  });
+});
+
+describe("foreign keys", () => {
+  it("are enforced, so ON DELETE actions run", () => {
+    expect(setup.db.pragma("foreign_keys", { simple: true })).toBe(1);
+    setup.db.prepare("DELETE FROM moods WHERE user_id = ? AND source != 'ai'").run(userId);
+    expect(setup.db.prepare("SELECT mood_id FROM journal_entries WHERE user_id = ?").get(userId)).toEqual({ mood_id: null });
+    expect(() => setup.db.prepare("DELETE FROM users WHERE id = ?").run(userId)).toThrow(/FOREIGN KEY constraint failed/);
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { setRoleByEmail } from "../../server/repositories/users";
+import { loadMinGroupSize } from "../../server/services/adminStats";
+import { createClient, createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let admin: Client;
+
+beforeEach(async () => {
+  setup = createTestApp([], { minGroupSize: 2 });
+  ({ client: admin } = await signUp(setup.app, "dean@example.edu", "Dean"));
+  withDatabase(setup.db, () => setRoleByEmail("dean@example.edu", "admin"));
+});
+
+describe("admin routes", () => {
+  it("are for admins only", async () => {
+    const { client: student } = await signUp(setup.app);
+    const { client: counselor } = await signUp(setup.app, "casey@example.edu", "Casey");
+    withDatabase(setup.db, () => setRoleByEmail("casey@example.edu", "counselor"));
+    for (const url of ["/api/admin/users", "/api/admin/moods/weekly", "/api/admin/model-calls"]) {
+      expect((await createClient(setup.app).get(url)).status).toBe(401);
+      expect((await student.get(url)).status).toBe(403);
+      expect((await counselor.get(url)).status).toBe(403);
+    }
+  });
+
+  it("don't open up the counselor dashboard or other students' chats", async () => {
+    const { client: student } = await signUp(setup.app);
+    await student.post("/api/chats", { role: "user", content: "Something private" });
+    expect((await admin.get("/api/counselor/students")).status).toBe(403);
+    expect((await admin.get("/api/chats")).body).toEqual([]);
+    expect((await admin.get("/api/search?q=private")).body).toEqual([]);
+  });
+
+  it("rejects out-of-range windows", async () => {
+    expect((await admin.get("/api/admin/moods/weekly?weeks=0")).status).toBe(400);
+    expect((await admin.get("/api/admin/moods/weekly?weeks=53")).status).toBe(400);
+    expect((await admin.get("/api/admin/model-calls?days=abc")).status).toBe(400);
+  });
+});
+
+describe("GET /api/admin/users", () => {
+  it("counts accounts by role and recent activity", async () => {
+    const { client: student } = await signUp(setup.app);
+    await student.post("/api/moods", { mood: "Happy" });
+    const res = await admin.get("/api/admin/users");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      total: 2,
+      verified: 0,
+      byRole: { student: 1, counselor: 0, admin: 1 },
+      active: { day: 2, week: 2, month: 2 },
+    });
+  });
+});
+
+describe("GET /api/admin/moods/weekly", () => {
+  it("withholds a week with fewer students than the minimum group size", async () => {
+    const { client: student } = await signUp(setup.app);
+    await student.post("/api/moods", { mood: "Sad" });
+    await student.post("/api/moods", { mood: "Sad" });
+    const res = await admin.get("/api/admin/moods/weekly?weeks=1");
+    expect(res.body.minGroupSize).toBe(2);
+    expect(res.body.weeks).toHaveLength(1);
+    expect(res.body.weeks[0]).toMatchObject({ students: null, entries: null, suppressed: true, moods: { Sad: null, Happy: null } });
+  });
+
+  it("withholds small moods, and a second one so the first can't be subtracted out", async () => {
+    const students = await Promise.all(["a", "b", "c"].map(name => signUp(setup.app, `${name}@example.edu`, name)));
+    const [a, b, c] = students.map(s => s.client);
+    await a.post("/api/moods", { mood: "Happy" });
+    await b.post("/api/moods", { mood: "Happy" });
+    await a.post("/api/moods", { mood: "Stressed" });
+    await b.post("/api/moods", { mood: "Stressed" });
+    await b.post("/api/moods", { mood: "Stressed" });
+    await c.post("/api/moods", { mood: "Sad" });
+
+    const res = await admin.get("/api/admin/moods/weekly?weeks=2");
+    expect(res.body.weeks[0]).toMatchObject({ students: 0, entries: 0, suppressed: false });
+    expect(res.body.weeks[1]).toEqual({
+      week: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+      students: 3,
+      entries: 6,
+      moods: { Happy: null, Neutral: 0, Stressed: 3, Sad: null, Anxious: 0, Angry: 0 },
+      suppressed: false,
+    });
+    expect(new Date(`${res.body.weeks[1].week}T00:00:00Z`).getUTCDay()).toBe(1);
+  });
+});
+
+describe("GET /api/admin/model-calls", () => {
+  it("reports how often the offline responder stood in for the model, and why", async () => {
+    setup.llm.respond = async () => {
+      throw new Error("503 Service Unavailable");
+    };
+    const { client: student } = await signUp(setup.app);
+    const res = await student.post("/api/chat/respond", { message: "Exams are piling up" });
+    expect(res.status).toBe(200);
+
+    const stats = await admin.get("/api/admin/model-calls?days=7");
+    expect(stats.body.days).toBe(7);
+    expect(stats.body.operations).toContainEqual({ provider: "scripted", operation: "respond", calls: 1, fallbacks: 1, fallbackRate: 1 });
+    expect(stats.body.operations).toContainEqual({ provider: "scripted", operation: "title", calls: 1, fallbacks: 0, fallbackRate: 0 });
+    expect(stats.body.errors).toEqual([{ provider: "scripted", error: "503 Service Unavailable", count: 1, last_seen: expect.any(String) }]);
+    expect(JSON.stringify(stats.body)).not.toContain("Exams");
+  });
+
+  it("redacts quoted text and addresses from the errors it keeps", async () => {
+    setup.llm.respond = async () => {
+      throw new SyntaxError(`Unexpected token 'M', "My roommate sam@example.edu" is not valid JSON`);
+    };
+    const { client: student } = await signUp(setup.app);
+    await student.post("/api/chat/respond", { message: "My roommate sam@example.edu" });
+
+    const stats = await admin.get("/api/admin/model-calls?days=7");
+    expect(stats.body.errors.map((e: any) => e.error)).toEqual([`Unexpected token 'M', "[redacted]" is not valid JSON`]);
+    expect(JSON.stringify(stats.body)).not.toMatch(/roommate|sam@/);
+  });
+});
+
+describe("loadMinGroupSize", () => {
+  it("defaults to 5 and rejects groups too small to hide anyone", () => {
+    expect(loadMinGroupSize({})).toBe(5);
+    expect(loadMinGroupSize({ ADMIN_MIN_GROUP_SIZE: "10" })).toBe(10);
+    expect(() => loadMinGroupSize({ ADMIN_MIN_GROUP_SIZE: "1" })).toThrow(/at least 2/);
+    expect(() => loadMinGroupSize({ ADMIN_MIN_GROUP_SIZE: "five" })).toThrow();
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { isLockedOut } from "../../server/services/auth";
+import { createClient, createTestApp, PASSWORD, signUp } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+
+beforeEach(() => {
+  setup = createTestApp();
+});
+
+// The token at the end of the link in the latest email.
+const linkToken = (param: "verify" | "reset") => {
+  const text = setup.mailer.sent[setup.mailer.sent.length - 1].text;
+  return new RegExp(`\\?${param}=([\\w-]+)`).exec(text)![1];
+};
+
+describe("POST /api/auth/signup", () => {
+  it("creates the account and sends a confirmation email", async () => {
+    const client = createClient(setup.app);
+    const res = await client.post("/api/auth/signup", { email: "Sam@Example.edu", password: PASSWORD, name: "Sam" });
+    expect(res.status).toBe(200);
+    expect(client.cookies.size).toBe(0);
+    expect(setup.mailer.sent).toHaveLength(1);
+    expect(setup.mailer.sent[0].to).toBe("sam@example.edu");
+
+    const login = await client.post("/api/auth/login", { email: "sam@example.edu", password: PASSWORD });
+    expect(login.body).toMatchObject({ email: "sam@example.edu", name: "Sam", emailVerified: false, role: "student" });
+    expect(client.cookies.has("token")).toBe(true);
+    expect(client.cookies.has("refresh_token")).toBe(true);
+  });
+
+  it("rejects invalid emails, names and weak passwords", async () => {
+    const client = createClient(setup.app);
+    expect((await client.post("/api/auth/signup", { email: "nope", password: PASSWORD, name: "Sam" })).status).toBe(400);
+    expect((await client.post("/api/auth/signup", { email: "sam@example.edu", password: PASSWORD, name: " " })).status).toBe(400);
+    const weak = await client.post("/api/auth/signup", { email: "sam@example.edu", password: "short", name: "Sam" });
+    expect(weak.status).toBe(400);
+    expect(client.cookies.size).toBe(0);
+  });
+
+  it("answers an already registered email the same way and tells its owner instead", async () => {
+    await signUp(setup.app);
+    const client = createClient(setup.app);
+    const fresh = await client.post("/api/auth/signup", { email: "alex@example.edu", password: PASSWORD, name: "Alex" });
+    const taken = await client.post("/api/auth/signup", { email: "sam@example.edu", password: "Other-waters-42", name: "Not Sam" });
+    expect(taken.status).toBe(fresh.status);
+    expect(taken.body).toEqual(fresh.body);
+
+    const last = setup.mailer.sent[setup.mailer.sent.length - 1];
+    expect(last.to).toBe("sam@example.edu");
+    expect(last.subject).toMatch(/already have/);
+    expect((await client.post("/api/auth/login", { email: "sam@example.edu", password: "Other-waters-42" })).status).toBe(401);
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  beforeEach(async () => {
+    await signUp(setup.app);
+  });
+
+  it("starts a session with the right password", async () => {
+    const client = createClient(setup.app);
+    const res = await client.post("/api/auth/login", { email: "sam@example.edu", password: PASSWORD });
+    expect(res.status).toBe(200);
+    expect(res.body.name).toBe("Sam");
+    expect((await client.get("/api/auth/me")).body.email).toBe("sam@example.edu");
+  });
+
+  it("gives the same answer for a wrong password and an unknown email", async () => {
+    const client = createClient(setup.app);
+    const wrong = await client.post("/api/auth/login", { email: "sam@example.edu", password: "not-my-password-1" });
+    const unknown = await client.post("/api/auth/login", { email: "alex@example.edu", password: PASSWORD });
+    expect(wrong.status).toBe(401);
+    expect(unknown.status).toBe(401);
+    expect(wrong.body).toEqual(unknown.body);
+  });
+
+  it("locks the account for that address after repeated failures, without saying so", async () => {
+    const client = createClient(setup.app);
+    for (let i = 0; i < 5; i++) {
+      await client.post("/api/auth/login", { email: "sam@example.edu", password: "not-my-password-1" });
+    }
+    const res = await client.post("/api/auth/login", { email: "sam@example.edu", password: PASSWORD });
+    const unknown = await client.post("/api/auth/login", { email: "alex@example.edu", password: PASSWORD });
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual(unknown.body);
+
+    const userId = (setup.db.prepare("SELECT id FROM users WHERE email = ?").get("sam@example.edu") as { id: number }).id;
+    expect(withDatabase(setup.db, () => isLockedOut(userId, "198.51.100.7"))).toBe(false);
+  });
+});
+
+describe("GET /api/auth/me", () => {
+  it("needs a session", async () => {
+    expect((await createClient(setup.app).get("/api/auth/me")).status).toBe(401);
+  });
+
+  it("returns the signed-in student", async () => {
+    const { client, user } = await signUp(setup.app);
+    const res = await client.get("/api/auth/me");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(user);
+  });
+});
+
+describe("POST /api/auth/refresh", () => {
+  it("swaps the refresh token for a new one", async () => {
+    const { client } = await signUp(setup.app);
+    const before = client.cookies.get("refresh_token");
+    const res = await client.post("/api/auth/refresh");
+    expect(res.status).toBe(200);
+    expect(client.cookies.get("refresh_token")).not.toBe(before);
+  });
+
+  it("revokes the whole session when a used token comes back", async () => {
+    const { client } = await signUp(setup.app);
+    const stolen = client.cookies.get("refresh_token")!;
+    await client.post("/api/auth/refresh");
+
+    const thief = createClient(setup.app);
+    thief.cookies.set("refresh_token", stolen);
+    expect((await thief.post("/api/auth/refresh")).status).toBe(401);
+    expect((await client.post("/api/auth/refresh")).status).toBe(401);
+  });
+});
+
+describe("POST /api/auth/logout", () => {
+  it("clears the cookies and revokes the refresh token", async () => {
+    const { client } = await signUp(setup.app);
+    const refreshToken = client.cookies.get("refresh_token")!;
+    expect((await client.post("/api/auth/logout")).status).toBe(200);
+    expect(client.cookies.size).toBe(0);
+
+    client.cookies.set("refresh_token", refreshToken);
+    expect((await client.post("/api/auth/refresh")).status).toBe(401);
+  });
+});
+
+describe("email confirmation", () => {
+  it("POST /api/auth/verify-email confirms the address once", async () => {
+    const { client } = await signUp(setup.app);
+    const token = linkToken("verify");
+    expect((await client.post("/api/auth/verify-email", { token })).status).toBe(200);
+    expect((await client.get("/api/auth/me")).body.emailVerified).toBe(true);
+    expect((await client.post("/api/auth/verify-email", { token })).status).toBe(400);
+  });
+
+  it("POST /api/auth/resend-verification sends a new link and cancels the old one", async () => {
+    const { client } = await signUp(setup.app);
+    const first = linkToken("verify");
+    expect((await client.post("/api/auth/resend-verification")).status).toBe(200);
+    expect(setup.mailer.sent).toHaveLength(2);
+    expect((await client.post("/api/auth/verify-email", { token: first })).status).toBe(400);
+    expect((await client.post("/api/auth/verify-email", { token: linkToken("verify") })).status).toBe(200);
+    expect((await client.post("/api/auth/resend-verification")).status).toBe(400);
+  });
+});
+
+describe("password reset", () => {
+  it("POST /api/auth/forgot-password answers the same for unknown emails", async () => {
+    await signUp(setup.app);
+    const client = createClient(setup.app);
+    const known = await client.post("/api/auth/forgot-password", { email: "sam@example.edu" });
+    const unknown = await client.post("/api/auth/forgot-password", { email: "alex@example.edu" });
+    expect(known.body).toEqual(unknown.body);
+    expect(setup.mailer.sent).toHaveLength(2);
+  });
+
+  it("POST /api/auth/reset-password changes the password and signs out every session", async () => {
+    const { client } = await signUp(setup.app);
+    await createClient(setup.app).post("/api/auth/forgot-password", { email: "sam@example.edu" });
+    const token = linkToken("reset");
+
+    expect((await client.post("/api/auth/reset-password", { token, password: "short" })).status).toBe(400);
+    expect((await client.post("/api/auth/reset-password", { token, password: "Quiet-forest-77" })).status).toBe(200);
+    expect((await client.post("/api/auth/reset-password", { token, password: "Quiet-forest-78" })).status).toBe(400);
+    expect((await client.post("/api/auth/refresh")).status).toBe(401);
+
+    const login = createClient(setup.app);
+    expect((await login.post("/api/auth/login", { email: "sam@example.edu", password: PASSWORD })).status).toBe(401);
+    expect((await login.post("/api/auth/login", { email: "sam@example.edu", password: "Quiet-forest-77" })).status).toBe(200);
+  });
+});
@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { encryptPlaintextRows } from "../../server/services/encryption";
+import { createClient, createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+
+beforeEach(async () => {
+  setup = createTestApp([
+    { mood: "Stressed", response: "Exams can feel like a lot at once.", suggestions: ["Try the 4-7-8 breathing exercise"], facts: ["Has exams next week"] },
+    { mood: "Happy", response: "That's great to hear!", suggestions: [] },
+  ]);
+  ({ client } = await signUp(setup.app));
+});
+
+// Splits a text/event-stream body into its events.
+const parseEvents = (body: string) =>
+  body
+    .split("\n\n")
+    .filter(Boolean)
+    .map(block => {
+      const [event, data] = block.split("\n");
+      return { event: event.slice("event: ".length), data: JSON.parse(data.slice("data: ".length)) };
+    });
+
+describe("chat routes", () => {
+  it("need a session", async () => {
+    const anonymous = createClient(setup.app);
+    expect((await anonymous.get("/api/chats")).status).toBe(401);
+    expect((await anonymous.post("/api/chats", { role: "user", content: "Hi" })).status).toBe(401);
+    expect((await anonymous.delete("/api/chats")).status).toBe(401);
+    expect((await anonymous.post("/api/chat/respond", { message: "Hi" })).status).toBe(401);
+    expect((await anonymous.post("/api/chat/stream", { message: "Hi" })).status).toBe(401);
+  });
+});
+
+describe("POST /api/chat/respond", () => {
+  it("answers with the model's reply and saves the exchange in a new conversation", async () => {
+    const res = await client.post("/api/chat/respond", { message: "I have three exams next week" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ mood: "Stressed", response: "Exams can feel like a lot at once." });
+    expect(res.body.facts).toBeUndefined();
+    expect(res.body.message).toMatchObject({ role: "bot", content: "Exams can feel like a lot at once." });
+    expect(res.body.message.suggestions[0]).toMatchObject({ text: "Try the 4-7-8 breathing exercise", exercise: "breathing-478" });
+    expect(res.body.conversation.title).toBe("I have three exams");
+
+    const chats = await client.get(`/api/chats?conversationId=${res.body.conversation.id}`);
+    expect(chats.body.map((m: any) => [m.role, m.content])).toEqual([
+      ["user", "I have three exams next week"],
+      ["bot", "Exams can feel like a lot at once."],
+    ]);
+    const moods = await client.get("/api/moods");
+    expect(moods.body).toMatchObject([{ mood: "Stressed", source: "ai", chat_id: chats.body[0].id }]);
+  });
+
+  it("stores conversation titles encrypted, since they repeat the first message", async () => {
+    const res = await client.post("/api/chat/respond", { message: "I have three exams next week" });
+    const stored = setup.db.prepare("SELECT title FROM conversations WHERE id = ?").get(res.body.conversation.id) as { title: string };
+    expect(stored.title).toMatch(/^enc:v1:/);
+    await client.patch(`/api/conversations/${res.body.conversation.id}`, { title: "Exam week" });
+    expect((setup.db.prepare("SELECT title FROM conversations").get() as { title: string }).title).toMatch(/^enc:v1:/);
+    expect((await client.get("/api/conversations")).body).toMatchObject([{ title: "Exam week" }]);
+
+    setup.db.prepare("UPDATE conversations SET title = 'Written before encryption'").run();
+    expect(withDatabase(setup.db, encryptPlaintextRows)).toBe(1);
+    expect((await client.get("/api/conversations")).body).toMatchObject([{ title: "Written before encryption" }]);
+  });
+
+  it("continues a conversation with its history as context", async () => {
+    const first = await client.post("/api/chat/respond", { message: "I have three exams next week" });
+    const conversationId = first.body.conversation.id;
+    await client.post("/api/chat/respond", { message: "I passed the first one", conversationId });
+
+    expect(setup.llm.calls[1].context.history.map(turn => turn.content)).toEqual([
+      "I have three exams next week",
+      "Exams can feel like a lot at once.",
+    ]);
+    expect((await client.get(`/api/chats?conversationId=${conversationId}`)).body).toHaveLength(4);
+  });
+
+  it("answers crisis messages with helplines without asking the model", async () => {
+    const res = await client.post("/api/chat/respond", { message: "I want to die" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ crisis: true, mood: "Sad" });
+    expect(res.body.helplines.length).toBeGreaterThan(0);
+    expect(res.body.message.crisis).toBe(true);
+    expect(setup.llm.calls).toHaveLength(0);
+  });
+
+  it("rejects empty messages and unknown conversations", async () => {
+    expect((await client.post("/api/chat/respond", { message: "  " })).status).toBe(400);
+    expect((await client.post("/api/chat/respond", { message: "Hi", conversationId: 999 })).status).toBe(404);
+  });
+});
+
+describe("POST /api/chat/stream", () => {
+  it("streams the reply as tokens and finishes with the saved message", async () => {
+    const res = await client.post("/api/chat/stream", { message: "I have three exams next week" });
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+
+    const events = parseEvents(res.text);
+    const tokens = events.filter(e => e.event === "token").map(e => e.data.text);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe("Exams can feel like a lot at once.");
+
+    const done = events[events.length - 1];
+    expect(done.event).toBe("done");
+    expect(done.data).toMatchObject({ mood: "Stressed", message: { role: "bot" }, conversation: { title: "I have three exams" } });
+    expect((await client.get("/api/chats")).body).toHaveLength(2);
+  });
+
+  it("sends crisis messages a single done event", async () => {
+    const res = await client.post("/api/chat/stream", { message: "I want to end it all" });
+    const events = parseEvents(res.text);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ event: "done", data: { crisis: true } });
+    expect(setup.llm.calls).toHaveLength(0);
+  });
+
+  it("rejects empty messages before streaming", async () => {
+    const res = await client.post("/api/chat/stream", {});
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Message is required");
+  });
+});
+
+describe("GET /api/chats", () => {
+  it("only returns the student's own messages", async () => {
+    await client.post("/api/chat/respond", { message: "I have three exams next week" });
+    const other = await signUp(setup.app, "alex@example.edu", "Alex");
+    expect((await other.client.get("/api/chats")).body).toEqual([]);
+    expect((await client.get("/api/chats")).body).toHaveLength(2);
+  });
+});
+
+describe("POST /api/chats", () => {
+  it("saves a message, starting a conversation when none is given", async () => {
+    const res = await client.post("/api/chats", { role: "user", content: "Written offline" });
+    expect(res.status).toBe(200);
+    const chats = await client.get(`/api/chats?conversationId=${res.body.conversationId}`);
+    expect(chats.body).toMatchObject([{ role: "user", content: "Written offline" }]);
+  });
+
+  it("saves a retried request only once", async () => {
+    const headers = { "Idempotency-Key": "offline-message-1" };
+    const first = await client.post("/api/chats", { role: "user", content: "Written offline" }, headers);
+    const retry = await client.post("/api/chats", { role: "user", content: "Written offline" }, headers);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.body).toEqual(first.body);
+    expect((await client.get("/api/chats")).body).toHaveLength(1);
+  });
+
+  it("screens messages written offline for crisis language", async () => {
+    const res = await client.post("/api/chats", { role: "user", content: "I keep cutting myself" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ crisis: true, helplines: expect.any(Array), message: { role: "bot", crisis: true } });
+    const chats = await client.get(`/api/chats?conversationId=${res.body.conversationId}`);
+    expect(chats.body).toMatchObject([
+      { role: "user", content: "I keep cutting myself", crisis: true },
+      { role: "bot", crisis: true },
+    ]);
+    expect(setup.llm.calls).toHaveLength(0);
+  });
+
+  it("rejects unknown roles and empty content", async () => {
+    expect((await client.post("/api/chats", { role: "system", content: "Hi" })).status).toBe(400);
+    expect((await client.post("/api/chats", { role: "user", content: "" })).status).toBe(400);
+  });
+});
+
+describe("DELETE /api/chats", () => {
+  it("clears one conversation or all of them", async () => {
+    const first = await client.post("/api/chat/respond", { message: "I have three exams next week" });
+    await client.post("/api/chat/respond", { message: "Something else" });
+
+    await client.delete(`/api/chats?conversationId=${first.body.conversation.id}`);
+    const remaining = await client.get("/api/chats");
+    expect(remaining.body.map((m: any) => m.content)).toEqual(["Something else", "That's great to hear!"]);
+
+    expect((await client.delete("/api/chats")).body).toEqual({ success: true });
+    expect((await client.get("/api/chats")).body).toEqual([]);
+  });
+});
+
+describe("GET /api/search", () => {
+  it("finds messages without leaving their decrypted text in memory", async () => {
+    await client.post("/api/chats", { role: "user", content: "Worried about my chemistry exam" });
+    await client.post("/api/chats", { role: "user", content: "Slept well" });
+
+    const res = await client.get("/api/search?q=chemistry");
+    expect(res.status).toBe(200);
+    expect(res.body.map((m: any) => m.snippet.filter((part: any) => part.hit).map((part: any) => part.text))).toEqual([["chemistry"]]);
+    expect(setup.db.prepare("SELECT count(*) AS n FROM search.chat_index").get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { setRoleByEmail } from "../../server/repositories/users";
+import { createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let student: Client;
+let counselor: Client;
+let studentId: number;
+let counselorId: number;
+
+beforeEach(async () => {
+  setup = createTestApp([{ mood: "Stressed", response: "That sounds like a lot." }]);
+  ({ client: student, user: { id: studentId } } = await signUp(setup.app));
+  ({ client: counselor, user: { id: counselorId } } = await signUp(setup.app, "casey@example.edu", "Casey"));
+  withDatabase(setup.db, () => setRoleByEmail("casey@example.edu", "counselor"));
+  await student.post("/api/chat/respond", { message: "My sister and I keep fighting" });
+  await student.post("/api/moods", { mood: "Anxious", tags: ["exams"] });
+});
+
+const triggerTags = async () => {
+  const res = await counselor.get(`/api/counselor/students/${studentId}/moods/analytics`);
+  expect(res.status).toBe(200);
+  return res.body.triggers.map((t: any) => t.tag);
+};
+
+describe("GET /api/counselor/students/:id/moods/analytics", () => {
+  it("leaves out topics picked from chats when transcripts aren't shared", async () => {
+    await student.post("/api/sharing/grants", { counselorId, includeTranscripts: false, days: 30 });
+    expect(await triggerTags()).toEqual(["exams"]);
+  });
+
+  it("includes them when the student shared transcripts", async () => {
+    await student.post("/api/sharing/grants", { counselorId, includeTranscripts: true, days: 30 });
+    expect(await triggerTags()).toEqual(expect.arrayContaining(["exams", "family"]));
+  });
+});
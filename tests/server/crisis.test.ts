@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createCrisisDetector } from "../../server/services/crisis";
+
+const { detect } = createCrisisDetector();
+const flagged = (text: string) => detect(text).isCrisis;
+
+describe("crisis detector", () => {
+  it("catches inflected and abbreviated forms", () => {
+    for (const text of [
+      "I keep cutting myself",
+      "I've been hurting myself again when things get bad",
+      "I've been thinking about ending my life",
+      "honestly kms",
+      "I just want to disappear and never wake up",
+      "Sometimes I think everyone would be better off without me",
+      "I no longer want to live",
+      "I wouldn't mind dying",
+      "I want to disappear forever",
+    ]) {
+      expect(flagged(text), text).toBe(true);
+    }
+  });
+
+  it("isn't cancelled by a negation that governs something else", () => {
+    for (const text of [
+      "nobody cares i want to die",
+      "I have no friends and I want to die",
+      "I'm not okay and I want to kill myself",
+      "why not kill myself",
+      "why would I not end my life",
+      "why wouldn't I want to die",
+    ]) {
+      expect(flagged(text), text).toBe(true);
+    }
+  });
+
+  it("is cancelled by a negation of the phrase itself", () => {
+    for (const text of [
+      "I don't want to die",
+      "I would never hurt myself",
+      "I'm not going to kill myself",
+      "I'm not suicidal",
+      "I don't really want to die",
+      "I am never going to hurt myself",
+    ]) {
+      expect(flagged(text), text).toBe(false);
+    }
+  });
+
+  it("ignores everyday figures of speech", () => {
+    for (const text of ["this exam is going to kill me", "he hurt me yesterday", "my back is killing me", "I ran 5 kms this morning"]) {
+      expect(flagged(text), text).toBe(false);
+    }
+  });
+
+  it("handles Spanish and French negations the same way", () => {
+    for (const text of [
+      "no sé qué hacer quiero morir",
+      "nadie me quiere quiero morir",
+      "ya no quiero vivir",
+      "je ne sais pas quoi faire je veux mourir",
+      "personne ne m'aime je veux mourir",
+      "j'ai envie de mourir",
+      "¿por qué no matarme?",
+      "pourquoi je ne vais pas me tuer",
+    ]) {
+      expect(flagged(text), text).toBe(true);
+    }
+    for (const text of ["no quiero morir", "no voy a matarme", "nunca voy a hacerme daño", "je n'ai pas envie de mourir", "je ne vais pas me tuer", "je ne veux pas mourir"]) {
+      expect(flagged(text), text).toBe(false);
+    }
+  });
+
+  it("keeps the Chinese lookbehinds", () => {
+    expect(flagged("我真的不想活了")).toBe(true);
+    expect(flagged("没人在乎我，我想死")).toBe(true);
+    expect(flagged("我不想死")).toBe(false);
+    expect(flagged("我不会自杀的")).toBe(false);
+  });
+});
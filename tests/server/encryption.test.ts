@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { rotateKeys } from "../../server/services/encryption";
+import { createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+
+beforeEach(async () => {
+  setup = createTestApp();
+  ({ client } = await signUp(setup.app));
+});
+
+describe("encryption at rest", () => {
+  it("stores notes encrypted", async () => {
+    await client.post("/api/moods", { mood: "Anxious", note: "Big test tomorrow" });
+    const row = setup.db.prepare("SELECT note FROM moods").get() as { note: string };
+    expect(row.note).toMatch(/^enc:v1:/);
+  });
+
+  it("keeps data readable after the data keys are replaced", async () => {
+    await client.post("/api/moods", { mood: "Anxious", note: "Big test tomorrow" });
+    expect((await client.get("/api/moods")).body[0].note).toBe("Big test tomorrow");
+    const before = setup.db.prepare("SELECT note FROM moods").get();
+
+    withDatabase(setup.db, () => rotateKeys(true));
+    expect(setup.db.prepare("SELECT note FROM moods").get()).not.toEqual(before);
+    await client.post("/api/moods", { mood: "Happy", note: "Went for a walk" });
+    const notes = (await client.get("/api/moods")).body.map((mood: { note: string }) => mood.note);
+    expect(notes.sort()).toEqual(["Big test tomorrow", "Went for a walk"]);
+  });
+});
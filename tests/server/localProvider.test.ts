@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { classifyMood } from "../../server/services/llm/localProvider";
+
+describe("classifyMood", () => {
+  it("reads 'can't stop' as stronger, not negated", () => {
+    expect(classifyMood("I can't stop crying")).toBe("Sad");
+    expect(classifyMood("I can't stop worrying about my sister")).toBe("Anxious");
+    expect(classifyMood("I can't help worrying")).toBe("Anxious");
+    expect(classifyMood("I'm not worried about it")).toBe("Neutral");
+    expect(classifyMood("I'm not happy here")).toBe("Sad");
+  });
+
+  it("doesn't take 'better' for happiness", () => {
+    expect(classifyMood("Sometimes I think everyone would be better off without me")).not.toBe("Happy");
+  });
+
+  it("lets a phrase outweigh the words inside it", () => {
+    expect(classifyMood("There's not enough time to study for my exams")).toBe("Stressed");
+  });
+
+  it("doesn't read 'passed' as good news on its own", () => {
+    expect(classifyMood("My dog passed last night")).not.toBe("Happy");
+  });
+
+  it("keeps accented letters and curly apostrophes", () => {
+    expect(classifyMood("Je suis énervé contre mon colocataire")).toBe("Angry");
+    expect(classifyMood("Je suis triste depuis que je suis arrivé ici")).toBe("Sad");
+    expect(classifyMood("I can’t stop crying")).toBe("Sad");
+    expect(classifyMood("I’m not worried")).toBe("Neutral");
+  });
+});
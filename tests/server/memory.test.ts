@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { withDatabase } from "../../server/db";
+import { compactConversation } from "../../server/services/memory";
+import { createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+let userId: number;
+
+beforeEach(async () => {
+  setup = createTestApp();
+  ({ client, user: { id: userId } } = await signUp(setup.app));
+});
+
+describe("compactConversation", () => {
+  it("keeps crisis messages out of the summary, even from the offline summarizer", async () => {
+    setup.llm.summarize = async () => {
+      throw new Error("quota exceeded");
+    };
+    const first = await client.post("/api/chats", { role: "user", content: "I want to kill myself tonight" });
+    const { conversationId } = first.body;
+    for (let i = 1; i <= 18; i++) {
+      await client.post("/api/chats", { role: "user", content: `Exam number ${i} is coming up`, conversationId });
+    }
+
+    await withDatabase(setup.db, () => compactConversation(setup.llm, userId, conversationId));
+    const { summary } = (await client.get("/api/memory")).body;
+    expect(summary.content).toContain("A difficult moment, when crisis support was offered.");
+    expect(summary.content).toContain("Exam number 1 is coming up");
+    expect(summary.content).not.toMatch(/kill|helpline|988/i);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { openDatabase } from "../../server/db";
+import { MIGRATIONS } from "../../server/migrations";
+import { currentVersion, rollback } from "../../server/migrations/runner";
+
+describe("rollback", () => {
+  it("won't undo the initial schema, which may have adopted an existing database", () => {
+    const db = openDatabase(":memory:");
+    db.prepare("INSERT INTO users (email, password, name) VALUES ('sam@example.edu', 'x', 'Sam')").run();
+
+    expect(() => rollback(db, MIGRATIONS, 0)).toThrow(/1_initial_schema cannot be undone/);
+    expect(currentVersion(db)).toBe(MIGRATIONS.at(-1)!.version);
+    expect(db.prepare("SELECT COUNT(*) AS count FROM users").get()).toEqual({ count: 1 });
+
+    expect(rollback(db, MIGRATIONS, 1).map(m => m.version)).toEqual([4, 3, 2]);
+    expect(currentVersion(db)).toBe(1);
+  });
+});
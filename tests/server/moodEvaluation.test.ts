@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createCrisisDetector } from "../../server/services/crisis";
+import { buildReport, classifyExamples, parseDataset, type LabelledMessage } from "../../server/services/moodEvaluation";
+import { createScriptedModel } from "../support/fakeModel";
+
+const dataset = { file: "test.jsonl", sha256: "0", examples: 0 };
+const classifier = { provider: "scripted", model: null };
+
+describe("parseDataset", () => {
+  it("reads one labelled message per line, with defaults", () => {
+    const { examples } = parseDataset('{"text":"Exams tomorrow","mood":"Stressed"}\n\n{"id":"b","text":"Je veux mourir","mood":"Sad","crisis":true,"locale":"fr"}\n');
+    expect(examples).toEqual([
+      { id: "1", text: "Exams tomorrow", mood: "Stressed", crisis: false, locale: "en" },
+      { id: "b", text: "Je veux mourir", mood: "Sad", crisis: true, locale: "fr" },
+    ]);
+  });
+
+  it("names the line with a problem", () => {
+    expect(parseDataset('{"text":"Hi","mood":"Neutral"}\nnot json').error).toBe("Line 2 is not valid JSON");
+    expect(parseDataset('{"text":"Hi","mood":"Bored"}').error).toMatch(/^Line 1: mood must be one of/);
+    expect(parseDataset('{"id":1,"text":"Hi","mood":"Neutral"}\n{"id":1,"text":"Hey","mood":"Neutral"}').error).toBe("Line 2 repeats the id 1");
+    expect(parseDataset("\n").error).toBe("The dataset has no examples");
+  });
+});
+
+describe("classifyExamples", () => {
+  const examples: LabelledMessage[] = [
+    { id: "1", text: "I have three exams", mood: "Stressed", crisis: false, locale: "en" },
+    { id: "2", text: "I want to die", mood: "Sad", crisis: true, locale: "en" },
+    { id: "3", text: "Nothing much", mood: "Neutral", crisis: false, locale: "es" },
+  ];
+
+  it("screens for crisis before asking the model, as the chat does", async () => {
+    const model = createScriptedModel([
+      { mood: "Anxious", response: "" },
+      { mood: "Neutral", response: "" },
+    ]);
+    const predictions = await classifyExamples(model, createCrisisDetector(), examples);
+    expect(predictions.map(p => [p.predicted, p.crisisDetected])).toEqual([
+      ["Anxious", false],
+      ["Sad", true],
+      ["Neutral", false],
+    ]);
+    expect(model.calls.map(call => [call.message, call.context.locale])).toEqual([
+      ["I have three exams", "en"],
+      ["Nothing much", "es"],
+    ]);
+  });
+
+  it("records provider failures instead of falling back", async () => {
+    const model = createScriptedModel();
+    model.respond = async () => {
+      throw new Error("quota exceeded");
+    };
+    const [prediction] = await classifyExamples(model, createCrisisDetector(), examples.slice(0, 1));
+    expect(prediction).toMatchObject({ predicted: null, error: "quota exceeded" });
+  });
+});
+
+describe("buildReport", () => {
+  const prediction = (expected: any, predicted: any, crisisExpected = false, crisisDetected = false) => ({
+    id: `${expected}-${predicted}`,
+    text: "",
+    expected,
+    predicted,
+    crisisExpected,
+    crisisDetected,
+    ...(predicted ? {} : { error: "failed" }),
+  });
+
+  it("computes per-class precision and recall and the confusion matrix", () => {
+    const report = buildReport(
+      [
+        prediction("Stressed", "Stressed"),
+        prediction("Stressed", "Anxious"),
+        prediction("Anxious", "Anxious"),
+        prediction("Anxious", null),
+        prediction("Happy", "Happy"),
+      ],
+      classifier,
+      dataset
+    );
+    expect(report.accuracy).toBe(0.6);
+    expect(report.perClass.Stressed).toEqual({ precision: 1, recall: 0.5, f1: 0.6667, support: 2 });
+    expect(report.perClass.Anxious).toEqual({ precision: 0.5, recall: 0.5, f1: 0.5, support: 2 });
+    expect(report.perClass.Sad).toEqual({ precision: null, recall: null, f1: null, support: 0 });
+    expect(report.macroF1).toBe(0.7222);
+    expect(report.confusionMatrix.Stressed).toMatchObject({ Stressed: 1, Anxious: 1 });
+    expect(report.confusionMatrix.Anxious).toMatchObject({ Anxious: 1, error: 1 });
+    expect(report.errors).toHaveLength(1);
+    expect(report.misclassified).toEqual([{ id: "Stressed-Anxious", text: "", expected: "Stressed", predicted: "Anxious" }]);
+  });
+
+  it("reports crisis recall separately from the mood labels", () => {
+    const report = buildReport(
+      [prediction("Sad", "Sad", true, true), prediction("Sad", "Sad", true, false), prediction("Happy", "Sad", false, true)],
+      classifier,
+      dataset
+    );
+    expect(report.crisis).toMatchObject({ recall: 0.5, precision: 0.5, truePositives: 1, falseNegatives: 1, falsePositives: 1 });
+    expect(report.crisis.missed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createClient, createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+
+beforeEach(async () => {
+  setup = createTestApp();
+  ({ client } = await signUp(setup.app));
+});
+
+describe("mood routes", () => {
+  it("need a session", async () => {
+    const anonymous = createClient(setup.app);
+    expect((await anonymous.get("/api/moods")).status).toBe(401);
+    expect((await anonymous.post("/api/moods", { mood: "Happy" })).status).toBe(401);
+    expect((await anonymous.get("/api/moods/analytics")).status).toBe(401);
+  });
+});
+
+describe("POST /api/moods", () => {
+  it("records a check-in with normalised tags", async () => {
+    const res = await client.post("/api/moods", { mood: "Anxious", intensity: 7, tags: ["Exams", " exams", "sleep"], note: "  Big test tomorrow " });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ mood: "Anxious", intensity: 7, tags: ["exams", "sleep"], note: "Big test tomorrow", source: "self", chat_id: null });
+
+    const moods = await client.get("/api/moods");
+    expect(moods.body).toEqual([res.body]);
+  });
+
+  it("rejects unknown moods and out-of-range values", async () => {
+    expect((await client.post("/api/moods", { mood: "Elated" })).status).toBe(400);
+    expect((await client.post("/api/moods", { mood: "Happy", intensity: 11 })).status).toBe(400);
+    expect((await client.post("/api/moods", { mood: "Happy", tags: "exams" })).status).toBe(400);
+    expect((await client.post("/api/moods", { mood: "Happy", note: "x".repeat(1001) })).status).toBe(400);
+    expect((await client.get("/api/moods")).body).toEqual([]);
+  });
+
+  it("records a retried check-in only once", async () => {
+    const headers = { "Idempotency-Key": "check-in-0001" };
+    await client.post("/api/moods", { mood: "Happy" }, headers);
+    const retry = await client.post("/api/moods", { mood: "Happy" }, headers);
+    expect(retry.status).toBe(201);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect((await client.get("/api/moods")).body).toHaveLength(1);
+
+    const reused = await client.post("/api/moods", { mood: "Sad" }, headers);
+    expect(reused.status).toBe(422);
+  });
+});
+
+describe("GET /api/moods", () => {
+  it("lists the student's own check-ins, oldest first", async () => {
+    await client.post("/api/moods", { mood: "Sad" });
+    await client.post("/api/moods", { mood: "Happy" });
+    const other = await signUp(setup.app, "alex@example.edu", "Alex");
+    await other.client.post("/api/moods", { mood: "Angry" });
+
+    expect((await client.get("/api/moods")).body.map((m: any) => m.mood)).toEqual(["Sad", "Happy"]);
+  });
+});
+
+describe("GET /api/moods/analytics", () => {
+  it("summarises check-ins in the requested range", async () => {
+    await client.post("/api/moods", { mood: "Happy", tags: ["friends"] });
+    await client.post("/api/moods", { mood: "Stressed", tags: ["exams"] });
+    const today = new Date().toISOString().slice(0, 10);
+
+    const res = await client.get(`/api/moods/analytics?from=${today}&to=${today}&tzOffset=0`);
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.distribution).toMatchObject({ Happy: 1, Stressed: 1 });
+  });
+
+  it("rejects malformed ranges", async () => {
+    expect((await client.get("/api/moods/analytics?from=yesterday")).status).toBe(400);
+    expect((await client.get("/api/moods/analytics?from=2026-02-10&to=2026-02-01")).status).toBe(400);
+  });
+});
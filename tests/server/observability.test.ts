@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import request from "supertest";
+import { redact, useLogOutput } from "../../server/services/logger";
+import { createTestApp, signUp, type Client } from "../support/app";
+
+let setup: ReturnType<typeof createTestApp>;
+let client: Client;
+let lines: Record<string, any>[];
+
+beforeEach(async () => {
+  lines = [];
+  useLogOutput(line => lines.push(JSON.parse(line)));
+  setup = createTestApp([], { metricsToken: "scrape-token" });
+  ({ client } = await signUp(setup.app));
+});
+
+const metrics = async () => (await client.get("/metrics", { Authorization: "Bearer scrape-token" })).text;
+
+describe("request logging", () => {
+  it("logs each request as JSON with its id, never what was written", async () => {
+    const res = await client.post("/api/chat/respond", { message: "I can't stop worrying about my sister" });
+    const requestId = res.headers["x-request-id"];
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(lines).toContainEqual({
+      time: expect.any(String),
+      level: "info",
+      event: "request",
+      requestId,
+      method: "POST",
+      path: "/api/chat/respond",
+      route: "/api/chat/respond",
+      status: 200,
+      durationMs: expect.any(Number),
+      userId: expect.any(Number),
+    });
+    expect(JSON.stringify(lines)).not.toMatch(/sister|Calm-waters|sam@example/);
+  });
+
+  it("keeps a proxy's request id and tags service errors with it", async () => {
+    setup.llm.respond = async () => {
+      throw new SyntaxError(`Unexpected token 'I', "I can't sleep" is not valid JSON`);
+    };
+    await client.post("/api/chat/respond", { message: "I can't sleep" }, { "X-Request-Id": "edge-1234abcd" });
+    const failure = lines.find(line => line.event === "model_call_failed");
+    expect(failure).toMatchObject({
+      level: "error",
+      requestId: "edge-1234abcd",
+      provider: "scripted",
+      operation: "respond",
+      error: { name: "SyntaxError", message: `Unexpected token 'I', "[redacted]" is not valid JSON` },
+    });
+  });
+
+  it("logs a failed save against the request instead of losing it", async () => {
+    setup.db.exec("CREATE TRIGGER full BEFORE INSERT ON chats BEGIN SELECT RAISE(ABORT, 'database or disk is full'); END");
+    const res = await client.post("/api/chat/respond", { message: "Hello" });
+    expect(res.status).toBe(500);
+    const saved = await client.post("/api/chats", { role: "user", content: "Hello again" });
+    expect(saved.status).toBe(500);
+    expect(saved.body).toEqual({ error: "Something went wrong" });
+
+    expect(lines.find(line => line.event === "chat_exchange_save_failed")).toMatchObject({
+      requestId: res.headers["x-request-id"],
+      error: { message: "database or disk is full" },
+    });
+    expect(lines.find(line => line.event === "request_failed")).toMatchObject({ requestId: saved.headers["x-request-id"], path: "/api/chats" });
+  });
+
+  it("answers a chat that fails outside its own error handling instead of hanging", async () => {
+    setup.db.exec("DROP TABLE memories");
+    const res = await client.post("/api/chat/respond", { message: "Hello" });
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({ error: "Something went wrong" });
+
+    const stream = await client.post("/api/chat/stream", { message: "Hello" });
+    expect(stream.status).toBe(200);
+    expect(stream.text).not.toContain("event: done");
+    expect(lines.filter(line => line.event === "request_failed").map(line => line.path)).toEqual(["/api/chat/respond", "/api/chat/stream"]);
+  });
+
+  it("answers malformed JSON with a JSON error", async () => {
+    const res = await request(setup.app).post("/api/moods").set("Content-Type", "application/json").send('{"mood":');
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ error: "Invalid request" });
+  });
+});
+
+describe("redact", () => {
+  it("hides content and identity fields at any depth", () => {
+    expect(redact({ userId: 4, message: "hi", nested: [{ email: "a@b.c", status: 200 }] })).toEqual({
+      userId: 4,
+      message: "[redacted]",
+      nested: [{ email: "[redacted]", status: 200 }],
+    });
+    expect(redact({ error: new Error("550 Mailbox unavailable: <sam@example.edu>") })).toEqual({
+      error: { name: "Error", message: "550 Mailbox unavailable: <[email]>" },
+    });
+  });
+});
+
+describe("GET /metrics", () => {
+  it("needs the scrape token when one is configured", async () => {
+    expect((await client.get("/metrics")).status).toBe(401);
+    expect((await client.get("/metrics", { Authorization: "Bearer wrong" })).status).toBe(401);
+  });
+
+  it("reports request and model latency, fallbacks and crisis detections", async () => {
+    // The registry lives as long as the process, so earlier tests' calls are counted too.
+    const series = {
+      requests: 'http_request_duration_seconds_count{method="POST",route="/api/chat/respond",status="200"}',
+      timedFallbacks: 'model_call_duration_seconds_count{provider="scripted",operation="respond",outcome="fallback"}',
+      fallbacks: 'model_fallbacks_total{provider="scripted",operation="respond"}',
+      crises: 'crisis_detections_total{endpoint="respond"}',
+    };
+    const read = (text: string) =>
+      Object.fromEntries(
+        Object.entries(series).map(([key, name]) => [key, Number(text.split("\n").find(line => line.startsWith(`${name} `))?.split(" ")[1] ?? 0)])
+      );
+    const before = read(await metrics());
+
+    await client.post("/api/chat/respond", { message: "I want to die" });
+    setup.llm.respond = async () => {
+      throw new Error("quota exceeded");
+    };
+    await client.post("/api/chat/respond", { message: "Long day" });
+
+    const text = await metrics();
+    expect(text).toContain("# TYPE http_request_duration_seconds histogram");
+    expect(text).toContain("# TYPE model_fallbacks_total counter");
+    const after = read(text);
+    expect(Object.fromEntries(Object.keys(series).map(key => [key, after[key] - before[key]]))).toEqual({
+      requests: 2,
+      timedFallbacks: 1,
+      fallbacks: 1,
+      crises: 1,
+    });
+    expect(text).not.toMatch(/die|Long day/);
+  });
+});
+
+describe("health checks", () => {
+  it("report liveness and readiness", async () => {
+    expect((await client.get("/healthz")).body).toEqual({ status: "ok" });
+    expect((await client.get("/readyz")).body).toEqual({ status: "ready", schemaVersion: 4 });
+  });
+
+  it("aren't ready until every migration is applied", async () => {
+    setup.db.prepare("DELETE FROM schema_version WHERE version = 4").run();
+    const res = await client.get("/readyz");
+    expect(res.status).toBe(503);
+    expect(res.body.error).toMatch(/version 3, expected 4/);
+  });
+
+  it("aren't ready when the database is unreachable", async () => {
+    setup.db.close();
+    const res = await client.get("/readyz");
+    expect(res.status).toBe(503);
+    expect(res.body).toEqual({ status: "unavailable", error: "Database unavailable" });
+    expect((await client.get("/healthz")).status).toBe(200);
+  });
+});
+
+describe("createApp", () => {
+  it("keeps each app on its own database, side by side", async () => {
+    const other = createTestApp();
+    const { client: elsewhere } = await signUp(other.app, "alex@example.edu", "Alex");
+    await client.post("/api/moods", { mood: "Happy" });
+    await elsewhere.post("/api/moods", { mood: "Sad" });
+
+    expect((await client.get("/api/moods")).body.map((m: any) => m.mood)).toEqual(["Happy"]);
+    expect((await elsewhere.get("/api/moods")).body.map((m: any) => m.mood)).toEqual(["Sad"]);
+    expect(other.db.prepare("SELECT email FROM users").all()).toEqual([{ email: "alex@example.edu" }]);
+  });
+});
@@ -0,0 +1,76 @@
+import request, { type Response } from "supertest";
+import type { Express } from "express";
+import { createApp, type AppDependencies } from "../../server/app";
+import { openDatabase } from "../../server/db";
+import type { Mailer, MailMessage } from "../../server/services/mailer";
+import type { ModelResponse } from "../../server/services/llm";
+import { createScriptedModel } from "./fakeModel";
+
+export const PASSWORD = "Calm-waters-42";
+
+export interface CapturingMailer extends Mailer {
+  sent: MailMessage[];
+}
+
+export const createCapturingMailer = (): CapturingMailer => {
+  const mailer: CapturingMailer = {
+    name: "capture",
+    sent: [],
+    async send(message) {
+      mailer.sent.push(message);
+    },
+  };
+  return mailer;
+};
+
+// A fresh app on its own in-memory database, answered by a scripted model.
+export const createTestApp = (script: ModelResponse[] = [], overrides: Partial<AppDependencies> = {}) => {
+  const db = openDatabase(":memory:");
+  const llm = createScriptedModel(script);
+  const mailer = createCapturingMailer();
+  const app = createApp({ db, llm, mailer, ...overrides });
+  return { app, db, llm, mailer };
+};
+
+// The session cookies are Secure, so supertest's own cookie jar won't send
+// them over plain http; this client keeps them itself, the way a browser
+// would.
+export const createClient = (app: Express) => {
+  const cookies = new Map<string, string>();
+
+  const remember = (res: Response) => {
+    const headers = res.headers["set-cookie"] as unknown as string[] | undefined;
+    for (const header of headers ?? []) {
+      const [pair] = header.split(";");
+      const [name, ...value] = pair.split("=");
+      if (value.join("=")) cookies.set(name, value.join("="));
+      else cookies.delete(name);
+    }
+    return res;
+  };
+
+  const send = (method: "get" | "post" | "patch" | "delete", url: string, body?: object, headers: Record<string, string> = {}) => {
+    const req = request(app)[method](url).set(headers);
+    if (cookies.size) req.set("Cookie", [...cookies].map(([name, value]) => `${name}=${value}`).join("; "));
+    return (body === undefined ? req : req.send(body)).then(remember);
+  };
+
+  return {
+    cookies,
+    get: (url: string, headers?: Record<string, string>) => send("get", url, undefined, headers),
+    post: (url: string, body?: object, headers?: Record<string, string>) => send("post", url, body, headers),
+    patch: (url: string, body?: object, headers?: Record<string, string>) => send("patch", url, body, headers),
+    delete: (url: string, body?: object, headers?: Record<string, string>) => send("delete", url, body, headers),
+  };
+};
+
+export type Client = ReturnType<typeof createClient>;
+
+export const signUp = async (app: Express, email = "sam@example.edu", name = "Sam") => {
+  const client = createClient(app);
+  const signup = await client.post("/api/auth/signup", { email, password: PASSWORD, name });
+  if (signup.status !== 200) throw new Error(`Sign-up failed: ${signup.body.error}`);
+  const res = await client.post("/api/auth/login", { email, password: PASSWORD });
+  if (res.status !== 200) throw new Error(`Login after sign-up failed: ${res.body.error}`);
+  return { client, user: res.body };
+};
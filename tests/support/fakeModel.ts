@@ -0,0 +1,36 @@
+import type { ChatContext, ChatTurn, LLMProvider, ModelResponse } from "../../server/services/llm";
+
+export interface ScriptedModel extends LLMProvider {
+  // Replies still to be given, consumed in order by respond and respondStream.
+  script: ModelResponse[];
+  // Every message the model was asked to answer, with the context it was given.
+  calls: { message: string; context: ChatContext }[];
+}
+
+const FALLBACK: ModelResponse = { mood: "Neutral", response: "I'm here and listening.", suggestions: [] };
+
+// A model that answers from a script instead of a backend, so tests can say
+// exactly what the "AI" replies. Streamed replies arrive a word at a time.
+export const createScriptedModel = (script: ModelResponse[] = []): ScriptedModel => {
+  const model: ScriptedModel = {
+    name: "scripted",
+    script: [...script],
+    calls: [],
+    async respond(message: string, context: ChatContext) {
+      model.calls.push({ message, context });
+      return model.script.shift() ?? FALLBACK;
+    },
+    async respondStream(message: string, context: ChatContext, onToken: (text: string) => void) {
+      const reply = await model.respond(message, context);
+      for (const word of reply.response.split(/(?<= )/)) onToken(word);
+      return reply;
+    },
+    async title(message: string) {
+      return message.split(/\s+/).slice(0, 4).join(" ");
+    },
+    async summarize(summary: string | null, turns: ChatTurn[]) {
+      return [summary, ...turns.map(turn => turn.content)].filter(Boolean).join(" ");
+    },
+  };
+  return model;
+};
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    // Server tests run in node; component tests opt into jsdom with a
+    // `@vitest-environment jsdom` comment.
+    environment: 'node',
+    env: {
+      JWT_SECRET: 'test-secret-0123456789abcdef0123456789',
+      ENCRYPTION_MASTER_KEY: Buffer.alloc(32, 7).toString('base64'),
+      LOG_LEVEL: 'silent',
+    },
+  },
+});